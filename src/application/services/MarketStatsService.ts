@@ -0,0 +1,56 @@
+import { IMarketRepository } from '../../domain/ports/IMarketRepository.js';
+import { Listing } from '../../domain/entities/Listing.js';
+import { MarketComparison, MarketMedian, MarketObservation, MarketTrendPoint } from '../../domain/entities/MarketStats.js';
+import { compareToMarket, toMarketObservation } from '../../domain/services/MarketStatistics.js';
+import { ILogger, LoggerFactory } from '../../infrastructure/logging/Logger.js';
+
+export interface MarketReport {
+  windowDays: number;
+  medians: MarketMedian[];
+  trends: MarketTrendPoint[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TREND_WEEKS = 8;
+
+// Rolling €/m² statistics over everything scraped. Listings are collected during an iteration
+// and written once at its end; comparisons use the medians loaded at that point.
+export class MarketStatsService {
+  private readonly logger: ILogger;
+  private readonly pending = new Map<string, MarketObservation>();
+  private medians: MarketMedian[] = [];
+
+  constructor(
+    private readonly repository: IMarketRepository,
+    private readonly windowDays: number = 30
+  ) {
+    this.logger = LoggerFactory.create('MarketStatsService');
+  }
+
+  observe(provider: string, listings: Listing[]): void {
+    for (const listing of listings) {
+      const observation = toMarketObservation(provider, listing);
+      if (observation) {
+        this.pending.set(`${provider}:${listing.id}`, observation);
+      }
+    }
+  }
+
+  compare(listing: Listing): MarketComparison | null {
+    return compareToMarket(listing, this.medians);
+  }
+
+  async flush(): Promise<void> {
+    const observations = Array.from(this.pending.values());
+    this.pending.clear();
+    await this.repository.recordObservations(observations);
+    this.medians = await this.repository.getMedians(new Date(Date.now() - this.windowDays * DAY_MS));
+    this.logger.debug(`Recorded ${observations.length} observation(s), ${this.medians.length} median(s) loaded`);
+  }
+
+  async getReport(): Promise<MarketReport> {
+    const medians = await this.repository.getMedians(new Date(Date.now() - this.windowDays * DAY_MS));
+    const trends = await this.repository.getWeeklyTrends(new Date(Date.now() - TREND_WEEKS * 7 * DAY_MS));
+    return { windowDays: this.windowDays, medians, trends };
+  }
+}
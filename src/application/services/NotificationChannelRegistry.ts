@@ -0,0 +1,18 @@
+import { INotificationChannel } from '../../domain/ports/INotificationChannel.js';
+
+// Channels available in this installation, e.g. e-mail only when SMTP is configured
+export class NotificationChannelRegistry {
+  private readonly channels = new Map<string, INotificationChannel>();
+
+  register(channel: INotificationChannel): void {
+    this.channels.set(channel.id, channel);
+  }
+
+  get(id: string): INotificationChannel | undefined {
+    return this.channels.get(id);
+  }
+
+  list(): INotificationChannel[] {
+    return Array.from(this.channels.values());
+  }
+}
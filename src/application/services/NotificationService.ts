@@ -0,0 +1,121 @@
+import { User } from '../../domain/entities/User.js';
+import { ListingNotification } from '../../domain/entities/Notification.js';
+import { PriceChange } from '../../domain/entities/PriceChange.js';
+import { DEFAULT_DELIVERY_SCHEDULE } from '../../domain/entities/DeliverySchedule.js';
+import { IPendingNotificationRepository } from '../../domain/ports/IPendingNotificationRepository.js';
+import { isDigestDue, shouldHold } from '../../domain/services/DeliveryPlanner.js';
+import { ILogger, LoggerFactory } from '../../infrastructure/logging/Logger.js';
+import { NotificationChannelRegistry } from './NotificationChannelRegistry.js';
+
+// Sends a scrape result to every enabled channel of the user; one failing channel doesn't stop the others.
+// Results arriving in quiet hours or for hourly/daily users are held until their schedule says so.
+// When every channel fails, the batch is held again and goes out with the next due digest.
+export class NotificationService {
+  private readonly logger: ILogger;
+
+  constructor(
+    private readonly channels: NotificationChannelRegistry,
+    private readonly pending: IPendingNotificationRepository
+  ) {
+    this.logger = LoggerFactory.create('NotificationService');
+  }
+
+  async notify(user: User, notification: ListingNotification): Promise<void> {
+    if (notification.newListings.length === 0 && notification.priceDrops.length === 0) return;
+
+    if (shouldHold(user.deliverySchedule ?? DEFAULT_DELIVERY_SCHEDULE, new Date())) {
+      await this.pending.add(user.id, notification);
+      this.logger.debug(`Held ${notification.newListings.length + notification.priceDrops.length} item(s) for ${user.name}`);
+      return;
+    }
+
+    // Anything still held goes out first, in the same batch
+    const held = await this.pending.take(user.id);
+    await this.deliverOrHold(user, held ? mergeNotifications(held, notification) : notification);
+  }
+
+  // Sends held notifications whose time has come - called once per scrape iteration
+  async deliverDue(users: User[]): Promise<void> {
+    const heldSince = await this.pending.getHeldSince();
+    const now = new Date();
+
+    for (const user of users) {
+      const since = heldSince.get(user.id);
+      if (!since || !isDigestDue(user.deliverySchedule ?? DEFAULT_DELIVERY_SCHEDULE, since, now)) continue;
+
+      const held = await this.pending.take(user.id);
+      if (held) {
+        this.logger.info(`Sending digest of ${held.newListings.length + held.priceDrops.length} item(s) to ${user.name}`);
+        await this.deliverOrHold(user, { ...held, priceDrops: mergePriceDrops(held.priceDrops) });
+      }
+    }
+  }
+
+  private async deliverOrHold(user: User, notification: ListingNotification): Promise<void> {
+    if (await this.deliver(user, notification)) return;
+
+    // Put back with its original age, so a failed digest doesn't wait for the next period
+    await this.pending.add(user.id, notification);
+    this.logger.warn(
+      `No channel reached ${user.name}, holding ${notification.newListings.length + notification.priceDrops.length} item(s) for the next attempt`
+    );
+  }
+
+  // False only when channels were tried and all of them failed - users without a usable channel aren't retried
+  private async deliver(user: User, notification: ListingNotification): Promise<boolean> {
+    const preferences = (user.channels ?? []).filter((p) => p.enabled);
+    if (preferences.length === 0) {
+      this.logger.warn(`User ${user.name} has no enabled notification channel`);
+      return true;
+    }
+
+    const results = await Promise.all(
+      preferences.map(async (preference) => {
+        const channel = this.channels.get(preference.channel);
+        if (!channel) {
+          this.logger.warn(`Channel ${preference.channel} of user ${user.name} is not available`);
+          return null;
+        }
+
+        try {
+          await channel.send(
+            {
+              userId: user.id,
+              name: user.name,
+              address: preference.address,
+              settings: preference.settings,
+              timezone: (user.deliverySchedule ?? DEFAULT_DELIVERY_SCHEDULE).timezone,
+            },
+            notification
+          );
+          return true;
+        } catch (error) {
+          this.logger.error(`Failed to send ${channel.name} notification to ${user.name}`, error as Error);
+          return false;
+        }
+      })
+    );
+    const attempted = results.filter((sent) => sent !== null);
+    return attempted.length === 0 || attempted.some(Boolean);
+  }
+}
+
+function mergeNotifications(held: ListingNotification, current: ListingNotification): ListingNotification {
+  return {
+    newListings: [...held.newListings, ...current.newListings],
+    priceDrops: mergePriceDrops([...held.priceDrops, ...current.priceDrops]),
+    heldSince: held.heldSince,
+  };
+}
+
+// Repeated drops of one listing become a single drop from the first to the latest rent
+function mergePriceDrops(priceDrops: PriceChange[]): PriceChange[] {
+  const drops = new Map<string, PriceChange>();
+  for (const drop of priceDrops) {
+    const key = `${drop.listing.source}:${drop.listing.id}`;
+    const earlier = drops.get(key);
+    drops.set(key, earlier ? { ...drop, previousPrice: earlier.previousPrice, previousRent: earlier.previousRent } : drop);
+  }
+
+  return Array.from(drops.values());
+}
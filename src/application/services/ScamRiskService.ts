@@ -0,0 +1,51 @@
+import { Listing } from '../../domain/entities/Listing.js';
+import { ScamRisk } from '../../domain/entities/ScamRisk.js';
+import { normalizeListingUrl } from '../../domain/services/ListingDeduplicator.js';
+import { scoreScamRisk } from '../../domain/services/ScamRiskScorer.js';
+
+const IMAGE_MEMORY_MS = 7 * 24 * 60 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+// A picture on this many listings is a portal placeholder, not a reused stock photo
+const PLACEHOLDER_IMAGE_USES = 20;
+
+// Remembers which listings use which picture (in memory, for a week) to spot reused photos
+export class ScamRiskService {
+  // Image -> listing link -> last seen
+  private readonly imageUses = new Map<string, Map<string, number>>();
+  private lastPrunedAt = Date.now();
+
+  observe(listings: Listing[]): void {
+    const now = Date.now();
+    for (const listing of listings) {
+      if (!listing.image) continue;
+      const image = normalizeListingUrl(listing.image);
+      const uses = this.imageUses.get(image) ?? new Map<string, number>();
+      uses.set(normalizeListingUrl(listing.link), now);
+      this.imageUses.set(image, uses);
+    }
+
+    if (now - this.lastPrunedAt > PRUNE_INTERVAL_MS) {
+      this.prune(now);
+    }
+  }
+
+  // Portals of the same apartment (alsoListedOn) don't count as reuse
+  assess(listing: Listing): ScamRisk {
+    const related = new Set([listing, ...(listing.alsoListedOn ?? [])].map((l) => normalizeListingUrl(l.link)));
+    const uses = listing.image ? this.imageUses.get(normalizeListingUrl(listing.image)) : undefined;
+    const others = uses ? Array.from(uses.keys()).filter((l) => !related.has(l)).length : 0;
+    const sharedImageCount = others < PLACEHOLDER_IMAGE_USES ? others : 0;
+
+    return scoreScamRisk(listing, { sharedImageCount });
+  }
+
+  private prune(now: number): void {
+    this.lastPrunedAt = now;
+    for (const [image, uses] of this.imageUses) {
+      for (const [link, lastSeen] of uses) {
+        if (now - lastSeen > IMAGE_MEMORY_MS) uses.delete(link);
+      }
+      if (uses.size === 0) this.imageUses.delete(image);
+    }
+  }
+}
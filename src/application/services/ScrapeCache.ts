@@ -0,0 +1,38 @@
+export interface ScrapeCacheStats {
+  entries: number;
+  hits: number;
+  misses: number;
+}
+
+// Per-iteration cache: identical searches are fetched once and shared by every subscriber.
+// Stores promises so concurrent requests for the same key wait for the same fetch.
+export class ScrapeCache {
+  private entries = new Map<string, Promise<unknown>>();
+  private hits = 0;
+  private misses = 0;
+
+  getOrLoad<T>(key: string, loader: () => Promise<T>): Promise<T> {
+    const cached = this.entries.get(key);
+    if (cached) {
+      this.hits++;
+      return cached as Promise<T>;
+    }
+
+    this.misses++;
+    const pending = loader().catch((error) => {
+      // Don't keep failures around - the next subscriber may retry
+      this.entries.delete(key);
+      throw error;
+    });
+    this.entries.set(key, pending);
+    return pending;
+  }
+
+  reset(): ScrapeCacheStats {
+    const stats = { entries: this.entries.size, hits: this.hits, misses: this.misses };
+    this.entries = new Map();
+    this.hits = 0;
+    this.misses = 0;
+    return stats;
+  }
+}
@@ -2,7 +2,16 @@ import { IListingProvider } from '../../domain/ports/IListingProvider.js';
 import { IListingRepository } from '../../domain/ports/IListingRepository.js';
 import { Listing } from '../../domain/entities/Listing.js';
 import { User } from '../../domain/entities/User.js';
+import { SearchFilter } from '../../domain/entities/SearchFilter.js';
+import { PriceChange, PriceRecord } from '../../domain/entities/PriceChange.js';
+import { isWithinMaxAge, isWithinMaxDistance, matchesSearchFilter } from '../../domain/services/ListingFilter.js';
+import { groupDuplicateListings } from '../../domain/services/ListingDeduplicator.js';
+import { distanceKm } from '../../domain/services/GeoDistance.js';
+import { IGeocoder } from '../../domain/ports/IGeocoder.js';
 import { ILogger, LoggerFactory } from '../../infrastructure/logging/Logger.js';
+import { ScrapeCache, ScrapeCacheStats } from './ScrapeCache.js';
+import { MarketStatsService } from './MarketStatsService.js';
+import { ScamRiskService } from './ScamRiskService.js';
 
 const CHECKPOINT_COUNT = 5;
 
@@ -11,6 +20,7 @@ export interface ProviderStatus {
   enabled: boolean;
   lastScrapeCount: number;
   consecutiveErrors: number;
+  circuitOpen: boolean;
   healthy: boolean;
 }
 
@@ -18,16 +28,43 @@ export interface UserScrapeResult {
   user: User;
   allListings: Listing[];
   newListings: Listing[];
+  // Listings sent earlier whose rent went down since
+  priceDrops: PriceChange[];
   byProvider: Map<string, Listing[]>;
   providerStatuses: ProviderStatus[];
 }
 
+export interface ScrapingServiceOptions {
+  // Open the detail page of each new listing to fetch rooms, rent split, etc.
+  enrichNewListings?: boolean;
+  // Forget listings that haven't shown up in a search for this many days
+  seenRetentionDays?: number;
+  // Collects €/m² statistics and adds the market comparison to reported listings
+  market?: MarketStatsService;
+  // Scores reported listings for signs of fake offers
+  risk?: ScamRiskService;
+  // Locates listings of searches with a reference point for the distance filter
+  geocoder?: IGeocoder;
+}
+
+export interface SearchSubscription {
+  user: User;
+  providers: IListingProvider[];
+}
+
+const PRUNE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
 export class ScrapingService {
   private readonly logger: ILogger;
+  private readonly cache = new ScrapeCache();
+  // Checkpoints of every subscriber per shared search, collected at the start of an iteration
+  private subscriberCheckpoints = new Map<string, Set<string>[]>();
+  private lastPrunedAt = 0;
 
   constructor(
     private readonly repository: IListingRepository,
-    private readonly maxResultsPerProvider: number
+    private readonly maxResultsPerProvider: number,
+    private readonly options: ScrapingServiceOptions = {}
   ) {
     this.logger = LoggerFactory.create('ScrapingService');
   }
@@ -37,32 +74,66 @@ export class ScrapingService {
     const byProvider = new Map<string, Listing[]>();
     const providerStatuses: ProviderStatus[] = [];
     const allNewListings: Listing[] = [];
+    const priceDrops: PriceChange[] = [];
 
     await Promise.all(
       enabledProviders.map(async (provider) => {
-        const listings = await provider.scrape(this.maxResultsPerProvider);
-        byProvider.set(provider.name, listings);
-
-        // Find new listings using checkpoint hashes (fallback logic)
         const checkpointHashes = await this.repository.getCheckpoints(user.id, provider.name);
         const checkpoints = new Set(checkpointHashes);
-        const newListings = this.findNewListings(listings, checkpoints);
 
-        // Update checkpoints to the first N listing hashes
-        if (listings.length > 0) {
-          const newCheckpoints = listings.slice(0, CHECKPOINT_COUNT).map((l) => l.hash);
+        // Paginating providers merge pages until they reach a checkpoint
+        const listings = await this.scrapeShared(provider, checkpoints);
+        byProvider.set(provider.name, listings);
+        this.options.market?.observe(provider.name, listings);
+        this.options.risk?.observe(listings);
+
+        const listingIds = listings.map((l) => l.id);
+        const seen = (await this.repository.hasSeenListings(user.id, provider.name))
+          ? await this.repository.getSeenListingIds(user.id, provider.name, listingIds)
+          : null;
+
+        const filter = user.filters?.[provider.id];
+        const enrich = this.options.enrichNewListings === true && provider.enrich !== undefined;
+        let newListings = this.findNewListings(listings, seen, checkpoints, filter, enrich);
+        await this.repository.markListingsSeen(user.id, provider.name, listingIds);
+
+        const drops = await this.trackPrices(user, provider, listings, newListings, filter);
+
+        // Update checkpoints to the first N listing hashes - promoted listings are pinned
+        // to the top regardless of their date and would hide where the new ones end
+        const organic = listings.filter((l) => !l.promoted);
+        if (organic.length > 0) {
+          const newCheckpoints = organic.slice(0, CHECKPOINT_COUNT).map((l) => l.hash);
           await this.repository.setCheckpoints(user.id, provider.name, newCheckpoints);
         }
 
-        allNewListings.push(...newListings);
+        if (enrich) {
+          newListings = await this.enrichListings(provider, newListings);
+          // Keywords often only appear in the description from the detail page - required ones are only checked now
+          if (filter) {
+            newListings = newListings.filter((l) => matchesSearchFilter(l, filter));
+          }
+        }
+
+        // Only reported listings are geocoded - the rest of the page never needs a distance
+        for (const listing of newListings) {
+          const located = await this.locate(listing, filter);
+          if (located) allNewListings.push(located);
+        }
+        for (const drop of drops) {
+          const located = await this.locate(drop.listing, filter);
+          if (located) priceDrops.push({ ...drop, listing: located });
+        }
 
         // Track provider status
-        const consecutiveErrors = (provider as any).getConsecutiveErrors?.() ?? 0;
+        const consecutiveErrors = provider.getConsecutiveErrors?.() ?? 0;
+        const circuitOpen = provider.isCircuitOpen?.() ?? false;
         const status: ProviderStatus = {
           name: provider.name,
           enabled: true,
           lastScrapeCount: listings.length,
           consecutiveErrors,
+          circuitOpen,
           healthy: consecutiveErrors === 0 && listings.length > 0,
         };
 
@@ -85,26 +156,215 @@ export class ScrapingService {
       });
     }
 
-    return { user, allListings, newListings: allNewListings, byProvider, providerStatuses };
+    // The same flat on several portals becomes one notification listing all sources
+    const newListings = groupDuplicateListings(allNewListings);
+    if (newListings.length < allNewListings.length) {
+      this.logger.info(`Merged ${allNewListings.length - newListings.length} duplicate listing(s) for ${user.name}`);
+    }
+
+    const annotated = newListings.map((l) => this.annotate(l));
+    const annotatedDrops = priceDrops.map((d) => ({ ...d, listing: this.annotate(d.listing) }));
+
+    // Risk is scored for every user, hiding is a user setting
+    const isHidden = (listing: Listing) => user.hideRiskyListings === true && listing.risk?.level === 'high';
+    const hidden = annotated.filter(isHidden).length + annotatedDrops.filter((d) => isHidden(d.listing)).length;
+    if (hidden > 0) {
+      this.logger.info(`Hid ${hidden} high-risk listing(s) for ${user.name}`);
+    }
+
+    return {
+      user,
+      allListings,
+      newListings: annotated.filter((l) => !isHidden(l)),
+      priceDrops: annotatedDrops.filter((d) => !isHidden(d.listing)),
+      byProvider,
+      providerStatuses,
+    };
   }
 
-  private findNewListings(listings: Listing[], checkpoints: Set<string>): Listing[] {
+  // Market comparison first - the risk score uses it
+  private annotate(listing: Listing): Listing {
+    const { market, risk } = this.options;
+    const withMarket = market ? { ...listing, market: market.compare(listing) } : listing;
+    return risk ? { ...withMarket, risk: risk.assess(withMarket) } : withMarket;
+  }
+
+  // New listings are the ones missing from the search's seen listings. Seen listings and
+  // checkpoints cover all listings, the filter only decides what gets reported. Listings that
+  // are enriched next are checked for required keywords after that.
+  private findNewListings(
+    listings: Listing[],
+    seen: Set<string> | null,
+    checkpoints: Set<string>,
+    filter?: SearchFilter,
+    enrich = false
+  ): Listing[] {
+    const now = new Date();
+    const matches = (listing: Listing) =>
+      !filter ||
+      (matchesSearchFilter(listing, filter, { requiredKeywords: !enrich }) &&
+        isWithinMaxAge(listing, filter.maxAgeHours, now));
+
+    if (seen) {
+      // The page is cut to maxResults - when a listing above is removed, an older one moves up
+      // from below. Unseen listings only count above the newest seen organic one, or when posted after it.
+      const anchorIndex = listings.findIndex((l) => !l.promoted && seen.has(l.id));
+      const anchor = anchorIndex >= 0 ? listings[anchorIndex] : null;
+      return listings.filter(
+        (l, index) =>
+          !seen.has(l.id) && (!anchor || index < anchorIndex || isPostedAfter(l, anchor)) && matches(l)
+      );
+    }
+
     if (checkpoints.size === 0) {
       // First run: only return 1 listing as confirmation
-      return listings.slice(0, 1);
+      return listings.filter((l) => !l.promoted && matches(l)).slice(0, 1);
     }
 
+    // Searches tracked by checkpoints only: everything above the newest known listing is new
     const newListings: Listing[] = [];
     for (const listing of listings) {
       if (checkpoints.has(listing.hash)) {
         break;
       }
-      newListings.push(listing);
+      if (matches(listing)) {
+        newListings.push(listing);
+      }
     }
     return newListings;
   }
 
+  // Adds the distance from the search's reference point; null when outside the max distance
+  private async locate(listing: Listing, filter?: SearchFilter): Promise<Listing | null> {
+    const geocoder = this.options.geocoder;
+    const origin = filter?.referencePoint;
+    if (!geocoder || !origin) return listing;
+
+    let distance: number | null = null;
+    if (listing.address) {
+      try {
+        const point = await geocoder.geocode(listing.address);
+        distance = point ? distanceKm(origin, point) : null;
+      } catch (error) {
+        this.logger.warn(`Could not geocode "${listing.address}": ${(error as Error).message}`);
+      }
+    }
+
+    const located = { ...listing, distanceKm: distance };
+    return isWithinMaxDistance(located, filter.maxDistanceKm) ? located : null;
+  }
+
+  // Records the current rent of every listing and reports drops of listings that aren't new
+  private async trackPrices(
+    user: User,
+    provider: IListingProvider,
+    listings: Listing[],
+    newListings: Listing[],
+    filter?: SearchFilter
+  ): Promise<PriceChange[]> {
+    const rentOf = (listing: Listing) => listing.metrics?.coldRent ?? listing.metrics?.warmRent ?? null;
+    const priced = listings.filter((l) => rentOf(l) !== null);
+    if (priced.length === 0) return [];
+
+    const previous = await this.repository.getLatestPrices(user.id, provider.name, priced.map((l) => l.id));
+    const newIds = new Set(newListings.map((l) => l.id));
+    const changed: PriceRecord[] = [];
+    const drops: PriceChange[] = [];
+
+    for (const listing of priced) {
+      const rent = rentOf(listing)!;
+      const before = previous.get(listing.id);
+      if (before?.rent === rent) continue;
+
+      changed.push({ listingId: listing.id, price: listing.price, rent });
+      if (!before || rent > before.rent || newIds.has(listing.id)) continue;
+      if (user.priceAlerts === false || (filter && !matchesSearchFilter(listing, filter))) continue;
+
+      drops.push({ listing, previousPrice: before.price, previousRent: before.rent, currentRent: rent });
+    }
+
+    await this.repository.recordPrices(user.id, provider.name, changed);
+    if (drops.length > 0) {
+      this.logger.info(`${drops.length} price drop(s) on ${provider.name} for ${user.name}`);
+    }
+    return drops;
+  }
+
+  // Starts a new scrape iteration: forgets everything fetched during the previous one
+  resetCache(): ScrapeCacheStats {
+    this.subscriberCheckpoints = new Map();
+    return this.cache.reset();
+  }
+
+  // Lets the shared fetch of a search page as deep as the subscriber furthest behind needs
+  async collectCheckpoints(subscriptions: SearchSubscription[]): Promise<void> {
+    for (const { user, providers } of subscriptions) {
+      for (const provider of providers.filter((p) => p.isEnabled())) {
+        const key = provider.getCacheKey?.();
+        if (!key) continue;
+
+        const checkpoints = new Set(await this.repository.getCheckpoints(user.id, provider.name));
+        const subscribers = this.subscriberCheckpoints.get(key) ?? [];
+        this.subscriberCheckpoints.set(key, [...subscribers, checkpoints]);
+      }
+    }
+  }
+
+  // Users watching the same search share one fetch per iteration. The fetch paginates until it
+  // has reached the checkpoints of every subscriber; each user still compares against their own.
+  private async scrapeShared(provider: IListingProvider, checkpoints: Set<string>): Promise<Listing[]> {
+    const key = provider.getCacheKey?.();
+    if (!key) {
+      return provider.scrape(this.maxResultsPerProvider, [checkpoints]);
+    }
+
+    // Users who subscribed after the iteration started aren't collected yet
+    const subscribers = [checkpoints, ...(this.subscriberCheckpoints.get(key) ?? [])];
+    const listings = await this.cache.getOrLoad(`search:${key}`, () =>
+      provider.scrape(this.maxResultsPerProvider, subscribers)
+    );
+
+    return listings.map((l) => this.withSource(l, provider));
+  }
+
+  // e.g. Immonet searches are served from Immowelt - label shared results with the subscriber's provider
+  private withSource(listing: Listing, provider: IListingProvider): Listing {
+    return listing.source === provider.name ? listing : { ...listing, source: provider.name };
+  }
+
+  private async enrichListings(provider: IListingProvider, listings: Listing[]): Promise<Listing[]> {
+    const enriched: Listing[] = [];
+    // Sequential on purpose - detail pages are opened one at a time per provider
+    for (const listing of listings) {
+      const result = await this.cache.getOrLoad(`detail:${listing.link}`, () => provider.enrich!(listing));
+      enriched.push(this.withSource(result, provider));
+    }
+    return enriched;
+  }
+
+  // Writes this iteration's market observations and reloads the medians used for comparisons
+  async updateMarketStats(): Promise<void> {
+    await this.options.market?.flush();
+  }
+
+  // Runs at most once a day; a listing that reappears after the retention period is reported again
+  async pruneSeenListings(): Promise<void> {
+    const retentionDays = this.options.seenRetentionDays;
+    if (!retentionDays || Date.now() - this.lastPrunedAt < PRUNE_INTERVAL_MS) return;
+
+    this.lastPrunedAt = Date.now();
+    const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+    const removed = await this.repository.pruneSeenListings(cutoff);
+    if (removed > 0) {
+      this.logger.info(`Pruned ${removed} listing(s) not seen for ${retentionDays} days`);
+    }
+  }
+
   async getProviderCountForUser(userId: string): Promise<number> {
     return this.repository.getProviderCountForUser(userId);
   }
 }
+
+function isPostedAfter(listing: Listing, other: Listing): boolean {
+  return !!listing.postedAt && !!other.postedAt && listing.postedAt.getTime() > other.postedAt.getTime();
+}
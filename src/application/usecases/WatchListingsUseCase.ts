@@ -1,7 +1,9 @@
 import { ScrapingService, UserScrapeResult } from '../services/ScrapingService.js';
+import { NotificationService } from '../services/NotificationService.js';
 import { User } from '../../domain/entities/User.js';
 import { IListingProvider } from '../../domain/ports/IListingProvider.js';
 import { MonitoringService } from '../../infrastructure/monitoring/MonitoringService.js';
+import { ILogger, LoggerFactory } from '../../infrastructure/logging/Logger.js';
 
 export type OnUserResultCallback = (result: UserScrapeResult) => void;
 export type UserLoaderCallback = () => Promise<UserWithProviders[]>;
@@ -12,24 +14,50 @@ export interface UserWithProviders {
 }
 
 export class WatchListingsUseCase {
-  private intervalId: NodeJS.Timeout | null = null;
+  private timeoutId: NodeJS.Timeout | null = null;
+  private stopped = false;
+  private readonly logger: ILogger;
 
   constructor(
     private readonly scrapingService: ScrapingService,
-    private readonly intervalMs: number
-  ) {}
+    private readonly intervalMs: number,
+    // Sends held back notifications (quiet hours, digests) after each iteration
+    private readonly notifications?: NotificationService
+  ) {
+    this.logger = LoggerFactory.create('WatchListingsUseCase');
+  }
 
   async start(
     initialUsers: UserWithProviders[],
     onUserResult: OnUserResultCallback,
     userLoader?: UserLoaderCallback
   ): Promise<void> {
+    this.stopped = false;
+    const startedAt = Date.now();
     await this.scrapeAllUsers(initialUsers, onUserResult);
 
-    this.intervalId = setInterval(async () => {
+    this.scheduleNext(startedAt, async () => {
       const users = userLoader ? await userLoader() : initialUsers;
       await this.scrapeAllUsers(users, onUserResult);
-    }, this.intervalMs);
+    });
+  }
+
+  // Iterations share the scrape cache and checkpoints, so one never starts before the previous
+  // has finished: the next is scheduled intervalMs after the last one started, or right away
+  // when it took longer than that
+  private scheduleNext(lastStartedAt: number, iteration: () => Promise<void>): void {
+    if (this.stopped) return;
+
+    const delay = Math.max(0, lastStartedAt + this.intervalMs - Date.now());
+    this.timeoutId = setTimeout(async () => {
+      const startedAt = Date.now();
+      try {
+        await iteration();
+      } catch (error) {
+        this.logger.error('Scrape iteration failed', error as Error);
+      }
+      this.scheduleNext(startedAt, iteration);
+    }, delay);
   }
 
   private async scrapeAllUsers(
@@ -38,19 +66,50 @@ export class WatchListingsUseCase {
   ): Promise<void> {
     const monitoring = MonitoringService.getInstance();
     monitoring.onIterationStart();
+    this.scrapingService.resetCache();
+
+    try {
+      await this.scrapingService.collectCheckpoints(usersWithProviders);
+    } catch (error) {
+      this.logger.error('Failed to collect checkpoints for shared scrapes', error as Error);
+    }
 
     for (const { user, providers } of usersWithProviders) {
       const result = await this.scrapingService.scrapeForUser(user, providers);
       onUserResult(result);
     }
 
+    const cacheStats = this.scrapingService.resetCache();
+    if (cacheStats.hits > 0) {
+      this.logger.info(`Shared ${cacheStats.hits} scrape(s) across users`, { ...cacheStats });
+    }
+
+    try {
+      await this.scrapingService.updateMarketStats();
+    } catch (error) {
+      this.logger.error('Failed to update market statistics', error as Error);
+    }
+
+    try {
+      await this.notifications?.deliverDue(usersWithProviders.map(({ user }) => user));
+    } catch (error) {
+      this.logger.error('Failed to send held notifications', error as Error);
+    }
+
+    try {
+      await this.scrapingService.pruneSeenListings();
+    } catch (error) {
+      this.logger.error('Failed to prune seen listings', error as Error);
+    }
+
     await monitoring.onIterationEnd();
   }
 
   stop(): void {
-    if (this.intervalId) {
-      clearInterval(this.intervalId);
-      this.intervalId = null;
+    this.stopped = true;
+    if (this.timeoutId) {
+      clearTimeout(this.timeoutId);
+      this.timeoutId = null;
     }
   }
 }
@@ -7,6 +7,8 @@ export interface ProvidersConfig {
   wohnungsboerse?: string;
   sparkasse?: string;
   ohneMakler?: string;
+  // Any other provider id loaded from the providers directory
+  [providerId: string]: string | undefined;
 }
 
 export const defaultProvidersConfig: ProvidersConfig = {
@@ -0,0 +1,60 @@
+import { loadAppConfig } from './config/index.js';
+import { IBrowserService } from './domain/ports/IBrowserService.js';
+import { BrowserService } from './infrastructure/browser/BrowserService.js';
+import { HttpFetchService } from './infrastructure/browser/HttpFetchService.js';
+import { ProxyPool } from './infrastructure/browser/ProxyPool.js';
+import { DeclarativeProvider, ProviderRegistry } from './infrastructure/providers/index.js';
+import { FIXTURE_SNAPSHOTS_DIR, ProviderDoctor } from './infrastructure/snapshots/ProviderDoctor.js';
+import { SnapshotStore } from './infrastructure/snapshots/SnapshotStore.js';
+
+// Usage:
+//   npm run doctor [providerId]                 replay selectors against the fixture and
+//                                               locally saved snapshots
+//   npm run doctor -- capture <providerId> <url> save a live result page as a fixture
+//                                               (goes through PROXY_POOL when set)
+async function main(): Promise<void> {
+  const config = loadAppConfig();
+  const registry = new ProviderRegistry(config.providersDir);
+  registry.load();
+  const fixtures = new SnapshotStore(FIXTURE_SNAPSHOTS_DIR);
+
+  const [command, ...args] = process.argv.slice(2);
+
+  if (command === 'capture') {
+    const [providerId, url] = args;
+    const definition = providerId ? registry.get(providerId) : undefined;
+    if (!definition || !url || (definition.type ?? 'browser') !== 'browser') {
+      console.error('Usage: npm run doctor -- capture <providerId> <url> (browser providers only)');
+      process.exit(2);
+    }
+
+    const engine: IBrowserService = definition.engine === 'http'
+        ? new HttpFetchService()
+        : new BrowserService({ proxyPool: ProxyPool.fromConfig(config.proxies), ...config.browser });
+    try {
+      const file = await new DeclarativeProvider(url, definition, engine).captureSnapshot(fixtures);
+      console.log(file ? `Snapshot saved: ${file}` : 'Could not capture a snapshot');
+    } finally {
+      await engine.close();
+    }
+    return;
+  }
+
+  if (command) {
+    const definition = registry.get(command);
+    if (!definition || (definition.type ?? 'browser') !== 'browser') {
+      const known = registry.getAll().filter((d) => (d.type ?? 'browser') === 'browser').map((d) => d.id);
+      console.error(`Unknown browser provider "${command}". Known: ${known.join(', ')}`);
+      process.exit(2);
+    }
+  }
+
+  const reports = await new ProviderDoctor(registry, fixtures).examine(command);
+  console.log(ProviderDoctor.format(reports));
+  process.exit(reports.every((r) => r.healthy) ? 0 : 1);
+}
+
+main().catch((error) => {
+  console.error('Doctor failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,21 @@
+// instant: every scrape result right away; hourly: one summary at the top of each hour;
+// daily: one digest at digestAt
+export type DeliveryMode = 'instant' | 'hourly' | 'daily';
+
+export const DELIVERY_MODES: DeliveryMode[] = ['instant', 'hourly', 'daily'];
+
+// Times are minutes after midnight in the user's timezone
+export interface DeliverySchedule {
+  mode: DeliveryMode;
+  timezone: string;
+  // Nothing is sent from start to end; may span midnight (23:00–07:00)
+  quietHours: { start: number; end: number } | null;
+  digestAt: number;
+}
+
+export const DEFAULT_DELIVERY_SCHEDULE: DeliverySchedule = {
+  mode: 'instant',
+  timezone: 'Europe/Berlin',
+  quietHours: null,
+  digestAt: 8 * 60,
+};
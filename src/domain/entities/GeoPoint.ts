@@ -0,0 +1,10 @@
+// WGS84 coordinates in degrees
+export interface GeoPoint {
+  lat: number;
+  lon: number;
+}
+
+// Where a search measures distances from, with what the user typed to set it
+export interface ReferencePoint extends GeoPoint {
+  label: string;
+}
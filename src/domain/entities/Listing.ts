@@ -1,3 +1,6 @@
+import { MarketComparison } from './MarketStats.js';
+import { ScamRisk } from './ScamRisk.js';
+
 export interface Listing {
   id: string;
   title: string;
@@ -9,6 +12,50 @@ export interface Listing {
   image?: string | null;
   hash: string;
   source: string;
+  // Parsed from price/size/title (and details when enriched); price and size keep the portal's text
+  metrics?: ListingMetrics;
+  // The same apartment found on other portals in the same scrape
+  alsoListedOn?: ListingReference[];
+  // When the portal says it was posted; null when it doesn't show a date
+  postedAt?: Date | null;
+  // Paid top placement that stays above newer listings
+  promoted?: boolean;
+  // How the €/m² compares with similar listings seen recently
+  market?: MarketComparison | null;
+  risk?: ScamRisk;
+  // From the search's reference point; null when the address couldn't be located
+  distanceKm?: number | null;
+}
+
+export interface ListingReference {
+  source: string;
+  link: string;
+}
+
+// Euros and square meters; null when the portal text couldn't be parsed
+export interface ListingMetrics {
+  coldRent: number | null;
+  warmRent: number | null;
+  livingSpaceSqm: number | null;
+  rooms: number | null;
+  pricePerSqm: number | null;
+}
+
+// Facts from the listing's detail page, kept as shown on the portal
+export interface ListingDetails {
+  rooms?: string | null;
+  floor?: string | null;
+  availableFrom?: string | null;
+  coldRent?: string | null;
+  warmRent?: string | null;
+  deposit?: string | null;
+  energyClass?: string | null;
+  description?: string | null;
+  publishedAt?: string | null;
+}
+
+export interface EnrichedListing extends Listing {
+  details: ListingDetails;
 }
 
 export interface RawListing {
@@ -20,4 +67,7 @@ export interface RawListing {
   link?: string;
   description?: string;
   image?: string;
+  postedAt?: string;
+  // Any text means the card carries a "TOP"/premium marker
+  promoted?: string;
 }
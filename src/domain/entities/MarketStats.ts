@@ -0,0 +1,37 @@
+// One listing's asking price per m², as counted in the market statistics
+export interface MarketObservation {
+  provider: string;
+  listingId: string;
+  postcode: string | null;
+  city: string | null;
+  rooms: number | null;
+  pricePerSqm: number;
+}
+
+export type MarketScope = 'postcode' | 'city' | 'provider';
+
+// Median €/m² of one area (or provider), optionally narrowed to a room count bucket
+export interface MarketMedian {
+  scope: MarketScope;
+  key: string;
+  // Whole rooms, 5 stands for 5 and more; null for all room counts
+  rooms: number | null;
+  medianPricePerSqm: number;
+  sampleSize: number;
+}
+
+export interface MarketComparison {
+  // e.g. "2-room flats in 80331"
+  label: string;
+  medianPricePerSqm: number;
+  // (listing - median) / median, e.g. -0.14 for 14% below
+  deviation: number;
+  sampleSize: number;
+}
+
+export interface MarketTrendPoint {
+  city: string;
+  weekStart: Date;
+  medianPricePerSqm: number;
+  sampleSize: number;
+}
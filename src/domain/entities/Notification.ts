@@ -0,0 +1,29 @@
+import { Listing } from './Listing.js';
+import { PriceChange } from './PriceChange.js';
+
+// Everything one scrape found for a user
+export interface ListingNotification {
+  newListings: Listing[];
+  priceDrops: PriceChange[];
+  // Set on digests of held back results: when the oldest of them was found
+  heldSince?: Date;
+}
+
+// One delivery channel of a user, e.g. Telegram to their chat or e-mail to an address
+export interface ChannelPreference {
+  channel: string;
+  address: string;
+  enabled: boolean;
+  // Channel specific, e.g. a webhook's signing secret
+  settings: Record<string, string>;
+}
+
+export interface NotificationRecipient {
+  userId: string;
+  name: string;
+  // Chat id, e-mail address... - whatever the channel delivers to
+  address: string;
+  settings: Record<string, string>;
+  // From the user's delivery schedule - dates in messages are shown in it
+  timezone: string;
+}
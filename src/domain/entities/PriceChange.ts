@@ -0,0 +1,15 @@
+import { Listing } from './Listing.js';
+
+// Last known price of a listing as seen in one user's search
+export interface PriceRecord {
+  listingId: string;
+  price: string | null;
+  rent: number;
+}
+
+export interface PriceChange {
+  listing: Listing;
+  previousPrice: string | null;
+  previousRent: number;
+  currentRent: number;
+}
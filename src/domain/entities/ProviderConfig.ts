@@ -11,3 +11,79 @@ export interface BrowserProviderConfig extends ProviderConfig {
   waitForSelector?: string;
   sortByDateParam?: string;
 }
+
+export type ProviderType = 'browser' | 'immoscout';
+
+// 'browser' renders the page in Chromium, 'http' fetches server-rendered HTML directly
+export type ScrapeEngine = 'browser' | 'http';
+
+// What the price on a result card means - most portals show cold rent, WG portals the total
+export type PriceKind = 'cold' | 'warm';
+
+export interface UrlRewriteRule {
+  pattern: string;
+  replacement: string;
+}
+
+// Key/value rows on a detail page, e.g. <li>Zimmer <span>3</span></li>
+export interface DetailLabelList {
+  itemSelector: string;
+  // Value element inside the row; without it the row text minus the label is used
+  valueSelector?: string;
+  // Field name -> label the row text starts with
+  labels: Record<string, string>;
+}
+
+export interface PaginationConfig {
+  // Either follow a "next page" link...
+  nextPageSelector?: string;
+  // ...or set a page number query parameter
+  pageParam?: string;
+  maxPages: number;
+}
+
+export interface DetailPageConfig {
+  fields?: Record<string, string>;
+  labeledList?: DetailLabelList;
+  waitForSelector?: string;
+}
+
+// Request interception for browser scraping. The main document is never blocked;
+// allowDomains wins over every block rule.
+export interface ResourceRules {
+  // Set to false to load every resource for this provider
+  enabled?: boolean;
+  // Resource types blocked on top of the defaults (image, media, font)
+  blockTypes?: string[];
+  // Default-blocked types this provider needs
+  allowTypes?: string[];
+  // Blocked on top of the built-in tracker list, subdomains included
+  blockDomains?: string[];
+  allowDomains?: string[];
+}
+
+// Provider described as data, loaded from a JSON file in the providers directory
+export interface ProviderDefinition {
+  id: string;
+  // Must stay stable - used for checkpoint storage
+  name: string;
+  displayName: string;
+  type?: ProviderType;
+  engine?: ScrapeEngine;
+  order?: number;
+  allowedDomains: string[];
+  setupInstructions?: string[];
+  urlRewrites?: UrlRewriteRule[];
+  removeParams?: string[];
+  crawlContainer?: string;
+  crawlFields?: Record<string, string>;
+  waitForSelector?: string;
+  sortByDateParam?: string;
+  sortByDatePathSegment?: string;
+  linkBaseUrl?: string;
+  priceKind?: PriceKind;
+  imageRewrites?: UrlRewriteRule[];
+  pagination?: PaginationConfig;
+  detailPage?: DetailPageConfig;
+  resources?: ResourceRules;
+}
@@ -0,0 +1,14 @@
+export type ScamRiskLevel = 'low' | 'medium' | 'high';
+
+export interface ScamRisk {
+  score: number;
+  level: ScamRiskLevel;
+  // Human readable, e.g. "Asks for payment via Western Union"
+  reasons: string[];
+}
+
+// What the scorer knows beyond the listing itself
+export interface ScamRiskContext {
+  // Other, unrelated listings that use the same picture
+  sharedImageCount: number;
+}
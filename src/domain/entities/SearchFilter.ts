@@ -0,0 +1,33 @@
+import { ReferencePoint } from './GeoPoint.js';
+
+// Criteria applied on top of the portal's own search, per user and provider.
+// Prices are rent in euros (cold rent, warm rent for warm-only portals), sizes in m².
+export interface SearchFilter {
+  minPrice: number | null;
+  maxPrice: number | null;
+  minSize: number | null;
+  minRooms: number | null;
+  maxRooms: number | null;
+  // Every required keyword must appear, none of the excluded ones may (case-insensitive)
+  requiredKeywords: string[];
+  excludedKeywords: string[];
+  // Only for new listings: older postings are never sent as new (e.g. bumped ads)
+  maxAgeHours: number | null;
+  // Notifications show the distance from the reference point; with a max distance,
+  // listings further away are skipped (listings that can't be located are not)
+  referencePoint: ReferencePoint | null;
+  maxDistanceKm: number | null;
+}
+
+export const EMPTY_SEARCH_FILTER: SearchFilter = {
+  minPrice: null,
+  maxPrice: null,
+  minSize: null,
+  minRooms: null,
+  maxRooms: null,
+  requiredKeywords: [],
+  excludedKeywords: [],
+  maxAgeHours: null,
+  referencePoint: null,
+  maxDistanceKm: null,
+};
@@ -1,7 +1,20 @@
 import { ProvidersConfig } from '../../config/providers.config.js';
+import { SearchFilter } from './SearchFilter.js';
+import { ChannelPreference } from './Notification.js';
+import { DeliverySchedule } from './DeliverySchedule.js';
 
 export interface User {
   id: string;
   name: string;
   providers: ProvidersConfig;
+  // Keyed by provider id, only for searches that have a filter set
+  filters?: Record<string, SearchFilter>;
+  // Alerts for price drops of listings already sent; on unless the user turned them off
+  priceAlerts?: boolean;
+  // Drop listings the scam scorer rates as high risk instead of sending them with a warning
+  hideRiskyListings?: boolean;
+  // Where notifications go; disabled channels are kept so re-enabling doesn't ask for the address again
+  channels?: ChannelPreference[];
+  // Instant delivery around the clock when not set
+  deliverySchedule?: DeliverySchedule;
 }
@@ -1,4 +1,30 @@
 import { RawListing } from '../entities/Listing.js';
+import { DetailPageConfig, ResourceRules } from '../entities/ProviderConfig.js';
+
+export interface RequestOptions {
+  // Provider the request is made for - selects its proxies and is used for stats
+  providerId?: string;
+  resources?: ResourceRules;
+}
+
+export interface ScrapeOptions extends RequestOptions {
+  waitForSelector?: string;
+  // Link to the next result page, read from the page after scraping
+  nextPageSelector?: string;
+  // Return the page HTML even when cards were found (used for snapshots)
+  captureHtml?: boolean;
+  // A result page after the first - running out of cards there is normal, so no failure artifact is saved
+  followUpPage?: boolean;
+}
+
+export interface ScrapedPage {
+  listings: RawListing[];
+  nextPageUrl: string | null;
+  // Page HTML - set when no cards were found or when captureHtml was requested
+  html?: string;
+  // Failure artifact saved because no cards were found on a first page
+  artifactId?: string | null;
+}
 
 export interface IBrowserService {
   initialize(): Promise<void>;
@@ -6,7 +32,10 @@ export interface IBrowserService {
     url: string,
     containerSelector: string,
     fields: Record<string, string>,
-    waitForSelector?: string
-  ): Promise<RawListing[]>;
+    options?: ScrapeOptions
+  ): Promise<ScrapedPage>;
+  scrapeDetails(url: string, config: DetailPageConfig, options?: RequestOptions): Promise<Record<string, string | null>>;
+  // The portal refused the request (403/429/CAPTCHA) - engines with a proxy pool switch proxies
+  reportBlocked?(providerId: string): void;
   close(): Promise<void>;
 }
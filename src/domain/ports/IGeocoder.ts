@@ -0,0 +1,9 @@
+import { GeoPoint } from '../entities/GeoPoint.js';
+
+export interface IGeocoder {
+  // Identifies the data source - cached results of one geocoder aren't reused by another
+  readonly name: string;
+  // Address, postcode or place name in Germany; null when it can't be located.
+  // Throws when the source is unavailable, so a temporary failure isn't cached as "not found".
+  geocode(query: string): Promise<GeoPoint | null>;
+}
@@ -4,6 +4,15 @@ export interface IListingProvider {
   readonly name: string;
   readonly id: string;
 
-  scrape(maxResults: number): Promise<Listing[]>;
+  // One set of checkpoint hashes per subscriber of the search - paginating providers keep
+  // loading pages until they have reached a checkpoint of every set
+  scrape(maxResults: number, checkpoints?: Set<string>[]): Promise<Listing[]>;
   isEnabled(): boolean;
+  // Normalized final URL - providers with the same key return the same listings
+  getCacheKey?(): string | null;
+  // Optional: fetch the detail page and return the listing with extra facts
+  enrich?(listing: Listing): Promise<Listing>;
+  // Optional: health of the provider's search as tracked by the circuit breaker
+  getConsecutiveErrors?(): number;
+  isCircuitOpen?(): boolean;
 }
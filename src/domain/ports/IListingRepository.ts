@@ -1,6 +1,20 @@
+import { PriceRecord } from '../entities/PriceChange.js';
+
 export interface IListingRepository {
+  // Hashes of the newest listings - only a hint for how deep paginating providers need to go
   getCheckpoints(userId: string, provider: string): Promise<string[]>;
   setCheckpoints(userId: string, provider: string, hashes: string[]): Promise<void>;
   getProviderCountForUser(userId: string): Promise<number>;
   clearUser(userId: string): Promise<void>;
+  // Which of the given listing ids were already seen in this user's search
+  getSeenListingIds(userId: string, provider: string, listingIds: string[]): Promise<Set<string>>;
+  // False until the search has been scraped once
+  hasSeenListings(userId: string, provider: string): Promise<boolean>;
+  // Adds new ids and refreshes last seen of known ones
+  markListingsSeen(userId: string, provider: string, listingIds: string[]): Promise<void>;
+  // Forgets listings not seen since the cutoff, returns how many were removed
+  pruneSeenListings(olderThan: Date): Promise<number>;
+  // Latest recorded price per listing id; listings never recorded are missing from the map
+  getLatestPrices(userId: string, provider: string, listingIds: string[]): Promise<Map<string, PriceRecord>>;
+  recordPrices(userId: string, provider: string, prices: PriceRecord[]): Promise<void>;
 }
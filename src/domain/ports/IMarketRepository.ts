@@ -0,0 +1,10 @@
+import { MarketMedian, MarketObservation, MarketTrendPoint } from '../entities/MarketStats.js';
+
+export interface IMarketRepository {
+  // Upserts by provider and listing id - a listing counts once however often it is scraped
+  recordObservations(observations: MarketObservation[]): Promise<void>;
+  // Medians of listings seen since the given time, per postcode/city (with and without room buckets) and provider
+  getMedians(since: Date): Promise<MarketMedian[]>;
+  // Weekly medians per city of listings first seen since the given time
+  getWeeklyTrends(since: Date): Promise<MarketTrendPoint[]>;
+}
@@ -0,0 +1,26 @@
+import { ListingNotification, NotificationRecipient } from '../entities/Notification.js';
+
+// A setting the user switches between fixed values in the bot
+export interface ChannelOption {
+  key: string;
+  label: string;
+  choices: Array<{ value: string; label: string }>;
+}
+
+export interface INotificationChannel {
+  // Stored in the user's channel preferences - don't rename
+  readonly id: string;
+  readonly name: string;
+  // What the user has to provide (e.g. "your e-mail address"); channels without it know the address already
+  readonly addressPrompt?: string;
+  readonly options?: ChannelOption[];
+  // Normalized address, or null when the input isn't valid for this channel
+  parseAddress?(input: string): string | null;
+  // Address as shown to the user, e.g. without credentials
+  displayAddress?(address: string): string;
+  // Settings for a newly set up channel, e.g. a generated secret
+  createSettings?(): Record<string, string>;
+  // Lines shown in the bot's channel menu
+  describeSettings?(settings: Record<string, string>): string[];
+  send(recipient: NotificationRecipient, notification: ListingNotification): Promise<void>;
+}
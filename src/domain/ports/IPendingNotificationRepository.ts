@@ -0,0 +1,11 @@
+import { ListingNotification } from '../entities/Notification.js';
+
+// Scrape results held back by a user's delivery schedule
+export interface IPendingNotificationRepository {
+  // Items of a notification with heldSince (a digest put back) keep that age
+  add(userId: string, notification: ListingNotification): Promise<void>;
+  // When the oldest held item of each user with pending items was added
+  getHeldSince(): Promise<Map<string, Date>>;
+  // Removes and returns everything held for the user, oldest first; null when nothing is held
+  take(userId: string): Promise<ListingNotification | null>;
+}
@@ -0,0 +1,103 @@
+import { DeliverySchedule } from '../entities/DeliverySchedule.js';
+
+interface LocalTime {
+  date: string;
+  minutes: number;
+  // "GMT+2" - tells the two 02:00 hours apart when DST ends
+  offset: string;
+}
+
+function localTime(at: Date, timezone: string): LocalTime {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+    timeZoneName: 'shortOffset',
+  }).formatToParts(at);
+  const part = (type: string) => parts.find((p) => p.type === type)?.value ?? '00';
+  return {
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    minutes: parseInt(part('hour'), 10) * 60 + parseInt(part('minute'), 10),
+    offset: part('timeZoneName'),
+  };
+}
+
+// "2026-03-01" -> "2026-02-28"
+function previousDate(date: string): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) - 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+export function isValidTimeZone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function isQuietTime(schedule: DeliverySchedule, now: Date): boolean {
+  if (!schedule.quietHours) return false;
+  const { start, end } = schedule.quietHours;
+  const minutes = localTime(now, schedule.timezone).minutes;
+  return start <= end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+}
+
+// Whether a scrape result goes into the buffer instead of out
+export function shouldHold(schedule: DeliverySchedule, now: Date): boolean {
+  return schedule.mode !== 'instant' || isQuietTime(schedule, now);
+}
+
+// Held notifications go out once quiet hours are over (instant), once the hour they were
+// held in has passed (hourly), or once the digest time has passed since (daily)
+export function isDigestDue(schedule: DeliverySchedule, heldSince: Date, now: Date): boolean {
+  if (isQuietTime(schedule, now)) return false;
+
+  const { timezone } = schedule;
+  switch (schedule.mode) {
+    case 'instant':
+      return true;
+    case 'hourly': {
+      const hourOf = (at: Date) => {
+        const local = localTime(at, timezone);
+        return `${local.date} ${Math.floor(local.minutes / 60)} ${local.offset}`;
+      };
+      return hourOf(heldSince) !== hourOf(now);
+    }
+    case 'daily': {
+      // The "digest day" starts at digestAt local time - a digest is due once now is in a later one.
+      // Going by the local clock keeps digestAt in place on days with 23 or 25 hours.
+      const dayOf = (at: Date) => {
+        const local = localTime(at, timezone);
+        return local.minutes >= schedule.digestAt ? local.date : previousDate(local.date);
+      };
+      return dayOf(heldSince) !== dayOf(now);
+    }
+  }
+}
+
+// "7:30", "07:30", "7" - minutes after midnight
+export function parseClockTime(text: string): number | null {
+  const match = text.trim().match(/^(\d{1,2})(?::(\d{2}))?(?:\s*uhr)?$/i);
+  if (!match) return null;
+  const hours = parseInt(match[1], 10);
+  const minutes = match[2] ? parseInt(match[2], 10) : 0;
+  return hours < 24 && minutes < 60 ? hours * 60 + minutes : null;
+}
+
+// "23:00-07:00", "22 - 6"
+export function parseTimeRange(text: string): { start: number; end: number } | null {
+  const [from, to, ...rest] = text.split(/\s*[-–]\s*/);
+  if (!to || rest.length > 0) return null;
+  const start = parseClockTime(from);
+  const end = parseClockTime(to);
+  return start !== null && end !== null && start !== end ? { start, end } : null;
+}
+
+export function formatClockTime(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
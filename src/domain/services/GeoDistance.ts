@@ -0,0 +1,23 @@
+import { GeoPoint } from '../entities/GeoPoint.js';
+
+const EARTH_RADIUS_KM = 6371;
+
+// Great-circle distance; plenty accurate for "within N km" at city scale
+export function distanceKm(a: GeoPoint, b: GeoPoint): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLon = toRad(b.lon - a.lon);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+// "52.52, 13.405" or "52,52 13,405"
+export function parseCoordinates(text: string): GeoPoint | null {
+  const match = text.trim().match(/^(-?\d{1,2}(?:[.,]\d+)?)\s*[,;\s]\s*(-?\d{1,3}(?:[.,]\d+)?)$/);
+  if (!match) return null;
+
+  const lat = parseFloat(match[1].replace(',', '.'));
+  const lon = parseFloat(match[2].replace(',', '.'));
+  if (Math.abs(lat) > 90 || Math.abs(lon) > 180) return null;
+  return { lat, lon };
+}
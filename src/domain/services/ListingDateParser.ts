@@ -0,0 +1,70 @@
+const TIME_ZONE = 'Europe/Berlin';
+
+const RELATIVE_UNITS: Record<string, number> = {
+  min: 60 * 1000,
+  minute: 60 * 1000,
+  std: 60 * 60 * 1000,
+  stunde: 60 * 60 * 1000,
+  tag: 24 * 60 * 60 * 1000,
+  woche: 7 * 24 * 60 * 60 * 1000,
+};
+
+// Posting dates as portals print them: ISO timestamps, "Heute, 14:32", "Gestern, 09:15",
+// "12.10.2024", "vor 3 Stunden". Wall clock times are German time. A day without a time counts
+// as its last minute, but not later than now - a max age filter must not drop a listing that
+// may have been posted a minute ago.
+export function parsePostedAt(text: string | null | undefined, now: Date = new Date()): Date | null {
+  if (!text) return null;
+  const value = text.trim().toLowerCase();
+
+  if (/^\d{4}-\d{2}-\d{2}/.test(value)) {
+    const date = new Date(text.trim());
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  const time = value.match(/(\d{1,2}):(\d{2})/);
+  const [hours, minutes] = time ? [parseInt(time[1], 10), parseInt(time[2], 10)] : [23, 59];
+  const notAfterNow = (date: Date) => (time || date < now ? date : now);
+
+  const relativeDay = value.match(/\b(heute|gestern|vorgestern)\b/);
+  if (relativeDay) {
+    const daysAgo = { heute: 0, gestern: 1, vorgestern: 2 }[relativeDay[1] as 'heute' | 'gestern' | 'vorgestern'];
+    const today = berlinDate(now);
+    return notAfterNow(fromBerlinTime(today.year, today.month, today.day - daysAgo, hours, minutes));
+  }
+
+  const date = value.match(/\b(\d{1,2})\.(\d{1,2})\.(\d{2,4})\b/);
+  if (date) {
+    const year = parseInt(date[3], 10);
+    const fullYear = year < 100 ? 2000 + year : year;
+    return notAfterNow(fromBerlinTime(fullYear, parseInt(date[2], 10), parseInt(date[1], 10), hours, minutes));
+  }
+
+  const relative = value.match(/vor\s+(\d+|einer?|einem)\s+(minute|min|stunde|std|tag|woche)/);
+  if (relative) {
+    const amount = /^\d+$/.test(relative[1]) ? parseInt(relative[1], 10) : 1;
+    return new Date(now.getTime() - amount * RELATIVE_UNITS[relative[2]]);
+  }
+
+  return null;
+}
+
+function berlinDate(date: Date): { year: number; month: number; day: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: TIME_ZONE,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+  }).formatToParts(date);
+  const part = (type: string) => parseInt(parts.find((p) => p.type === type)!.value, 10);
+  return { year: part('year'), month: part('month'), day: part('day') };
+}
+
+function fromBerlinTime(year: number, month: number, day: number, hours: number, minutes: number): Date {
+  const asUtc = Date.UTC(year, month - 1, day, hours, minutes);
+  // e.g. "GMT+2" in summer - the offset of the guessed instant is right except within the DST switch hour
+  const offset = new Intl.DateTimeFormat('en-US', { timeZone: TIME_ZONE, timeZoneName: 'shortOffset' })
+    .formatToParts(new Date(asUtc))
+    .find((p) => p.type === 'timeZoneName')?.value.match(/GMT([+-]\d+)?/)?.[1];
+  return new Date(asUtc - parseInt(offset ?? '0', 10) * 60 * 60 * 1000);
+}
@@ -0,0 +1,114 @@
+import { EnrichedListing, Listing } from '../entities/Listing.js';
+
+export interface ListingFingerprint {
+  link: string;
+  image: string | null;
+  postcode: string | null;
+  // Normalized address without the postcode, e.g. "friedrichstrasse 12 berlin mitte"
+  location: string | null;
+  rent: number | null;
+  livingSpaceSqm: number | null;
+}
+
+// Portals round differently and some add a service charge to the card price
+const RENT_TOLERANCE = 0.03;
+const SIZE_TOLERANCE_SQM = 1.5;
+
+export function fingerprintListing(listing: Listing): ListingFingerprint {
+  const address = listing.address ? normalizeText(listing.address) : '';
+  const postcode = address.match(/\b\d{5}\b/)?.[0] ?? null;
+  const location = address.replace(/\b\d{5}\b/, '').replace(/\s+/g, ' ').trim();
+  const metrics = listing.metrics;
+
+  return {
+    link: normalizeListingUrl(listing.link),
+    image: listing.image ? normalizeListingUrl(listing.image) : null,
+    postcode,
+    location: location || null,
+    rent: metrics ? metrics.coldRent ?? metrics.warmRent : null,
+    livingSpaceSqm: metrics?.livingSpaceSqm ?? null,
+  };
+}
+
+// Same link or same picture is enough; otherwise rent and size have to be close and the
+// addresses must not contradict each other. Listings without any address are never merged.
+export function isSameApartment(a: ListingFingerprint, b: ListingFingerprint): boolean {
+  if (a.link === b.link) return true;
+  if (a.image && a.image === b.image) return true;
+
+  if (a.rent === null || b.rent === null || a.livingSpaceSqm === null || b.livingSpaceSqm === null) return false;
+  if (Math.abs(a.rent - b.rent) > Math.max(a.rent, b.rent) * RENT_TOLERANCE) return false;
+  if (Math.abs(a.livingSpaceSqm - b.livingSpaceSqm) > SIZE_TOLERANCE_SQM) return false;
+
+  if (a.postcode && b.postcode) return a.postcode === b.postcode;
+  if (a.location && b.location) return a.location.includes(b.location) || b.location.includes(a.location);
+  return false;
+}
+
+// One listing per apartment: the most detailed one, with the others as alsoListedOn.
+// Only listings from different sources are merged - a portal's own reposts stay separate,
+// but a promoted copy of a listing shown next to the organic one is dropped.
+export function groupDuplicateListings(all: Listing[]): Listing[] {
+  const byId = new Map<string, Listing>();
+  for (const listing of all) {
+    const key = `${listing.source}:${listing.id}`;
+    const existing = byId.get(key);
+    if (!existing || (existing.promoted && !listing.promoted)) byId.set(key, listing);
+  }
+  const listings = Array.from(byId.values());
+  const fingerprints = listings.map(fingerprintListing);
+  const groups: number[][] = [];
+
+  listings.forEach((listing, index) => {
+    const group = groups.find(
+      (members) =>
+        !members.some((m) => listings[m].source === listing.source) &&
+        members.some((m) => isSameApartment(fingerprints[m], fingerprints[index]))
+    );
+    if (group) {
+      group.push(index);
+    } else {
+      groups.push([index]);
+    }
+  });
+
+  return groups.map((members) => {
+    // Equally detailed: the organic listing wins, its posting date isn't bumped
+    const [primary, ...others] = members
+      .map((m) => listings[m])
+      .sort((a, b) => detailScore(b) - detailScore(a) || Number(!!a.promoted) - Number(!!b.promoted));
+    if (others.length === 0) return primary;
+    return {
+      ...primary,
+      alsoListedOn: others.map((l) => ({ source: l.source, link: l.link })),
+    };
+  });
+}
+
+function detailScore(listing: Listing): number {
+  const metrics = listing.metrics ? Object.values(listing.metrics).filter((v) => v !== null).length : 0;
+  const details = (listing as EnrichedListing).details ? 10 : 0;
+  return details + metrics + (listing.address ? 1 : 0) + (listing.image ? 1 : 0);
+}
+
+function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/ä/g, 'ae')
+    .replace(/ö/g, 'oe')
+    .replace(/ü/g, 'ue')
+    .replace(/ß/g, 'ss')
+    .replace(/str\./g, 'strasse')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+// Immonet serves Immowelt pages, so links differ only by host; image CDNs append resize params
+export function normalizeListingUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.hostname.replace(/^www\./, '').replace(/^immonet\.de$/, 'immowelt.de')}${parsed.pathname}`;
+  } catch {
+    return url;
+  }
+}
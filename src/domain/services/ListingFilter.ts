@@ -0,0 +1,71 @@
+import { EnrichedListing, Listing } from '../entities/Listing.js';
+import { SearchFilter } from '../entities/SearchFilter.js';
+
+export function isEmptySearchFilter(filter: SearchFilter): boolean {
+  return (
+    filter.minPrice === null &&
+    filter.maxPrice === null &&
+    filter.minSize === null &&
+    filter.minRooms === null &&
+    filter.maxRooms === null &&
+    filter.requiredKeywords.length === 0 &&
+    filter.excludedKeywords.length === 0 &&
+    filter.maxAgeHours === null &&
+    filter.referencePoint === null &&
+    filter.maxDistanceKm === null
+  );
+}
+
+export interface SearchFilterOptions {
+  // Off while the detail page is still to be fetched - required keywords are often only in its description
+  requiredKeywords?: boolean;
+}
+
+// Values the portal text couldn't be parsed into don't reject a listing - a missing
+// size is more likely a parsing gap than an apartment without square meters
+export function matchesSearchFilter(
+  listing: Listing,
+  filter: SearchFilter,
+  { requiredKeywords = true }: SearchFilterOptions = {}
+): boolean {
+  const metrics = listing.metrics;
+  const rent = metrics ? metrics.coldRent ?? metrics.warmRent : null;
+
+  if (!withinBounds(rent, filter.minPrice, filter.maxPrice)) return false;
+  if (!withinBounds(metrics?.livingSpaceSqm ?? null, filter.minSize, null)) return false;
+  if (!withinBounds(metrics?.rooms ?? null, filter.minRooms, filter.maxRooms)) return false;
+
+  const required = requiredKeywords ? filter.requiredKeywords : [];
+  if (required.length === 0 && filter.excludedKeywords.length === 0) return true;
+
+  const text = searchableText(listing);
+  if (!required.every((keyword) => text.includes(keyword.toLowerCase()))) return false;
+  return !filter.excludedKeywords.some((keyword) => text.includes(keyword.toLowerCase()));
+}
+
+// Listings without a posting date pass
+export function isWithinMaxAge(listing: Listing, maxAgeHours: number | null, now: Date = new Date()): boolean {
+  if (maxAgeHours === null || !listing.postedAt) return true;
+  return now.getTime() - listing.postedAt.getTime() <= maxAgeHours * 60 * 60 * 1000;
+}
+
+// Listings that couldn't be located pass, like other unknown values
+export function isWithinMaxDistance(listing: Listing, maxDistanceKm: number | null): boolean {
+  if (maxDistanceKm === null || listing.distanceKm == null) return true;
+  return listing.distanceKm <= maxDistanceKm;
+}
+
+function withinBounds(value: number | null, min: number | null, max: number | null): boolean {
+  if (value === null) return true;
+  if (min !== null && value < min) return false;
+  if (max !== null && value > max) return false;
+  return true;
+}
+
+function searchableText(listing: Listing): string {
+  const details = (listing as EnrichedListing).details;
+  return [listing.title, listing.description, listing.size, listing.address, details?.description]
+    .filter(Boolean)
+    .join('\n')
+    .toLowerCase();
+}
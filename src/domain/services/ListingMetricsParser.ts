@@ -0,0 +1,79 @@
+import { EnrichedListing, Listing, ListingMetrics } from '../entities/Listing.js';
+import { PriceKind } from '../entities/ProviderConfig.js';
+
+// "1.250", "1 250,50", "68,5", "68.5", "3"
+const NUMBER = String.raw`\d{1,3}(?:[.\s]\d{3})+(?:,\d+)?|\d+(?:[.,]\d+)?`;
+const THOUSANDS = /^\d{1,3}(?:[.\s]\d{3})+(?:,\d+)?$/;
+
+const EURO_UNIT = String.raw`€|eur\b|euro`;
+const AREA_UNIT = String.raw`m²|m2\b|qm\b|quadratmeter`;
+const ROOM_UNIT = String.raw`-?\s*(?:zimmer|zi\b\.?|räume|raum)`;
+
+// Values outside these ranges are parsing accidents (phone numbers, postcodes, years)
+const RENT_RANGE: [number, number] = [50, 20000];
+const AREA_RANGE: [number, number] = [5, 1000];
+const ROOM_RANGE: [number, number] = [0.5, 20];
+
+export function parseGermanNumber(text: string | null | undefined): number | null {
+  const match = text?.match(new RegExp(NUMBER));
+  return match ? toNumber(match[0]) : null;
+}
+
+export function parseRent(text: string | null | undefined): number | null {
+  if (!text) return null;
+  const value = findQuantity(text, EURO_UNIT) ?? soleNumber(text);
+  return inRange(value, RENT_RANGE);
+}
+
+export function parseLivingSpace(text: string | null | undefined): number | null {
+  if (!text) return null;
+  return inRange(findQuantity(text, AREA_UNIT), AREA_RANGE);
+}
+
+export function parseRooms(text: string | null | undefined): number | null {
+  if (!text) return null;
+  return inRange(findQuantity(text, ROOM_UNIT) ?? soleNumber(text), ROOM_RANGE);
+}
+
+// Typed values for comparing and filtering listings across portals. The card price is
+// cold rent unless the provider says otherwise; detail page values win over card values.
+// pricePerSqm uses cold rent and falls back to warm rent for warm-only portals.
+export function parseListingMetrics(listing: Listing, priceKind: PriceKind = 'cold'): ListingMetrics {
+  const details = (listing as EnrichedListing).details;
+
+  const cardPrice = parseRent(listing.price);
+  const coldRent = parseRent(details?.coldRent) ?? (priceKind === 'cold' ? cardPrice : null);
+  const warmRent = parseRent(details?.warmRent) ?? (priceKind === 'warm' ? cardPrice : null);
+
+  // Some portals put size and rooms together in one keyfacts text, others only mention them in the title
+  const livingSpaceSqm = parseLivingSpace(listing.size) ?? parseLivingSpace(listing.title);
+  const rooms =
+    inRange(parseGermanNumber(details?.rooms), ROOM_RANGE) ??
+    inRange(findQuantity(listing.size ?? '', ROOM_UNIT), ROOM_RANGE) ??
+    inRange(findQuantity(listing.title, ROOM_UNIT), ROOM_RANGE);
+
+  const rent = coldRent ?? warmRent;
+  const pricePerSqm = rent !== null && livingSpaceSqm ? Math.round((rent / livingSpaceSqm) * 100) / 100 : null;
+
+  return { coldRent, warmRent, livingSpaceSqm, rooms, pricePerSqm };
+}
+
+function findQuantity(text: string, unit: string): number | null {
+  const match = text.match(new RegExp(`(${NUMBER})\\s*(?:${unit})`, 'i'));
+  return match ? toNumber(match[1]) : null;
+}
+
+// A field holding nothing but a number, e.g. "3" for rooms or "1.250" for a price
+function soleNumber(text: string): number | null {
+  const matches = text.match(new RegExp(NUMBER, 'g'));
+  return matches?.length === 1 ? toNumber(matches[0]) : null;
+}
+
+function toNumber(token: string): number {
+  const normalized = THOUSANDS.test(token) ? token.replace(/[.\s]/g, '') : token;
+  return parseFloat(normalized.replace(',', '.'));
+}
+
+function inRange(value: number | null, [min, max]: [number, number]): number | null {
+  return value !== null && value >= min && value <= max ? value : null;
+}
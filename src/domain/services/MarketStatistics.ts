@@ -0,0 +1,80 @@
+import { Listing } from '../entities/Listing.js';
+import { MarketComparison, MarketMedian, MarketObservation } from '../entities/MarketStats.js';
+
+// Fewer listings than this don't make a meaningful median
+export const MIN_MARKET_SAMPLES = 5;
+export const MAX_ROOM_BUCKET = 5;
+
+export interface ListingLocation {
+  postcode: string | null;
+  city: string | null;
+}
+
+// "Straße 1, 80331 München, Altstadt", "10245 Friedrichshain", "Mitte, Berlin (10115)"
+export function parseLocation(address: string | null | undefined): ListingLocation {
+  if (!address) return { postcode: null, city: null };
+
+  const postcode = address.match(/\b\d{5}\b/)?.[0] ?? null;
+  const afterPostcode = address.match(/\b\d{5}\s+([^,()\d]+)/)?.[1];
+  const lastSegment = address.replace(/\([^)]*\)/g, '').split(',').pop();
+  const candidate = (afterPostcode ?? lastSegment ?? '').split(/\s+-\s+/)[0].trim();
+
+  const city = /^[\p{L}][\p{L}\s.-]*$/u.test(candidate) ? candidate : null;
+  return { postcode, city };
+}
+
+export function roomBucket(rooms: number | null): number | null {
+  return rooms === null ? null : Math.max(1, Math.min(Math.floor(rooms), MAX_ROOM_BUCKET));
+}
+
+// Medians are cold rent per m². Warm-only portals (WG-Gesucht) would skew them, so their
+// listings are neither recorded nor compared unless the detail page gave a cold rent.
+function coldPricePerSqm(listing: Listing): number | null {
+  return listing.metrics?.coldRent != null ? listing.metrics.pricePerSqm : null;
+}
+
+export function toMarketObservation(provider: string, listing: Listing): MarketObservation | null {
+  const pricePerSqm = coldPricePerSqm(listing);
+  if (pricePerSqm === null) return null;
+
+  const { postcode, city } = parseLocation(listing.address);
+  if (!postcode && !city) return null;
+
+  return { provider, listingId: listing.id, postcode, city, rooms: listing.metrics?.rooms ?? null, pricePerSqm };
+}
+
+// Most specific area with enough samples wins: postcode and room count, postcode,
+// city and room count, city
+export function compareToMarket(listing: Listing, medians: MarketMedian[]): MarketComparison | null {
+  const pricePerSqm = coldPricePerSqm(listing);
+  if (pricePerSqm === null) return null;
+
+  const { postcode, city } = parseLocation(listing.address);
+  const rooms = roomBucket(listing.metrics?.rooms ?? null);
+  const candidates: Array<[MarketMedian['scope'], string | null, number | null]> = [
+    ['postcode', postcode, rooms],
+    ['postcode', postcode, null],
+    ['city', city, rooms],
+    ['city', city, null],
+  ];
+
+  for (const [scope, key, bucket] of candidates) {
+    if (!key) continue;
+    const median = medians.find(
+      (m) => m.scope === scope && m.key.toLowerCase() === key.toLowerCase() && m.rooms === bucket
+    );
+    if (!median || median.sampleSize < MIN_MARKET_SAMPLES) continue;
+
+    return {
+      label: `${bucket === null ? 'flats' : `${roomsLabel(bucket)} flats`} in ${median.key}`,
+      medianPricePerSqm: median.medianPricePerSqm,
+      deviation: (pricePerSqm - median.medianPricePerSqm) / median.medianPricePerSqm,
+      sampleSize: median.sampleSize,
+    };
+  }
+  return null;
+}
+
+export function roomsLabel(bucket: number): string {
+  return bucket >= MAX_ROOM_BUCKET ? `${MAX_ROOM_BUCKET}+ room` : `${bucket}-room`;
+}
@@ -0,0 +1,87 @@
+import { EnrichedListing, Listing } from '../entities/Listing.js';
+import { ScamRisk, ScamRiskContext, ScamRiskLevel } from '../entities/ScamRisk.js';
+import { parseLocation } from './MarketStatistics.js';
+
+interface TextRule {
+  pattern: RegExp;
+  reason: string;
+  points: number;
+}
+
+// Phrases from typical fake offers: the landlord is abroad, keys come by post, money up front
+const TEXT_RULES: TextRule[] = [
+  {
+    pattern: /\b(?:i am|i'm|we are|currently|derzeit|zurzeit|momentan)\b.{0,40}\b(?:abroad|overseas|im ausland|in england|in london|in spanien|in spain)\b/i,
+    reason: 'Landlord claims to be abroad',
+    points: 35,
+  },
+  {
+    pattern: /\b(?:keys?|schlüssel)\b.{0,40}\b(?:by post|by mail|per post|zugeschickt|zuschicken|versand|dhl|ups)\b/i,
+    reason: 'Keys sent by post',
+    points: 40,
+  },
+  { pattern: /\bairbnb\b/i, reason: 'Mentions Airbnb payment or booking', points: 35 },
+  { pattern: /western union|moneygram|\bpaysafe/i, reason: 'Asks for an untraceable money transfer', points: 45 },
+  {
+    pattern: /\b(?:kaution|deposit|miete|rent)\b.{0,40}\b(?:vorab|vorher|in advance|before (?:the )?viewing|vor der besichtigung)\b/i,
+    reason: 'Wants money before a viewing',
+    points: 35,
+  },
+  {
+    pattern: /\b(?:nur|only)\b.{0,20}\b(?:per e-?mail|via e-?mail|by e-?mail|whatsapp)\b/i,
+    reason: 'Contact only by e-mail or WhatsApp',
+    points: 15,
+  },
+  // \b only knows ASCII letters and never matches before "ä" - letter lookarounds instead
+  {
+    pattern: /(?<!\p{L})(?:missionar|missionary|ärzte ohne grenzen|doctors without borders)(?!\p{L})/iu,
+    reason: 'Typical scam story',
+    points: 25,
+  },
+];
+
+const MEDIAN_DEVIATION_HIGH = -0.4;
+const MEDIAN_DEVIATION_MEDIUM = -0.25;
+const HIGH_RISK_SCORE = 50;
+const MEDIUM_RISK_SCORE = 25;
+
+// Rule-based, so every point can be explained to the user. Market comparison must already be on the listing.
+export function scoreScamRisk(listing: Listing, context: ScamRiskContext): ScamRisk {
+  const reasons: string[] = [];
+  let score = 0;
+  const add = (points: number, reason: string) => {
+    score += points;
+    reasons.push(reason);
+  };
+
+  const deviation = listing.market?.deviation;
+  if (deviation !== undefined && deviation <= MEDIAN_DEVIATION_HIGH) {
+    add(40, `€/m² ${Math.round(-deviation * 100)}% below the median for ${listing.market!.label}`);
+  } else if (deviation !== undefined && deviation <= MEDIAN_DEVIATION_MEDIUM) {
+    add(20, `€/m² ${Math.round(-deviation * 100)}% below the median for ${listing.market!.label}`);
+  }
+
+  const text = [listing.title, listing.description, (listing as EnrichedListing).details?.description]
+    .filter(Boolean)
+    .join('\n');
+  for (const rule of TEXT_RULES) {
+    if (rule.pattern.test(text)) add(rule.points, rule.reason);
+  }
+
+  if (context.sharedImageCount > 0) {
+    add(30, `Picture also used by ${context.sharedImageCount} other listing(s)`);
+  }
+
+  const { postcode, city } = parseLocation(listing.address);
+  if (!postcode && !city) {
+    add(15, 'No address');
+  }
+
+  return { score, level: riskLevel(score), reasons };
+}
+
+function riskLevel(score: number): ScamRiskLevel {
+  if (score >= HIGH_RISK_SCORE) return 'high';
+  if (score >= MEDIUM_RISK_SCORE) return 'medium';
+  return 'low';
+}
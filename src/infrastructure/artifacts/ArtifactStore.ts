@@ -0,0 +1,106 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ILogger, LoggerFactory } from '../logging/Logger.js';
+
+export type ArtifactReason = 'error' | 'no_listings';
+
+export interface ArtifactMeta {
+  id: string;
+  providerId: string;
+  url: string;
+  reason: ArtifactReason;
+  error?: string;
+  capturedAt: string;
+}
+
+export interface Artifact extends ArtifactMeta {
+  htmlFile: string;
+  screenshotFile: string | null;
+}
+
+const ID_PATTERN = /^[a-z0-9-]+$/i;
+
+// What a page looked like when scraping it failed - sent to the admin for debugging
+export class ArtifactStore {
+  private static instance: ArtifactStore | null = null;
+  private readonly logger: ILogger;
+
+  constructor(
+    private readonly baseDir: string = process.env.ARTIFACTS_DIR || './data/artifacts',
+    private readonly maxArtifacts: number = parseInt(process.env.ARTIFACTS_MAX || '50', 10),
+    private readonly maxAgeMs: number = parseInt(process.env.ARTIFACTS_MAX_AGE_DAYS || '7', 10) * 24 * 60 * 60 * 1000
+  ) {
+    this.logger = LoggerFactory.create('ArtifactStore');
+  }
+
+  static getInstance(): ArtifactStore {
+    if (!ArtifactStore.instance) {
+      ArtifactStore.instance = new ArtifactStore();
+    }
+    return ArtifactStore.instance;
+  }
+
+  save(meta: Omit<ArtifactMeta, 'id' | 'capturedAt'>, html: string, screenshot?: Uint8Array): string | null {
+    try {
+      if (!fs.existsSync(this.baseDir)) {
+        fs.mkdirSync(this.baseDir, { recursive: true });
+      }
+
+      const providerPart = meta.providerId.toLowerCase().replace(/[^a-z0-9]/g, '');
+      const id = `${providerPart}-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+      const artifact: ArtifactMeta = { ...meta, id, capturedAt: new Date().toISOString() };
+
+      fs.writeFileSync(path.join(this.baseDir, `${id}.html`), html, 'utf8');
+      if (screenshot) {
+        fs.writeFileSync(path.join(this.baseDir, `${id}.png`), screenshot);
+      }
+      fs.writeFileSync(path.join(this.baseDir, `${id}.json`), JSON.stringify(artifact, null, 2), 'utf8');
+
+      this.prune();
+      this.logger.info(`Saved ${meta.reason} artifact for ${meta.providerId}`, { id });
+      return id;
+    } catch (err) {
+      this.logger.error(`Failed to save artifact for ${meta.providerId}`, err as Error);
+      return null;
+    }
+  }
+
+  get(id: string): Artifact | null {
+    if (!ID_PATTERN.test(id)) return null;
+
+    const metaFile = path.join(this.baseDir, `${id}.json`);
+    if (!fs.existsSync(metaFile)) return null;
+
+    const meta = JSON.parse(fs.readFileSync(metaFile, 'utf8')) as ArtifactMeta;
+    const screenshotFile = path.join(this.baseDir, `${id}.png`);
+    return {
+      ...meta,
+      htmlFile: path.join(this.baseDir, `${id}.html`),
+      screenshotFile: fs.existsSync(screenshotFile) ? screenshotFile : null,
+    };
+  }
+
+  // Newest first
+  list(): ArtifactMeta[] {
+    if (!fs.existsSync(this.baseDir)) return [];
+
+    return fs
+      .readdirSync(this.baseDir)
+      .filter((f) => f.endsWith('.json'))
+      .map((f) => JSON.parse(fs.readFileSync(path.join(this.baseDir, f), 'utf8')) as ArtifactMeta)
+      .sort((a, b) => b.capturedAt.localeCompare(a.capturedAt));
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - this.maxAgeMs;
+    const artifacts = this.list();
+
+    artifacts.forEach((artifact, index) => {
+      if (index < this.maxArtifacts && new Date(artifact.capturedAt).getTime() >= cutoff) return;
+      for (const ext of ['json', 'html', 'png']) {
+        const file = path.join(this.baseDir, `${artifact.id}.${ext}`);
+        if (fs.existsSync(file)) fs.unlinkSync(file);
+      }
+    });
+  }
+}
@@ -1,90 +1,207 @@
-import puppeteer, { Browser } from 'puppeteer';
-import { IBrowserService } from '../../domain/ports/IBrowserService.js';
+import { Page } from 'puppeteer';
+import { IBrowserService, RequestOptions, ScrapedPage, ScrapeOptions } from '../../domain/ports/IBrowserService.js';
 import { RawListing } from '../../domain/entities/Listing.js';
+import { DetailPageConfig } from '../../domain/entities/ProviderConfig.js';
+import { extractDetails, extractListings, extractNextPageHref } from './extractors.js';
+import { ProxyHealth, ProxyPool } from './ProxyPool.js';
+import { PagePool, PagePoolStats } from './PagePool.js';
+import { ResourceFilter } from './ResourceFilter.js';
+import { ProviderResourceStats, ResourceStats } from './ResourceStats.js';
+import { HttpStatusError, ScrapeError, classifyScrapeError, isTransientError } from '../utils/errors.js';
+import { ArtifactMeta, ArtifactStore } from '../artifacts/ArtifactStore.js';
+
+export interface BrowserServiceOptions {
+  proxyPool?: ProxyPool;
+  maxPages?: number;
+  recycleAfterPages?: number;
+  blockResources?: boolean;
+  // Share of page loads that run without blocking to measure what blocking saves
+  baselineSampleRate?: number;
+}
+
+// Per-page request accounting, reset for every use of a pooled page
+interface PageTraffic {
+  filter: ResourceFilter | null;
+  bytes: number;
+  blockedRequests: number;
+}
 
 export class BrowserService implements IBrowserService {
-  private browser: Browser | null = null;
+  private readonly pagePool: PagePool;
+  private readonly proxyPool?: ProxyPool;
+  private readonly resourceStats = new ResourceStats();
+  private readonly traffic = new WeakMap<Page, PageTraffic>();
+  private readonly blockResources: boolean;
+  private readonly baselineSampleRate: number;
   private readonly userAgent =
     'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
 
+  constructor(options: BrowserServiceOptions = {}) {
+    this.proxyPool = options.proxyPool;
+    this.blockResources = options.blockResources ?? true;
+    this.baselineSampleRate = options.baselineSampleRate ?? 0.05;
+    this.pagePool = new PagePool({
+      maxPages: options.maxPages ?? 3,
+      recycleAfterPages: options.recycleAfterPages ?? 200,
+      userAgent: this.userAgent,
+      onPageCreated: (page) => this.instrumentPage(page),
+    });
+  }
+
   async initialize(): Promise<void> {
-    if (!this.browser) {
-      this.browser = await puppeteer.launch({
-        headless: true,
-        args: [
-          '--no-sandbox',
-          '--disable-setuid-sandbox',
-          '--disable-dev-shm-usage',
-          '--disable-gpu',
-        ],
-      });
-    }
+    await this.pagePool.start();
   }
 
   async scrape(
     url: string,
     containerSelector: string,
     fields: Record<string, string>,
-    waitForSelector?: string
-  ): Promise<RawListing[]> {
-    await this.initialize();
+    options: ScrapeOptions = {}
+  ): Promise<ScrapedPage> {
+    return this.withPage(url, options.waitForSelector, options, true, async (page) => {
+      const listings = await page.evaluate(extractListings, containerSelector, fields);
+
+      const nextPageHref = options.nextPageSelector
+        ? await page.evaluate(extractNextPageHref, options.nextPageSelector)
+        : null;
 
-    const page = await this.browser!.newPage();
-    await page.setUserAgent(this.userAgent);
+      const html = listings.length === 0 || options.captureHtml ? await page.content() : undefined;
+      const artifactId =
+        listings.length === 0 && !options.followUpPage
+          ? await this.captureArtifact(page, { providerId: options.providerId ?? 'unknown', url, reason: 'no_listings' })
+          : undefined;
+
+      return {
+        listings: listings as RawListing[],
+        nextPageUrl: nextPageHref ? new URL(nextPageHref, page.url()).toString() : null,
+        html,
+        artifactId,
+      };
+    });
+  }
+
+  async scrapeDetails(
+    url: string,
+    config: DetailPageConfig,
+    options: RequestOptions = {}
+  ): Promise<Record<string, string | null>> {
+    return this.withPage(url, config.waitForSelector, options, false, (page) => page.evaluate(extractDetails, config));
+  }
+
+  reportBlocked(providerId: string): void {
+    this.proxyPool?.rotate(providerId);
+  }
+
+  getStats(): PagePoolStats {
+    return this.pagePool.getStats();
+  }
+
+  getProxyHealth(): ProxyHealth[] | null {
+    return this.proxyPool?.getHealth() ?? null;
+  }
+
+  getResourceStats(): ProviderResourceStats[] {
+    return this.resourceStats.getAll();
+  }
+
+  private async withPage<T>(
+    url: string,
+    waitForSelector: string | undefined,
+    options: RequestOptions,
+    captureFailures: boolean,
+    fn: (page: Page) => Promise<T>
+  ): Promise<T> {
+    const proxy = this.proxyPool?.acquire(options.providerId) ?? null;
+    const page = await this.pagePool.acquire(proxy);
+    let reusable = false;
+
+    const traffic = this.traffic.get(page)!;
+    const filtered =
+      this.blockResources && options.resources?.enabled !== false && Math.random() >= this.baselineSampleRate;
+    traffic.filter = filtered ? new ResourceFilter(options.resources) : null;
+    traffic.bytes = 0;
+    traffic.blockedRequests = 0;
+    const startedAt = Date.now();
 
     try {
-      await page.goto(url, { waitUntil: 'networkidle2', timeout: 30000 });
+      const response = await page.goto(url, { waitUntil: 'networkidle2', timeout: 30000 });
+      if (response && response.status() >= 400) {
+        throw new HttpStatusError(response.status(), `HTTP ${response.status()} ${response.statusText()} for ${url}`);
+      }
 
       if (waitForSelector) {
         await page.waitForSelector(waitForSelector, { timeout: 10000 }).catch(() => {});
       }
 
-      const listings = await page.evaluate(
-        (container: string, fieldMap: Record<string, string>) => {
-          const cards = document.querySelectorAll(container);
-          return Array.from(cards).map((card) => {
-            const result: Record<string, string | null> = {};
-
-            for (const [key, selector] of Object.entries(fieldMap)) {
-              try {
-                let sel = selector.split('|')[0].trim();
-                let attr: string | null = null;
-
-                if (sel.includes('@')) {
-                  const parts = sel.split('@');
-                  sel = parts[0];
-                  attr = parts[1];
-                }
-
-                const el = sel === '*' ? card : card.querySelector(sel);
-                if (el) {
-                  result[key] = attr
-                    ? el.getAttribute(attr)
-                    : el.textContent?.replace(/\n/g, ' ').trim() || null;
-                } else {
-                  result[key] = null;
-                }
-              } catch {
-                result[key] = null;
-              }
-            }
-            return result;
-          });
-        },
-        containerSelector,
-        fields
-      );
-
-      return listings as RawListing[];
+      if (options.providerId) {
+        this.resourceStats.record(options.providerId, {
+          durationMs: Date.now() - startedAt,
+          bytes: traffic.bytes,
+          blockedRequests: traffic.blockedRequests,
+          filtered,
+        });
+      }
+
+      const result = await fn(page);
+      if (proxy) this.proxyPool!.reportSuccess(proxy.id);
+      reusable = true;
+      return result;
+    } catch (error) {
+      // Connection problems count against the proxy; blocking is reported by the provider
+      if (proxy && error instanceof Error && isTransientError(classifyScrapeError(error))) {
+        this.proxyPool!.reportFailure(proxy.id);
+      }
+      if (!captureFailures) throw error;
+
+      const message = error instanceof Error ? error.message : String(error);
+      const artifactId = await this.captureArtifact(page, {
+        providerId: options.providerId ?? 'unknown',
+        url,
+        reason: 'error',
+        error: message,
+      });
+      throw new ScrapeError(message, artifactId, { cause: error });
     } finally {
-      await page.close();
+      await this.pagePool.release(page, proxy, reusable);
     }
   }
 
-  async close(): Promise<void> {
-    if (this.browser) {
-      await this.browser.close();
-      this.browser = null;
+  private async captureArtifact(page: Page, meta: Omit<ArtifactMeta, 'id' | 'capturedAt'>): Promise<string | null> {
+    if (page.isClosed()) return null;
+    try {
+      const html = await page.content();
+      const screenshot = await page.screenshot({ type: 'png' });
+      return ArtifactStore.getInstance().save(meta, html, screenshot);
+    } catch {
+      // The page may be gone after a crash - nothing to capture
+      return null;
     }
   }
+
+  private async instrumentPage(page: Page): Promise<void> {
+    const traffic: PageTraffic = { filter: null, bytes: 0, blockedRequests: 0 };
+    this.traffic.set(page, traffic);
+
+    await page.setRequestInterception(true);
+    page.on('request', (request) => {
+      if (request.isInterceptResolutionHandled()) return;
+      if (traffic.filter?.shouldBlock(request.resourceType(), request.url())) {
+        traffic.blockedRequests++;
+        request.abort('blockedbyclient').catch(() => {});
+      } else {
+        request.continue().catch(() => {});
+      }
+    });
+
+    // Bytes on the wire, headers and compression included
+    const cdp = await page.createCDPSession();
+    await cdp.send('Network.enable');
+    cdp.on('Network.loadingFinished', (event) => {
+      traffic.bytes += event.encodedDataLength;
+    });
+  }
+
+  async close(): Promise<void> {
+    await this.pagePool.close();
+  }
 }
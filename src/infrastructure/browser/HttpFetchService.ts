@@ -0,0 +1,85 @@
+import { parseHTML } from 'linkedom';
+import { IBrowserService, ScrapedPage, ScrapeOptions } from '../../domain/ports/IBrowserService.js';
+import { RawListing } from '../../domain/entities/Listing.js';
+import { DetailPageConfig } from '../../domain/entities/ProviderConfig.js';
+import { extractDetails, extractListings, extractNextPageHref } from './extractors.js';
+import { ArtifactStore } from '../artifacts/ArtifactStore.js';
+import { HttpStatusError, ScrapeError } from '../utils/errors.js';
+
+// Plain HTTP + DOM parser for server-rendered portals - no Chromium involved.
+// Pages that need JavaScript to render their results must keep using BrowserService.
+export class HttpFetchService implements IBrowserService {
+  private readonly userAgent =
+    'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+
+  async initialize(): Promise<void> {
+    // Nothing to start
+  }
+
+  async scrape(
+    url: string,
+    containerSelector: string,
+    fields: Record<string, string>,
+    options: ScrapeOptions = {}
+  ): Promise<ScrapedPage> {
+    const providerId = options.providerId ?? 'unknown';
+    const { document, finalUrl, html } = await this.fetchDocument(url, providerId);
+    const listings = extractListings(containerSelector, fields, document);
+
+    const nextPageHref = options.nextPageSelector ? extractNextPageHref(options.nextPageSelector, document) : null;
+
+    // No screenshot without a browser - the HTML has to do
+    const artifactId =
+      listings.length === 0 && !options.followUpPage
+        ? ArtifactStore.getInstance().save({ providerId, url, reason: 'no_listings' }, html)
+        : undefined;
+
+    return {
+      listings: listings as RawListing[],
+      nextPageUrl: nextPageHref ? new URL(nextPageHref, finalUrl).toString() : null,
+      html: listings.length === 0 || options.captureHtml ? html : undefined,
+      artifactId,
+    };
+  }
+
+  async scrapeDetails(url: string, config: DetailPageConfig): Promise<Record<string, string | null>> {
+    const { document } = await this.fetchDocument(url);
+    return extractDetails(config, document);
+  }
+
+  // With artifactProviderId set, error responses are kept as failure artifacts
+  private async fetchDocument(
+    url: string,
+    artifactProviderId?: string
+  ): Promise<{ document: Document; finalUrl: string; html: string }> {
+    const response = await fetch(url, {
+      headers: {
+        'User-Agent': this.userAgent,
+        Accept: 'text/html,application/xhtml+xml',
+        'Accept-Language': 'de-DE,de;q=0.9,en;q=0.8',
+      },
+      redirect: 'follow',
+      signal: AbortSignal.timeout(30000),
+    });
+
+    if (!response.ok) {
+      const error = new HttpStatusError(response.status, `HTTP ${response.status} ${response.statusText} for ${url}`);
+      if (!artifactProviderId) throw error;
+
+      const body = await response.text().catch(() => '');
+      const artifactId = ArtifactStore.getInstance().save(
+        { providerId: artifactProviderId, url, reason: 'error', error: error.message },
+        body
+      );
+      throw new ScrapeError(error.message, artifactId, { cause: error });
+    }
+
+    const html = await response.text();
+    const { document } = parseHTML(html);
+    return { document: document as unknown as Document, finalUrl: response.url || url, html };
+  }
+
+  async close(): Promise<void> {
+    // Nothing to release
+  }
+}
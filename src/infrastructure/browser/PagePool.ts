@@ -0,0 +1,202 @@
+import puppeteer, { Browser, BrowserContext, Page } from 'puppeteer';
+import { ILogger, LoggerFactory } from '../logging/Logger.js';
+import { ProxyEndpoint } from './ProxyPool.js';
+
+export interface PagePoolOptions {
+  // Pages open at the same time - further requests wait in a queue
+  maxPages: number;
+  // Relaunch Chromium after serving this many pages to contain memory leaks
+  recycleAfterPages: number;
+  userAgent: string;
+  // Called once for every new page, before it is handed out for the first time
+  onPageCreated?: (page: Page) => Promise<void>;
+}
+
+export interface PagePoolStats {
+  activePages: number;
+  idlePages: number;
+  queuedRequests: number;
+  pagesServed: number;
+  browserLaunches: number;
+  avgQueueWaitMs: number;
+  maxQueueWaitMs: number;
+}
+
+const DIRECT = 'direct';
+
+// Owns the Chromium process: bounded page concurrency, page reuse and restarts
+export class PagePool {
+  private readonly logger: ILogger;
+  private browser: Browser | null = null;
+  private launching: Promise<Browser> | null = null;
+  // One incognito context per proxy - Chromium sets the proxy per context, not per page
+  private readonly contexts = new Map<string, BrowserContext>();
+  private readonly idle = new Map<string, Page[]>();
+  private readonly waiters: Array<() => void> = [];
+  private activePages = 0;
+  private pagesSinceLaunch = 0;
+  private pagesServed = 0;
+  private browserLaunches = 0;
+  private totalQueueWaitMs = 0;
+  private maxQueueWaitMs = 0;
+
+  constructor(private readonly options: PagePoolOptions) {
+    this.logger = LoggerFactory.create('PagePool');
+  }
+
+  async start(): Promise<void> {
+    await this.getBrowser();
+  }
+
+  async acquire(proxy: ProxyEndpoint | null): Promise<Page> {
+    const queuedAt = Date.now();
+    await this.waitForSlot();
+    const waitMs = Date.now() - queuedAt;
+    this.totalQueueWaitMs += waitMs;
+    this.maxQueueWaitMs = Math.max(this.maxQueueWaitMs, waitMs);
+
+    try {
+      const browser = await this.getBrowser();
+      const key = proxy?.id ?? DIRECT;
+      const page = this.idle.get(key)?.pop() ?? (await this.newPage(browser, proxy));
+      this.pagesSinceLaunch++;
+      this.pagesServed++;
+      return page;
+    } catch (error) {
+      this.releaseSlot();
+      throw error;
+    }
+  }
+
+  // Pages that failed mid-navigation are closed rather than reused
+  async release(page: Page, proxy: ProxyEndpoint | null, reusable: boolean): Promise<void> {
+    const key = proxy?.id ?? DIRECT;
+    const idlePages = this.idle.get(key) ?? [];
+
+    try {
+      const sameBrowser = !!this.browser?.connected && page.browser() === this.browser;
+      if (reusable && sameBrowser && !page.isClosed() && idlePages.length < this.options.maxPages) {
+        await page.goto('about:blank');
+        idlePages.push(page);
+        this.idle.set(key, idlePages);
+      } else {
+        await page.close();
+      }
+    } catch {
+      await page.close().catch(() => {});
+    } finally {
+      this.releaseSlot();
+    }
+
+    if (this.pagesSinceLaunch >= this.options.recycleAfterPages && this.activePages === 0) {
+      this.logger.info(`Recycling browser after ${this.pagesSinceLaunch} pages`);
+      await this.closeBrowser();
+    }
+  }
+
+  getStats(): PagePoolStats {
+    return {
+      activePages: this.activePages,
+      idlePages: Array.from(this.idle.values()).reduce((sum, pages) => sum + pages.length, 0),
+      queuedRequests: this.waiters.length,
+      pagesServed: this.pagesServed,
+      browserLaunches: this.browserLaunches,
+      avgQueueWaitMs: this.pagesServed > 0 ? Math.round(this.totalQueueWaitMs / this.pagesServed) : 0,
+      maxQueueWaitMs: this.maxQueueWaitMs,
+    };
+  }
+
+  async close(): Promise<void> {
+    await this.closeBrowser();
+  }
+
+  private waitForSlot(): Promise<void> {
+    if (this.activePages < this.options.maxPages) {
+      this.activePages++;
+      return Promise.resolve();
+    }
+    // The slot is handed over directly by releaseSlot, activePages stays the same
+    return new Promise((resolve) => this.waiters.push(resolve));
+  }
+
+  private releaseSlot(): void {
+    const next = this.waiters.shift();
+    if (next) {
+      next();
+    } else {
+      this.activePages--;
+    }
+  }
+
+  private async getBrowser(): Promise<Browser> {
+    if (this.browser?.connected) return this.browser;
+    if (!this.launching) {
+      this.launching = this.launch().finally(() => {
+        this.launching = null;
+      });
+    }
+    return this.launching;
+  }
+
+  private async launch(): Promise<Browser> {
+    const browser = await puppeteer.launch({
+      headless: true,
+      args: [
+        '--no-sandbox',
+        '--disable-setuid-sandbox',
+        '--disable-dev-shm-usage',
+        '--disable-gpu',
+      ],
+    });
+
+    browser.on('disconnected', () => {
+      if (this.browser !== browser) return;
+      // Crashed or killed - the next request launches a fresh one
+      this.logger.warn('Browser disconnected, will restart on next request');
+      this.resetBrowserState();
+    });
+
+    this.resetBrowserState();
+    this.browser = browser;
+    this.browserLaunches++;
+    return browser;
+  }
+
+  private async newPage(browser: Browser, proxy: ProxyEndpoint | null): Promise<Page> {
+    let page: Page;
+    if (proxy) {
+      let context = this.contexts.get(proxy.id);
+      if (!context) {
+        context = await browser.createBrowserContext({ proxyServer: proxy.server });
+        this.contexts.set(proxy.id, context);
+      }
+      page = await context.newPage();
+      if (proxy.username) {
+        await page.authenticate({ username: proxy.username, password: proxy.password ?? '' });
+      }
+    } else {
+      page = await browser.newPage();
+    }
+
+    await page.setUserAgent(this.options.userAgent);
+    await this.options.onPageCreated?.(page);
+    return page;
+  }
+
+  private async closeBrowser(): Promise<void> {
+    const browser = this.browser;
+    this.resetBrowserState();
+    if (browser) {
+      await browser.close().catch((error) => {
+        this.logger.warn(`Failed to close browser: ${error}`);
+      });
+    }
+  }
+
+  private resetBrowserState(): void {
+    this.browser = null;
+    this.contexts.clear();
+    this.idle.clear();
+    this.pagesSinceLaunch = 0;
+  }
+}
@@ -0,0 +1,63 @@
+import { ResourceRules } from '../../domain/entities/ProviderConfig.js';
+
+// We only read attributes from the DOM - nothing needs to be rendered
+const DEFAULT_BLOCKED_TYPES = ['image', 'media', 'font'];
+
+// Ads, analytics and consent tooling commonly embedded by the portals
+const TRACKER_DOMAINS = [
+  'google-analytics.com',
+  'googletagmanager.com',
+  'googlesyndication.com',
+  'googleadservices.com',
+  'doubleclick.net',
+  'adnxs.com',
+  'criteo.com',
+  'criteo.net',
+  'facebook.net',
+  'facebook.com',
+  'hotjar.com',
+  'bing.com',
+  'clarity.ms',
+  'taboola.com',
+  'outbrain.com',
+  'adform.net',
+  'yieldlab.net',
+  'consensu.org',
+  'usercentrics.eu',
+  'privacy-mgmt.com',
+  'sentry.io',
+];
+
+export class ResourceFilter {
+  private readonly blockedTypes: Set<string>;
+  private readonly blockedDomains: string[];
+  private readonly allowedDomains: string[];
+
+  constructor(rules: ResourceRules = {}) {
+    this.blockedTypes = new Set(
+      [...DEFAULT_BLOCKED_TYPES, ...(rules.blockTypes ?? [])].filter((t) => !rules.allowTypes?.includes(t))
+    );
+    this.blockedDomains = [...TRACKER_DOMAINS, ...(rules.blockDomains ?? [])];
+    this.allowedDomains = rules.allowDomains ?? [];
+  }
+
+  shouldBlock(resourceType: string, url: string): boolean {
+    if (resourceType === 'document') return false;
+
+    let hostname: string;
+    try {
+      hostname = new URL(url).hostname;
+    } catch {
+      return false;
+    }
+    // data: and blob: URLs cost no traffic
+    if (!hostname) return false;
+
+    if (ResourceFilter.matchesDomain(hostname, this.allowedDomains)) return false;
+    return this.blockedTypes.has(resourceType) || ResourceFilter.matchesDomain(hostname, this.blockedDomains);
+  }
+
+  private static matchesDomain(hostname: string, domains: string[]): boolean {
+    return domains.some((domain) => hostname === domain || hostname.endsWith(`.${domain}`));
+  }
+}
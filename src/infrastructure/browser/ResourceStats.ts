@@ -0,0 +1,71 @@
+export interface PageLoadSample {
+  durationMs: number;
+  bytes: number;
+  blockedRequests: number;
+  // False for baseline loads that ran without request blocking
+  filtered: boolean;
+}
+
+export interface ProviderResourceStats {
+  providerId: string;
+  filteredLoads: number;
+  baselineLoads: number;
+  blockedRequests: number;
+  avgDurationMs: number;
+  avgBytes: number;
+  // Only known once both filtered and baseline loads were sampled
+  savedDurationMs: number | null;
+  savedBytes: number | null;
+}
+
+interface Totals {
+  loads: number;
+  durationMs: number;
+  bytes: number;
+}
+
+// Savings are measured, not estimated: a small share of page loads runs unfiltered
+// as a baseline and is compared with the filtered ones
+export class ResourceStats {
+  private readonly filtered = new Map<string, Totals>();
+  private readonly baseline = new Map<string, Totals>();
+  private readonly blocked = new Map<string, number>();
+
+  record(providerId: string, sample: PageLoadSample): void {
+    const target = sample.filtered ? this.filtered : this.baseline;
+    const totals = target.get(providerId) ?? { loads: 0, durationMs: 0, bytes: 0 };
+    totals.loads++;
+    totals.durationMs += sample.durationMs;
+    totals.bytes += sample.bytes;
+    target.set(providerId, totals);
+    this.blocked.set(providerId, (this.blocked.get(providerId) ?? 0) + sample.blockedRequests);
+  }
+
+  getAll(): ProviderResourceStats[] {
+    const providerIds = new Set([...this.filtered.keys(), ...this.baseline.keys()]);
+
+    return Array.from(providerIds).map((providerId) => {
+      const filtered = this.filtered.get(providerId);
+      const baseline = this.baseline.get(providerId);
+      const avg = (totals: Totals | undefined, key: 'durationMs' | 'bytes'): number | null =>
+        totals ? Math.round(totals[key] / totals.loads) : null;
+
+      const avgDurationMs = avg(filtered, 'durationMs');
+      const avgBytes = avg(filtered, 'bytes');
+      const baselineDurationMs = avg(baseline, 'durationMs');
+      const baselineBytes = avg(baseline, 'bytes');
+
+      return {
+        providerId,
+        filteredLoads: filtered?.loads ?? 0,
+        baselineLoads: baseline?.loads ?? 0,
+        blockedRequests: this.blocked.get(providerId) ?? 0,
+        avgDurationMs: avgDurationMs ?? baselineDurationMs ?? 0,
+        avgBytes: avgBytes ?? baselineBytes ?? 0,
+        savedDurationMs:
+          avgDurationMs !== null && baselineDurationMs !== null ? baselineDurationMs - avgDurationMs : null,
+        savedBytes: avgBytes !== null && baselineBytes !== null ? baselineBytes - avgBytes : null,
+      };
+    });
+  }
+}
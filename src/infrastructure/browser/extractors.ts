@@ -0,0 +1,113 @@
+import { DetailPageConfig } from '../../domain/entities/ProviderConfig.js';
+
+// These functions run both in Node (against a parsed document) and inside the page via
+// page.evaluate, so they must stay self-contained: no imports or module-level helpers, and no
+// named inner functions - tsx compiles those to __name(...) calls that don't exist in the page.
+
+// Selector syntax: "sel" reads text, "sel@attr" reads an attribute, "*" is the card itself,
+// "a | b" tries each alternative in order until one yields a value.
+export function extractListings(
+  container: string,
+  fieldMap: Record<string, string>,
+  root: ParentNode = document
+): Record<string, string | null>[] {
+  const cards = root.querySelectorAll(container);
+  return Array.from(cards).map((card) => {
+    const result: Record<string, string | null> = {};
+
+    for (const [key, selector] of Object.entries(fieldMap)) {
+      result[key] = null;
+
+      for (const alternative of selector.split('|')) {
+        try {
+          let sel = alternative.trim();
+          let attr: string | null = null;
+
+          if (sel.includes('@')) {
+            const parts = sel.split('@');
+            sel = parts[0].trim() || '*';
+            attr = parts[1].trim();
+          }
+
+          const el = sel === '*' ? card : card.querySelector(sel);
+          const value = el
+            ? attr
+              ? el.getAttribute(attr)
+              : el.textContent?.replace(/\n/g, ' ').trim() || null
+            : null;
+
+          if (value) {
+            result[key] = value;
+            break;
+          }
+        } catch {
+          // Invalid selector - try the next alternative
+        }
+      }
+    }
+    return result;
+  });
+}
+
+export function extractDetails(
+  detailConfig: DetailPageConfig,
+  root: ParentNode = document
+): Record<string, string | null> {
+  const result: Record<string, string | null> = {};
+
+  for (const [key, selector] of Object.entries(detailConfig.fields ?? {})) {
+    result[key] = null;
+
+    for (const alternative of selector.split('|')) {
+      try {
+        let sel = alternative.trim();
+        let attr: string | null = null;
+
+        if (sel.includes('@')) {
+          const parts = sel.split('@');
+          sel = parts[0].trim();
+          attr = parts[1].trim();
+        }
+
+        const el = root.querySelector(sel);
+        const value = (attr ? el?.getAttribute(attr) : el?.textContent?.replace(/\s+/g, ' ').trim()) || null;
+        if (value) {
+          result[key] = value;
+          break;
+        }
+      } catch {
+        // Invalid selector - try the next alternative
+      }
+    }
+  }
+
+  const list = detailConfig.labeledList;
+  if (list) {
+    const rows = Array.from(root.querySelectorAll(list.itemSelector));
+    for (const [key, label] of Object.entries(list.labels)) {
+      const row = rows.find((r) =>
+        (r.textContent ?? '').replace(/\s+/g, ' ').trim().toLowerCase().startsWith(label.toLowerCase())
+      );
+      if (!row) {
+        result[key] ??= null;
+        continue;
+      }
+      const valueEl = list.valueSelector ? row.querySelector(list.valueSelector) : null;
+      const text = valueEl
+        ? valueEl.textContent
+        : (row.textContent ?? '').replace(/\s+/g, ' ').trim().slice(label.length).replace(/^[:\s]+/, '');
+      result[key] = text?.replace(/\s+/g, ' ').trim() || null;
+    }
+  }
+
+  return result;
+}
+
+// Returns the raw href - callers resolve it against the page URL
+export function extractNextPageHref(selector: string, root: ParentNode = document): string | null {
+  try {
+    return root.querySelector(selector)?.getAttribute('href') || null;
+  } catch {
+    return null;
+  }
+}
@@ -1,13 +1,32 @@
 import pg from 'pg';
 import { ILogger, LoggerFactory } from '../logging/Logger.js';
+import { EMPTY_SEARCH_FILTER, SearchFilter } from '../../domain/entities/SearchFilter.js';
+import { PriceRecord } from '../../domain/entities/PriceChange.js';
+import { MarketMedian, MarketObservation, MarketTrendPoint } from '../../domain/entities/MarketStats.js';
+import { GeoPoint } from '../../domain/entities/GeoPoint.js';
+import { Listing } from '../../domain/entities/Listing.js';
+import { ListingNotification } from '../../domain/entities/Notification.js';
+import { DeliveryMode, DeliverySchedule } from '../../domain/entities/DeliverySchedule.js';
+import { redactUrl } from '../utils/url.js';
 
 const { Pool } = pg;
 
+// Version 1 hashed listing id and price, so a price change looked like a new listing.
+// Version 2 hashes the id only; older checkpoints are ignored and the search starts over.
+const CHECKPOINT_VERSION = 2;
+
+const MEDIAN = 'PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY price_per_sqm) AS median, COUNT(*) AS count';
+
+// Channel settings that are credentials, e.g. the webhook signing secret
+const SECRET_SETTING = /secret|token|password/i;
+
 export interface DbUser {
   id: string;
   telegram_id: number;
   username: string | null;
   first_name: string;
+  price_alerts: boolean;
+  hide_risky_listings: boolean;
   created_at: Date;
 }
 
@@ -18,6 +37,32 @@ export interface DbUserProvider {
   created_at: Date;
 }
 
+export interface DbSearchFilter {
+  user_id: string;
+  provider: string;
+  filter: SearchFilter;
+  updated_at: Date;
+}
+
+export interface DbNotificationChannel {
+  user_id: string;
+  channel: string;
+  address: string;
+  enabled: boolean;
+  settings: Record<string, string>;
+  updated_at: Date;
+}
+
+export interface DbDeliverySchedule {
+  user_id: string;
+  mode: DeliveryMode;
+  timezone: string;
+  quiet_start: number | null;
+  quiet_end: number | null;
+  digest_at: number;
+  updated_at: Date;
+}
+
 export class DatabaseConnection {
   private readonly pool: pg.Pool;
   private readonly logger: ILogger;
@@ -39,6 +84,61 @@ export class DatabaseConnection {
       )
     `);
 
+    await this.pool.query(`
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS price_alerts BOOLEAN NOT NULL DEFAULT TRUE
+    `);
+    await this.pool.query(`
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS hide_risky_listings BOOLEAN NOT NULL DEFAULT FALSE
+    `);
+
+    // Notification channels per user - Telegram users from before channels existed keep getting Telegram messages.
+    // The backfill runs on every startup, which is why the Telegram channel can be turned off but not removed.
+    await this.pool.query(`
+      CREATE TABLE IF NOT EXISTS notification_channels (
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        channel TEXT NOT NULL,
+        address TEXT NOT NULL,
+        enabled BOOLEAN NOT NULL DEFAULT TRUE,
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        PRIMARY KEY (user_id, channel)
+      )
+    `);
+    await this.pool.query(`
+      ALTER TABLE notification_channels ADD COLUMN IF NOT EXISTS settings JSONB NOT NULL DEFAULT '{}'
+    `);
+    await this.pool.query(`
+      INSERT INTO notification_channels (user_id, channel, address)
+      SELECT id, 'telegram', telegram_id::text FROM users
+      ON CONFLICT (user_id, channel) DO NOTHING
+    `);
+
+    // Delivery schedule per user - users without a row get everything instantly
+    await this.pool.query(`
+      CREATE TABLE IF NOT EXISTS delivery_schedules (
+        user_id TEXT PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+        mode TEXT NOT NULL,
+        timezone TEXT NOT NULL,
+        quiet_start INT,
+        quiet_end INT,
+        digest_at INT NOT NULL,
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+
+    // New listings and price drops held back by a delivery schedule, one row per item
+    await this.pool.query(`
+      CREATE TABLE IF NOT EXISTS pending_notifications (
+        id BIGSERIAL PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        kind TEXT NOT NULL,
+        payload JSONB NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+    await this.pool.query(`
+      CREATE INDEX IF NOT EXISTS pending_notifications_user_idx ON pending_notifications (user_id, id)
+    `);
+
     // User providers (search URLs)
     await this.pool.query(`
       CREATE TABLE IF NOT EXISTS user_providers (
@@ -60,6 +160,79 @@ export class DatabaseConnection {
         PRIMARY KEY (user_id, provider)
       )
     `);
+    await this.pool.query(`
+      ALTER TABLE checkpoints ADD COLUMN IF NOT EXISTS version INT NOT NULL DEFAULT 1
+    `);
+
+    // Every listing ever found in a search - new listings are the ones missing here
+    await this.pool.query(`
+      CREATE TABLE IF NOT EXISTS seen_listings (
+        user_id TEXT NOT NULL,
+        provider TEXT NOT NULL,
+        listing_id TEXT NOT NULL,
+        first_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        last_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        PRIMARY KEY (user_id, provider, listing_id)
+      )
+    `);
+    await this.pool.query(`
+      CREATE INDEX IF NOT EXISTS seen_listings_last_seen_idx ON seen_listings (last_seen_at)
+    `);
+
+    // Price history - a row per listing whenever its rent changes
+    await this.pool.query(`
+      CREATE TABLE IF NOT EXISTS price_history (
+        user_id TEXT NOT NULL,
+        provider TEXT NOT NULL,
+        listing_id TEXT NOT NULL,
+        price TEXT,
+        rent DOUBLE PRECISION NOT NULL,
+        recorded_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+    await this.pool.query(`
+      CREATE INDEX IF NOT EXISTS price_history_listing_idx
+        ON price_history (user_id, provider, listing_id, recorded_at DESC)
+    `);
+
+    // Asking prices of everything scraped, for market statistics - shared by all users
+    await this.pool.query(`
+      CREATE TABLE IF NOT EXISTS market_observations (
+        provider TEXT NOT NULL,
+        listing_id TEXT NOT NULL,
+        postcode TEXT,
+        city TEXT,
+        rooms DOUBLE PRECISION,
+        price_per_sqm DOUBLE PRECISION NOT NULL,
+        first_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        last_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        PRIMARY KEY (provider, listing_id)
+      )
+    `);
+
+    // Geocoding results by geocoder and normalized query; lat/lon NULL means "not found"
+    await this.pool.query(`
+      CREATE TABLE IF NOT EXISTS geocode_cache (
+        geocoder TEXT NOT NULL,
+        query TEXT NOT NULL,
+        lat DOUBLE PRECISION,
+        lon DOUBLE PRECISION,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        PRIMARY KEY (geocoder, query)
+      )
+    `);
+
+    // Search filters - removed together with the search they belong to
+    await this.pool.query(`
+      CREATE TABLE IF NOT EXISTS search_filters (
+        user_id TEXT NOT NULL,
+        provider TEXT NOT NULL,
+        filter JSONB NOT NULL,
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        PRIMARY KEY (user_id, provider),
+        FOREIGN KEY (user_id, provider) REFERENCES user_providers(user_id, provider) ON DELETE CASCADE
+      )
+    `);
 
     this.logger.info('Database initialized');
   }
@@ -84,6 +257,12 @@ export class DatabaseConnection {
        RETURNING *`,
       [id, telegramId, username, firstName]
     );
+    // New users get their notifications in the chat they signed up from
+    await this.pool.query(
+      `INSERT INTO notification_channels (user_id, channel, address) VALUES ($1, 'telegram', $2)
+       ON CONFLICT (user_id, channel) DO NOTHING`,
+      [id, String(telegramId)]
+    );
     return result.rows[0];
   }
 
@@ -92,6 +271,129 @@ export class DatabaseConnection {
     return result.rows;
   }
 
+  async setPriceAlerts(userId: string, enabled: boolean): Promise<void> {
+    await this.pool.query('UPDATE users SET price_alerts = $2 WHERE id = $1', [userId, enabled]);
+  }
+
+  async setHideRiskyListings(userId: string, hide: boolean): Promise<void> {
+    await this.pool.query('UPDATE users SET hide_risky_listings = $2 WHERE id = $1', [userId, hide]);
+  }
+
+  // Notification channel methods
+  async getNotificationChannels(userId: string): Promise<DbNotificationChannel[]> {
+    const result = await this.pool.query(
+      'SELECT * FROM notification_channels WHERE user_id = $1 ORDER BY channel',
+      [userId]
+    );
+    return result.rows;
+  }
+
+  // Settings are merged into the stored ones - only pass what changes
+  async setNotificationChannel(
+    userId: string,
+    channel: string,
+    address: string,
+    enabled: boolean,
+    settings: Record<string, string> = {}
+  ): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO notification_channels (user_id, channel, address, enabled, settings) VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (user_id, channel) DO UPDATE SET
+         address = EXCLUDED.address,
+         enabled = EXCLUDED.enabled,
+         settings = notification_channels.settings || EXCLUDED.settings,
+         updated_at = NOW()`,
+      [userId, channel, address, enabled, JSON.stringify(settings)]
+    );
+  }
+
+  async deleteNotificationChannel(userId: string, channel: string): Promise<void> {
+    await this.pool.query(
+      'DELETE FROM notification_channels WHERE user_id = $1 AND channel = $2',
+      [userId, channel]
+    );
+  }
+
+  // Delivery schedule methods
+  async getDeliverySchedule(userId: string): Promise<DeliverySchedule | null> {
+    const result = await this.pool.query('SELECT * FROM delivery_schedules WHERE user_id = $1', [userId]);
+    const row: DbDeliverySchedule | undefined = result.rows[0];
+    if (!row) return null;
+    return {
+      mode: row.mode,
+      timezone: row.timezone,
+      quietHours: row.quiet_start === null || row.quiet_end === null ? null : { start: row.quiet_start, end: row.quiet_end },
+      digestAt: row.digest_at,
+    };
+  }
+
+  async setDeliverySchedule(userId: string, schedule: DeliverySchedule): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO delivery_schedules (user_id, mode, timezone, quiet_start, quiet_end, digest_at)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (user_id) DO UPDATE SET
+         mode = EXCLUDED.mode,
+         timezone = EXCLUDED.timezone,
+         quiet_start = EXCLUDED.quiet_start,
+         quiet_end = EXCLUDED.quiet_end,
+         digest_at = EXCLUDED.digest_at,
+         updated_at = NOW()`,
+      [
+        userId,
+        schedule.mode,
+        schedule.timezone,
+        schedule.quietHours?.start ?? null,
+        schedule.quietHours?.end ?? null,
+        schedule.digestAt,
+      ]
+    );
+  }
+
+  // Pending notification methods
+  async addPendingNotifications(userId: string, notification: ListingNotification): Promise<void> {
+    const items = [
+      ...notification.newListings.map((listing) => ['listing', JSON.stringify(listing)]),
+      ...notification.priceDrops.map((change) => ['price_drop', JSON.stringify(change)]),
+    ];
+    if (items.length === 0) return;
+
+    await this.pool.query(
+      `INSERT INTO pending_notifications (user_id, kind, payload, created_at)
+       SELECT $1, kind, payload, COALESCE($4, NOW()) FROM UNNEST($2::text[], $3::jsonb[]) AS item(kind, payload)`,
+      [userId, items.map(([kind]) => kind), items.map(([, payload]) => payload), notification.heldSince ?? null]
+    );
+  }
+
+  async getPendingNotificationAges(): Promise<Map<string, Date>> {
+    const result = await this.pool.query(
+      'SELECT user_id, MIN(created_at) AS held_since FROM pending_notifications GROUP BY user_id'
+    );
+    return new Map(result.rows.map((row) => [row.user_id, row.held_since]));
+  }
+
+  // Deleting and returning in one statement - concurrent callers never get the same item twice
+  async takePendingNotifications(userId: string): Promise<ListingNotification | null> {
+    const result = await this.pool.query(
+      'DELETE FROM pending_notifications WHERE user_id = $1 RETURNING id, kind, payload, created_at',
+      [userId]
+    );
+    if (result.rows.length === 0) return null;
+
+    const rows = result.rows.sort((a, b) => Number(a.id) - Number(b.id));
+    // JSON turned dates into strings
+    const revive = (listing: Listing): Listing => ({
+      ...listing,
+      postedAt: listing.postedAt ? new Date(listing.postedAt) : listing.postedAt,
+    });
+    return {
+      newListings: rows.filter((r) => r.kind === 'listing').map((r) => revive(r.payload)),
+      priceDrops: rows
+        .filter((r) => r.kind === 'price_drop')
+        .map((r) => ({ ...r.payload, listing: revive(r.payload.listing) })),
+      heldSince: rows[0].created_at,
+    };
+  }
+
   // User provider methods
   async getUserProviders(userId: string): Promise<DbUserProvider[]> {
     const result = await this.pool.query(
@@ -126,8 +428,8 @@ export class DatabaseConnection {
   // Checkpoint methods
   async getCheckpoints(userId: string, provider: string): Promise<string[]> {
     const result = await this.pool.query(
-      'SELECT hashes FROM checkpoints WHERE user_id = $1 AND provider = $2',
-      [userId, provider]
+      'SELECT hashes FROM checkpoints WHERE user_id = $1 AND provider = $2 AND version = $3',
+      [userId, provider, CHECKPOINT_VERSION]
     );
 
     if (result.rows.length === 0) return [];
@@ -136,12 +438,13 @@ export class DatabaseConnection {
 
   async setCheckpoints(userId: string, provider: string, hashes: string[]): Promise<void> {
     await this.pool.query(
-      `INSERT INTO checkpoints (user_id, provider, hashes, updated_at)
-       VALUES ($1, $2, $3, NOW())
+      `INSERT INTO checkpoints (user_id, provider, hashes, version, updated_at)
+       VALUES ($1, $2, $3, $4, NOW())
        ON CONFLICT (user_id, provider) DO UPDATE SET
          hashes = EXCLUDED.hashes,
+         version = EXCLUDED.version,
          updated_at = NOW()`,
-      [userId, provider, JSON.stringify(hashes)]
+      [userId, provider, JSON.stringify(hashes), CHECKPOINT_VERSION]
     );
   }
 
@@ -155,13 +458,212 @@ export class DatabaseConnection {
 
   async clearUser(userId: string): Promise<void> {
     await this.pool.query('DELETE FROM checkpoints WHERE user_id = $1', [userId]);
+    await this.pool.query('DELETE FROM seen_listings WHERE user_id = $1', [userId]);
+    await this.pool.query('DELETE FROM price_history WHERE user_id = $1', [userId]);
+    await this.pool.query('DELETE FROM pending_notifications WHERE user_id = $1', [userId]);
   }
 
+  // A changed or removed search starts over: the next scrape only confirms with one listing
   async clearProviderCheckpoint(userId: string, provider: string): Promise<void> {
     await this.pool.query(
       'DELETE FROM checkpoints WHERE user_id = $1 AND provider = $2',
       [userId, provider]
     );
+    await this.pool.query(
+      'DELETE FROM seen_listings WHERE user_id = $1 AND provider = $2',
+      [userId, provider]
+    );
+  }
+
+  // Seen listing methods
+  async getSeenListingIds(userId: string, provider: string, listingIds: string[]): Promise<string[]> {
+    if (listingIds.length === 0) return [];
+    const result = await this.pool.query(
+      'SELECT listing_id FROM seen_listings WHERE user_id = $1 AND provider = $2 AND listing_id = ANY($3)',
+      [userId, provider, listingIds]
+    );
+    return result.rows.map((row) => row.listing_id);
+  }
+
+  async hasSeenListings(userId: string, provider: string): Promise<boolean> {
+    const result = await this.pool.query(
+      'SELECT 1 FROM seen_listings WHERE user_id = $1 AND provider = $2 LIMIT 1',
+      [userId, provider]
+    );
+    return result.rows.length > 0;
+  }
+
+  async markListingsSeen(userId: string, provider: string, listingIds: string[]): Promise<void> {
+    if (listingIds.length === 0) return;
+    await this.pool.query(
+      `INSERT INTO seen_listings (user_id, provider, listing_id)
+       SELECT $1, $2, UNNEST($3::text[])
+       ON CONFLICT (user_id, provider, listing_id) DO UPDATE SET
+         last_seen_at = NOW()`,
+      [userId, provider, Array.from(new Set(listingIds))]
+    );
+  }
+
+  // Price history goes with the listing it belongs to
+  async pruneSeenListings(olderThan: Date): Promise<number> {
+    const result = await this.pool.query('DELETE FROM seen_listings WHERE last_seen_at < $1', [olderThan]);
+    await this.pool.query(`
+      DELETE FROM price_history ph
+      WHERE NOT EXISTS (
+        SELECT 1 FROM seen_listings s
+        WHERE s.user_id = ph.user_id AND s.provider = ph.provider AND s.listing_id = ph.listing_id
+      )
+    `);
+    return result.rowCount ?? 0;
+  }
+
+  // Price history methods
+  async getLatestPrices(userId: string, provider: string, listingIds: string[]): Promise<PriceRecord[]> {
+    if (listingIds.length === 0) return [];
+    const result = await this.pool.query(
+      `SELECT DISTINCT ON (listing_id) listing_id, price, rent
+       FROM price_history
+       WHERE user_id = $1 AND provider = $2 AND listing_id = ANY($3)
+       ORDER BY listing_id, recorded_at DESC`,
+      [userId, provider, listingIds]
+    );
+    return result.rows.map((row) => ({ listingId: row.listing_id, price: row.price, rent: row.rent }));
+  }
+
+  async recordPrices(userId: string, provider: string, prices: PriceRecord[]): Promise<void> {
+    if (prices.length === 0) return;
+    await this.pool.query(
+      `INSERT INTO price_history (user_id, provider, listing_id, price, rent)
+       SELECT $1, $2, * FROM UNNEST($3::text[], $4::text[], $5::float8[])`,
+      [userId, provider, prices.map((p) => p.listingId), prices.map((p) => p.price), prices.map((p) => p.rent)]
+    );
+  }
+
+  // Market statistics methods
+  async recordMarketObservations(observations: MarketObservation[]): Promise<void> {
+    if (observations.length === 0) return;
+    await this.pool.query(
+      `INSERT INTO market_observations (provider, listing_id, postcode, city, rooms, price_per_sqm)
+       SELECT * FROM UNNEST($1::text[], $2::text[], $3::text[], $4::text[], $5::float8[], $6::float8[])
+       ON CONFLICT (provider, listing_id) DO UPDATE SET
+         postcode = EXCLUDED.postcode,
+         city = EXCLUDED.city,
+         rooms = EXCLUDED.rooms,
+         price_per_sqm = EXCLUDED.price_per_sqm,
+         last_seen_at = NOW()`,
+      [
+        observations.map((o) => o.provider),
+        observations.map((o) => o.listingId),
+        observations.map((o) => o.postcode),
+        observations.map((o) => o.city),
+        observations.map((o) => o.rooms),
+        observations.map((o) => o.pricePerSqm),
+      ]
+    );
+  }
+
+  async getMarketMedians(since: Date): Promise<MarketMedian[]> {
+    const result = await this.pool.query(
+      `WITH recent AS (
+         SELECT provider, postcode, city, LOWER(city) AS city_key, price_per_sqm,
+                GREATEST(1, LEAST(FLOOR(rooms), 5)) AS rooms
+         FROM market_observations
+         WHERE last_seen_at >= $1
+       )
+       SELECT 'postcode' AS scope, postcode AS key, rooms, ${MEDIAN} FROM recent
+         WHERE postcode IS NOT NULL AND rooms IS NOT NULL GROUP BY postcode, rooms
+       UNION ALL
+       SELECT 'postcode', postcode, NULL, ${MEDIAN} FROM recent
+         WHERE postcode IS NOT NULL GROUP BY postcode
+       UNION ALL
+       SELECT 'city', MIN(city), rooms, ${MEDIAN} FROM recent
+         WHERE city IS NOT NULL AND rooms IS NOT NULL GROUP BY city_key, rooms
+       UNION ALL
+       SELECT 'city', MIN(city), NULL, ${MEDIAN} FROM recent
+         WHERE city IS NOT NULL GROUP BY city_key
+       UNION ALL
+       SELECT 'provider', provider, NULL, ${MEDIAN} FROM recent GROUP BY provider`,
+      [since]
+    );
+    return result.rows.map((row) => ({
+      scope: row.scope,
+      key: row.key,
+      rooms: row.rooms === null ? null : Number(row.rooms),
+      medianPricePerSqm: row.median,
+      sampleSize: parseInt(row.count, 10),
+    }));
+  }
+
+  async getMarketTrends(since: Date): Promise<MarketTrendPoint[]> {
+    const result = await this.pool.query(
+      `SELECT MIN(city) AS city, DATE_TRUNC('week', first_seen_at) AS week, ${MEDIAN}
+       FROM market_observations
+       WHERE first_seen_at >= $1 AND city IS NOT NULL
+       GROUP BY LOWER(city), week
+       ORDER BY city, week`,
+      [since]
+    );
+    return result.rows.map((row) => ({
+      city: row.city,
+      weekStart: row.week,
+      medianPricePerSqm: row.median,
+      sampleSize: parseInt(row.count, 10),
+    }));
+  }
+
+  // Geocode cache methods - undefined when the query was never looked up
+  async getCachedGeocode(geocoder: string, query: string): Promise<GeoPoint | null | undefined> {
+    const result = await this.pool.query(
+      'SELECT lat, lon FROM geocode_cache WHERE geocoder = $1 AND query = $2',
+      [geocoder, query]
+    );
+    const row = result.rows[0];
+    if (!row) return undefined;
+    return row.lat === null || row.lon === null ? null : { lat: row.lat, lon: row.lon };
+  }
+
+  async setCachedGeocode(geocoder: string, query: string, point: GeoPoint | null): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO geocode_cache (geocoder, query, lat, lon) VALUES ($1, $2, $3, $4)
+       ON CONFLICT (geocoder, query) DO UPDATE SET lat = EXCLUDED.lat, lon = EXCLUDED.lon, created_at = NOW()`,
+      [geocoder, query, point?.lat ?? null, point?.lon ?? null]
+    );
+  }
+
+  // Search filter methods
+  async getSearchFilters(userId: string): Promise<DbSearchFilter[]> {
+    const result = await this.pool.query(
+      'SELECT * FROM search_filters WHERE user_id = $1',
+      [userId]
+    );
+    // Filters saved before a field existed get its default
+    return result.rows.map((row) => ({ ...row, filter: { ...EMPTY_SEARCH_FILTER, ...row.filter } }));
+  }
+
+  async getSearchFilter(userId: string, provider: string): Promise<SearchFilter | null> {
+    const result = await this.pool.query(
+      'SELECT filter FROM search_filters WHERE user_id = $1 AND provider = $2',
+      [userId, provider]
+    );
+    return result.rows[0] ? { ...EMPTY_SEARCH_FILTER, ...result.rows[0].filter } : null;
+  }
+
+  async setSearchFilter(userId: string, provider: string, filter: SearchFilter): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO search_filters (user_id, provider, filter, updated_at)
+       VALUES ($1, $2, $3, NOW())
+       ON CONFLICT (user_id, provider) DO UPDATE SET
+         filter = EXCLUDED.filter,
+         updated_at = NOW()`,
+      [userId, provider, JSON.stringify(filter)]
+    );
+  }
+
+  async deleteSearchFilter(userId: string, provider: string): Promise<void> {
+    await this.pool.query(
+      'DELETE FROM search_filters WHERE user_id = $1 AND provider = $2',
+      [userId, provider]
+    );
   }
 
   async close(): Promise<void> {
@@ -169,12 +671,33 @@ export class DatabaseConnection {
     this.logger.info('Database connection closed');
   }
 
-  async exportAllData(): Promise<{ users: DbUser[]; providers: DbUserProvider[] }> {
+  async exportAllData(): Promise<{
+    users: DbUser[];
+    providers: DbUserProvider[];
+    filters: DbSearchFilter[];
+    channels: DbNotificationChannel[];
+    schedules: DbDeliverySchedule[];
+  }> {
     const users = await this.pool.query('SELECT * FROM users');
     const providers = await this.pool.query('SELECT * FROM user_providers');
+    const filters = await this.pool.query('SELECT * FROM search_filters');
+    const channels = await this.pool.query('SELECT * FROM notification_channels');
+    const schedules = await this.pool.query('SELECT * FROM delivery_schedules');
     return {
       users: users.rows,
       providers: providers.rows,
+      filters: filters.rows,
+      channels: channels.rows.map(redactChannel),
+      schedules: schedules.rows,
     };
   }
 }
+
+// Backups are sent to the admin chat - channel credentials stay out of them: webhook secrets,
+// ntfy credentials and tokens in URLs
+function redactChannel(channel: DbNotificationChannel): DbNotificationChannel {
+  const settings = Object.fromEntries(
+    Object.entries(channel.settings).map(([key, value]) => [key, SECRET_SETTING.test(key) ? '[redacted]' : value])
+  );
+  return { ...channel, address: redactUrl(channel.address), settings };
+}
@@ -0,0 +1,46 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import { INotificationChannel } from '../../domain/ports/INotificationChannel.js';
+import { ListingNotification, NotificationRecipient } from '../../domain/entities/Notification.js';
+import { renderEmailDigest } from './EmailDigest.js';
+
+export interface EmailChannelConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+}
+
+// One HTML digest per scrape result instead of a mail per listing
+export class EmailChannel implements INotificationChannel {
+  readonly id = 'email';
+  readonly name = 'E-mail';
+  readonly addressPrompt = 'your e-mail address';
+  private readonly transporter: Transporter;
+
+  constructor(private readonly config: EmailChannelConfig) {
+    this.transporter = nodemailer.createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      auth: config.user ? { user: config.user, pass: config.password } : undefined,
+    });
+  }
+
+  parseAddress(input: string): string | null {
+    const address = input.trim();
+    return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(address) ? address : null;
+  }
+
+  async send(recipient: NotificationRecipient, notification: ListingNotification): Promise<void> {
+    const digest = renderEmailDigest(notification, recipient.name);
+    await this.transporter.sendMail({
+      from: this.config.from,
+      to: recipient.address,
+      subject: digest.subject,
+      html: digest.html,
+      text: digest.text,
+    });
+  }
+}
@@ -0,0 +1,102 @@
+import { EnrichedListing, Listing } from '../../domain/entities/Listing.js';
+import { ListingNotification } from '../../domain/entities/Notification.js';
+
+export interface EmailDigest {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+const formatEuro = (value: number) => `${value.toLocaleString('de-DE', { maximumFractionDigits: 2 })} €`;
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Inline styles only - most mail clients drop <style> blocks
+export function renderEmailDigest(notification: ListingNotification, recipientName: string): EmailDigest {
+  const { newListings, priceDrops } = notification;
+  const parts: string[] = [];
+  if (newListings.length > 0) parts.push(`${newListings.length} new listing${newListings.length === 1 ? '' : 's'}`);
+  if (priceDrops.length > 0) parts.push(`${priceDrops.length} price drop${priceDrops.length === 1 ? '' : 's'}`);
+  const subject = `🏠 ${parts.join(', ')}`;
+
+  const sections: string[] = [];
+  const textSections: string[] = [];
+  if (newListings.length > 0) {
+    sections.push(section('New listings', newListings.map((l) => listingCard(l))));
+    textSections.push(...newListings.map((l) => listingText(l)));
+  }
+  if (priceDrops.length > 0) {
+    sections.push(
+      section(
+        'Price drops',
+        priceDrops.map((d) =>
+          listingCard(d.listing, `Price reduced from ${formatEuro(d.previousRent)} to ${formatEuro(d.currentRent)}`)
+        )
+      )
+    );
+    textSections.push(
+      ...priceDrops.map((d) =>
+        listingText(d.listing, `Price reduced from ${formatEuro(d.previousRent)} to ${formatEuro(d.currentRent)}`)
+      )
+    );
+  }
+
+  const html =
+    `<!DOCTYPE html><html><body style="margin:0;padding:16px;background:#f4f4f5;font-family:Arial,sans-serif;color:#18181b">` +
+    `<div style="max-width:600px;margin:0 auto">` +
+    `<p style="font-size:16px">Hi ${escapeHtml(recipientName)}, here is what your searches found:</p>` +
+    sections.join('') +
+    `</div></body></html>`;
+
+  return { subject, html, text: `Hi ${recipientName}, here is what your searches found:\n\n${textSections.join('\n\n')}\n` };
+}
+
+function section(title: string, cards: string[]): string {
+  return `<h2 style="font-size:18px;margin:24px 0 8px">${escapeHtml(title)}</h2>${cards.join('')}`;
+}
+
+function facts(listing: Listing): string[] {
+  const lines: string[] = [];
+  if (listing.price) lines.push(`💰 ${listing.price}`);
+  if (listing.size) lines.push(`📐 ${listing.size}`);
+  if (listing.metrics?.pricePerSqm) lines.push(`📊 ${listing.metrics.pricePerSqm.toFixed(2).replace('.', ',')} €/m²`);
+  if (listing.address) lines.push(`📍 ${listing.address}`);
+  if (listing.distanceKm != null) {
+    lines.push(`📏 ${listing.distanceKm.toLocaleString('de-DE', { maximumFractionDigits: 1 })} km from your reference point`);
+  }
+  const details = (listing as EnrichedListing).details;
+  if (details?.availableFrom) lines.push(`📅 Available: ${details.availableFrom}`);
+  return lines;
+}
+
+function listingCard(listing: Listing, headline?: string): string {
+  const image = listing.image
+    ? `<a href="${escapeHtml(listing.link)}"><img src="${escapeHtml(listing.image)}" alt="" width="600" ` +
+      `style="display:block;width:100%;max-height:300px;object-fit:cover;border:0"></a>`
+    : '';
+  const warning =
+    listing.risk?.level === 'high'
+      ? `<p style="margin:0 0 8px;color:#b91c1c">⚠️ Possible scam: ${escapeHtml(listing.risk.reasons.join('; '))}</p>`
+      : '';
+  const links = [{ source: listing.source, link: listing.link }, ...(listing.alsoListedOn ?? [])]
+    .map((s) => `<a href="${escapeHtml(s.link)}" style="color:#2563eb">${escapeHtml(s.source)}</a>`)
+    .join(' · ');
+
+  return (
+    `<div style="background:#fff;border-radius:8px;overflow:hidden;margin-bottom:16px">` +
+    image +
+    `<div style="padding:12px 16px">` +
+    (headline ? `<p style="margin:0 0 8px;font-weight:bold;color:#15803d">📉 ${escapeHtml(headline)}</p>` : '') +
+    warning +
+    `<p style="margin:0 0 8px;font-size:16px;font-weight:bold">` +
+    `<a href="${escapeHtml(listing.link)}" style="color:#18181b;text-decoration:none">${escapeHtml(listing.title)}</a></p>` +
+    facts(listing).map((line) => `<p style="margin:0 0 4px">${escapeHtml(line)}</p>`).join('') +
+    `<p style="margin:8px 0 0">View on ${links}</p>` +
+    `</div></div>`
+  );
+}
+
+function listingText(listing: Listing, headline?: string): string {
+  return [headline, listing.title, ...facts(listing), listing.link].filter(Boolean).join('\n');
+}
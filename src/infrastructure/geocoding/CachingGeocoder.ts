@@ -0,0 +1,28 @@
+import { IGeocoder } from '../../domain/ports/IGeocoder.js';
+import { GeoPoint } from '../../domain/entities/GeoPoint.js';
+import { DatabaseConnection } from '../database/Database.js';
+
+// Listings keep reappearing with the same address - each one is looked up once.
+// "Not found" is cached too; errors are not.
+export class CachingGeocoder implements IGeocoder {
+  readonly name: string;
+
+  constructor(
+    private readonly geocoder: IGeocoder,
+    private readonly db: DatabaseConnection
+  ) {
+    this.name = geocoder.name;
+  }
+
+  async geocode(query: string): Promise<GeoPoint | null> {
+    const key = query.trim().replace(/\s+/g, ' ').toLowerCase();
+    if (!key) return null;
+
+    const cached = await this.db.getCachedGeocode(this.geocoder.name, key);
+    if (cached !== undefined) return cached;
+
+    const point = await this.geocoder.geocode(query);
+    await this.db.setCachedGeocode(this.geocoder.name, key, point);
+    return point;
+  }
+}
@@ -0,0 +1,56 @@
+import { IGeocoder } from '../../domain/ports/IGeocoder.js';
+import { GeoPoint } from '../../domain/entities/GeoPoint.js';
+
+interface NominatimResult {
+  lat: string;
+  lon: string;
+}
+
+// The public instance allows one request per second and requires an identifying User-Agent
+const MIN_REQUEST_INTERVAL_MS = 1100;
+
+// Any server speaking the Nominatim /search API: the public OSM instance, a self-hosted one, Photon's compatibility layer...
+export class NominatimGeocoder implements IGeocoder {
+  readonly name = 'nominatim';
+  private queue: Promise<unknown> = Promise.resolve();
+  private lastRequestAt = 0;
+
+  constructor(
+    private readonly baseUrl: string = 'https://nominatim.openstreetmap.org',
+    private readonly userAgent: string = 'apartment-scraper'
+  ) {}
+
+  // Requests are serialized to stay within the rate limit
+  geocode(query: string): Promise<GeoPoint | null> {
+    const result = this.queue.then(() => this.request(query));
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async request(query: string): Promise<GeoPoint | null> {
+    const wait = this.lastRequestAt + MIN_REQUEST_INTERVAL_MS - Date.now();
+    if (wait > 0) await new Promise((resolve) => setTimeout(resolve, wait));
+    this.lastRequestAt = Date.now();
+
+    const url = new URL('search', this.baseUrl.endsWith('/') ? this.baseUrl : `${this.baseUrl}/`);
+    url.searchParams.set('q', query);
+    url.searchParams.set('format', 'jsonv2');
+    url.searchParams.set('limit', '1');
+    url.searchParams.set('countrycodes', 'de');
+
+    const response = await fetch(url, {
+      headers: { 'User-Agent': this.userAgent, Accept: 'application/json', 'Accept-Language': 'de' },
+      signal: AbortSignal.timeout(15000),
+    });
+    if (!response.ok) {
+      throw new Error(`Geocoding failed with HTTP ${response.status}`);
+    }
+
+    const results = (await response.json()) as NominatimResult[];
+    if (!Array.isArray(results) || results.length === 0) return null;
+
+    const lat = parseFloat(results[0].lat);
+    const lon = parseFloat(results[0].lon);
+    return isNaN(lat) || isNaN(lon) ? null : { lat, lon };
+  }
+}
@@ -0,0 +1,79 @@
+import { existsSync, readFileSync } from 'fs';
+import { IGeocoder } from '../../domain/ports/IGeocoder.js';
+import { GeoPoint } from '../../domain/entities/GeoPoint.js';
+import { parseLocation } from '../../domain/services/MarketStatistics.js';
+import { ILogger, LoggerFactory } from '../logging/Logger.js';
+
+// GeoNames postal code format (the bundled geo/DE.txt or GeoNames' own DE.txt), tab separated:
+// country, postcode, place, admin names/codes (6 columns), latitude, longitude, accuracy
+const POSTCODE_COLUMN = 1;
+const PLACE_COLUMN = 2;
+const LAT_COLUMN = 9;
+const LON_COLUMN = 10;
+
+interface Centroid {
+  lat: number;
+  lon: number;
+  count: number;
+}
+
+// Offline geocoding to the centre of a postcode area - no requests, no rate limits.
+// Addresses without a postcode fall back to the mean of all postcodes of their place name.
+export class PostcodeCentroidGeocoder implements IGeocoder {
+  readonly name = 'postcodes';
+  private readonly logger: ILogger;
+  private postcodes: Map<string, GeoPoint> | null = null;
+  private places = new Map<string, GeoPoint>();
+
+  constructor(private readonly dataFile: string) {
+    this.logger = LoggerFactory.create('PostcodeCentroidGeocoder');
+  }
+
+  async geocode(query: string): Promise<GeoPoint | null> {
+    const postcodes = this.load();
+    const trimmed = query.trim();
+    const { postcode, city } = parseLocation(trimmed);
+
+    if (postcode && postcodes.has(postcode)) return postcodes.get(postcode)!;
+    const place = city ?? trimmed;
+    return this.places.get(place.toLowerCase()) ?? null;
+  }
+
+  // Read on first use; a missing file leaves every address unlocated instead of failing the scrape
+  private load(): Map<string, GeoPoint> {
+    if (this.postcodes) return this.postcodes;
+    this.postcodes = new Map();
+
+    if (!existsSync(this.dataFile)) {
+      this.logger.warn(`Postcode data ${this.dataFile} not found - distances are unavailable`);
+      return this.postcodes;
+    }
+
+    const byPostcode = new Map<string, Centroid>();
+    const byPlace = new Map<string, Centroid>();
+    const add = (map: Map<string, Centroid>, key: string, lat: number, lon: number) => {
+      const centroid = map.get(key) ?? { lat: 0, lon: 0, count: 0 };
+      centroid.lat += lat;
+      centroid.lon += lon;
+      centroid.count++;
+      map.set(key, centroid);
+    };
+
+    for (const line of readFileSync(this.dataFile, 'utf-8').split('\n')) {
+      const columns = line.split('\t');
+      const lat = parseFloat(columns[LAT_COLUMN]);
+      const lon = parseFloat(columns[LON_COLUMN]);
+      if (!columns[POSTCODE_COLUMN] || isNaN(lat) || isNaN(lon)) continue;
+
+      // A postcode can span several places and vice versa - both get the mean of their rows
+      add(byPostcode, columns[POSTCODE_COLUMN], lat, lon);
+      if (columns[PLACE_COLUMN]) add(byPlace, columns[PLACE_COLUMN].toLowerCase(), lat, lon);
+    }
+
+    const toPoint = (c: Centroid): GeoPoint => ({ lat: c.lat / c.count, lon: c.lon / c.count });
+    this.postcodes = new Map(Array.from(byPostcode, ([key, c]) => [key, toPoint(c)]));
+    this.places = new Map(Array.from(byPlace, ([key, c]) => [key, toPoint(c)]));
+    this.logger.info(`Loaded ${this.postcodes.size} postcodes and ${this.places.size} places`);
+    return this.postcodes;
+  }
+}
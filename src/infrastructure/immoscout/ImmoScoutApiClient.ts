@@ -0,0 +1,50 @@
+import { ImmoScoutSearchPage, ImmoScoutSearchResponse } from './ImmoScoutTypes.js';
+import { ImmoScoutUrlConverter } from './ImmoScoutUrlConverter.js';
+import { HttpStatusError } from '../utils/errors.js';
+
+const API_BASE_URL = 'https://api.mobile.immobilienscout24.de';
+const WEB_BASE_URL = 'https://www.immobilienscout24.de';
+const USER_AGENT = 'ImmoScout_27.12_26.2_._';
+const REQUEST_TIMEOUT_MS = 30000;
+
+// Stateless client - safe to share between users and searches
+export class ImmoScoutApiClient {
+  async search(webUrl: string, pageNumber = 1): Promise<ImmoScoutSearchPage> {
+    const params = ImmoScoutUrlConverter.toApiParams(webUrl);
+    params.set('pagenumber', String(pageNumber));
+
+    const response = await fetch(`${API_BASE_URL}/search/list?${params.toString()}`, {
+      method: 'POST',
+      headers: {
+        'User-Agent': USER_AGENT,
+        'Content-Type': 'application/json',
+        Accept: 'application/json',
+      },
+      body: JSON.stringify({ supportedResultListTypes: [], userData: {} }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      throw new HttpStatusError(
+        response.status,
+        `ImmoScout API returned HTTP ${response.status} ${response.statusText}`
+      );
+    }
+
+    const body = (await response.json()) as ImmoScoutSearchResponse;
+    const exposes = (body.resultListItems ?? [])
+      .filter((entry) => entry.type === 'EXPOSE_RESULT' && entry.item)
+      .map((entry) => entry.item!);
+
+    return {
+      exposes,
+      pageNumber: body.pageNumber ?? pageNumber,
+      numberOfPages: body.numberOfPages ?? 1,
+      totalResults: body.totalResults ?? exposes.length,
+    };
+  }
+
+  static exposeUrl(id: string): string {
+    return `${WEB_BASE_URL}/expose/${id}`;
+  }
+}
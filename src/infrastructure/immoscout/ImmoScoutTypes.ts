@@ -0,0 +1,44 @@
+// Response models of the ImmoScout24 mobile search API (only the fields we use)
+
+export interface ImmoScoutAttribute {
+  label?: string;
+  value: string;
+}
+
+export interface ImmoScoutExpose {
+  id: string;
+  title: string;
+  address?: {
+    line?: string;
+    lat?: number;
+    lon?: number;
+  };
+  attributes?: ImmoScoutAttribute[];
+  titlePicture?: {
+    preview?: string;
+    full?: string;
+  };
+  published?: string;
+  isPrivate?: boolean;
+  listingType?: string;
+}
+
+export interface ImmoScoutResultListItem {
+  type: string;
+  item?: ImmoScoutExpose;
+}
+
+export interface ImmoScoutSearchResponse {
+  totalResults?: number;
+  pageSize?: number;
+  pageNumber?: number;
+  numberOfPages?: number;
+  resultListItems?: ImmoScoutResultListItem[];
+}
+
+export interface ImmoScoutSearchPage {
+  exposes: ImmoScoutExpose[];
+  pageNumber: number;
+  numberOfPages: number;
+  totalResults: number;
+}
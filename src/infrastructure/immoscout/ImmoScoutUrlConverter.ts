@@ -0,0 +1,74 @@
+// Converts an ImmoScout24 web search URL into mobile API search parameters.
+// e.g. /Suche/de/bayern/muenchen/wohnung-mieten?price=-2000.0
+//   -> searchType=region&realestatetype=apartmentrent&geocodes=/de/bayern/muenchen&price=-2000.0
+
+const REAL_ESTATE_TYPES: Record<string, string> = {
+  'wohnung-mieten': 'apartmentrent',
+  'wohnung-kaufen': 'apartmentbuy',
+  'haus-mieten': 'houserent',
+  'haus-kaufen': 'housebuy',
+  'wg-zimmer': 'flatshareroom',
+  'wohnen-auf-zeit': 'shorttermaccommodation',
+};
+
+// Web query parameters the mobile API understands under the same name
+const PASSTHROUGH_PARAMS = [
+  'price',
+  'pricetype',
+  'livingspace',
+  'numberofrooms',
+  'exclusioncriteria',
+  'equipment',
+  'haspromotion',
+  'constructionyear',
+  'floor',
+  'newbuilding',
+  'apartmenttypes',
+  'energyefficiencyclasses',
+  'heatingtypes',
+  'petsallowedtypes',
+  'minimuminternetspeed',
+  'geocoordinates',
+];
+
+const NEWEST_FIRST = '-firstactivation';
+
+export class ImmoScoutUrlConverter {
+  static toApiParams(webUrl: string): URLSearchParams {
+    const parsed = new URL(webUrl);
+    const segments = parsed.pathname.split('/').filter(Boolean);
+
+    if (segments[0]?.toLowerCase() !== 'suche' || segments.length < 3) {
+      throw new Error(`Unsupported ImmoScout search URL: ${parsed.pathname}`);
+    }
+
+    const typeSegment = segments[segments.length - 1];
+    const realEstateType = REAL_ESTATE_TYPES[typeSegment];
+    if (!realEstateType) {
+      throw new Error(`Unsupported ImmoScout real estate type: ${typeSegment}`);
+    }
+
+    const params = new URLSearchParams();
+    const isRadius = segments[1] === 'radius';
+    params.set('searchType', isRadius ? 'radius' : 'region');
+    params.set('realestatetype', realEstateType);
+
+    if (!isRadius) {
+      // Numeric geocodes win over the path (/de/bayern/muenchen)
+      const geocodes = parsed.searchParams.get('geocodes') || `/${segments.slice(1, -1).join('/')}`;
+      params.set('geocodes', geocodes);
+    }
+
+    for (const name of PASSTHROUGH_PARAMS) {
+      const value = parsed.searchParams.get(name);
+      if (value) params.set(name, value);
+    }
+
+    // The web uses numeric sort codes (sorting=2) the API doesn't know - always sort newest first
+    // unless the URL already carries an API sort value
+    const sorting = parsed.searchParams.get('sorting');
+    params.set('sorting', sorting && !/^\d+$/.test(sorting) ? sorting : NEWEST_FIRST);
+
+    return params;
+  }
+}
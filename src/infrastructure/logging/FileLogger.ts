@@ -7,7 +7,9 @@ export type LogEventType =
   | 'SEARCH_UPDATED'
   | 'SEARCH_REMOVED'
   | 'SCRAPING_ERROR'
-  | 'CRITICAL_ERROR';
+  | 'CRITICAL_ERROR'
+  | 'CIRCUIT_OPENED'
+  | 'CIRCUIT_CLOSED';
 
 export interface LogEvent {
   timestamp: string;
@@ -74,11 +76,11 @@ export class FileLogger {
     });
   }
 
-  logScrapingError(provider: string, error: string, userId?: string, url?: string): void {
+  logScrapingError(provider: string, error: string, userId?: string, url?: string, artifactId?: string | null): void {
     this.write({
       timestamp: new Date().toISOString(),
       type: 'SCRAPING_ERROR',
-      data: { provider, error, userId, url },
+      data: { provider, error, userId, url, artifactId },
     });
   }
 
@@ -90,6 +92,22 @@ export class FileLogger {
     });
   }
 
+  logCircuitOpened(provider: string, key: string, cause: string, until: Date): void {
+    this.write({
+      timestamp: new Date().toISOString(),
+      type: 'CIRCUIT_OPENED',
+      data: { provider, key, cause, until: until.toISOString() },
+    });
+  }
+
+  logCircuitClosed(provider: string, key: string): void {
+    this.write({
+      timestamp: new Date().toISOString(),
+      type: 'CIRCUIT_CLOSED',
+      data: { provider, key },
+    });
+  }
+
   getRecentLogs(count: number = 20): LogEvent[] {
     try {
       if (!fs.existsSync(this.logPath)) {
@@ -9,6 +9,7 @@ export class MonitoringService {
   private adminBot: AdminBot | null = null;
   private errorAlertsEnabled = true;
   private currentIterationErrors: Map<string, string[]> = new Map(); // provider -> userIds
+  private currentIterationArtifacts: Map<string, string> = new Map(); // provider -> latest artifact id
   private consecutiveFailedIterations = 0;
   private notifiedForCurrentStreak = false;
 
@@ -57,6 +58,7 @@ export class MonitoringService {
 
   onIterationStart(): void {
     this.currentIterationErrors = new Map();
+    this.currentIterationArtifacts = new Map();
   }
 
   async onIterationEnd(): Promise<void> {
@@ -83,6 +85,7 @@ export class MonitoringService {
           message: `${this.consecutiveFailedIterations} consecutive iterations with errors.\n${totalUsers} users affected in last iteration.\nBy provider: ${providerSummary}`,
           provider: 'Multiple',
           source: 'Scraper',
+          artifactIds: Array.from(this.currentIterationArtifacts.values()),
         };
         await this.adminBot?.notifyError(details);
       }
@@ -97,10 +100,14 @@ export class MonitoringService {
     error: Error | string,
     userId?: string,
     url?: string,
-    _userName?: string
+    _userName?: string,
+    artifactId?: string | null
   ): Promise<void> {
     const errorMessage = error instanceof Error ? error.message : error;
-    this.fileLogger.logScrapingError(provider, errorMessage, userId, url);
+    this.fileLogger.logScrapingError(provider, errorMessage, userId, url, artifactId);
+    if (artifactId) {
+      this.currentIterationArtifacts.set(provider, artifactId);
+    }
 
     const userKey = userId || url || 'unknown';
     const existing = this.currentIterationErrors.get(provider) || [];
@@ -110,6 +117,16 @@ export class MonitoringService {
     this.currentIterationErrors.set(provider, existing);
   }
 
+  async logCircuitOpened(provider: string, key: string, cause: string, until: Date): Promise<void> {
+    this.fileLogger.logCircuitOpened(provider, key, cause, until);
+    await this.adminBot?.notifyCircuitOpened(provider, key, cause, until);
+  }
+
+  async logCircuitClosed(provider: string, key: string): Promise<void> {
+    this.fileLogger.logCircuitClosed(provider, key);
+    await this.adminBot?.notifyCircuitClosed(provider, key);
+  }
+
   async logCriticalError(
     source: string,
     error: Error | string,
@@ -0,0 +1,153 @@
+import { ILogger, LoggerFactory } from '../logging/Logger.js';
+import { ScrapeErrorKind, isBlockingError } from '../utils/errors.js';
+import { RetryOptions } from '../utils/retry.js';
+import { MonitoringService } from './MonitoringService.js';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+export type CircuitScope = 'portal' | 'url';
+
+export interface CircuitBreakerOptions {
+  // Blocking errors (403/429/CAPTCHA) in a row before the circuit opens
+  failureThreshold: number;
+  cooldownMs: number;
+  // Track health per portal or per individual search URL
+  scope: CircuitScope;
+  retry: RetryOptions;
+}
+
+export interface ProviderHealth {
+  key: string;
+  provider: string;
+  state: CircuitState;
+  consecutiveErrors: number;
+  consecutiveBlocks: number;
+  lastErrorKind: ScrapeErrorKind | null;
+  lastSuccessAt: Date | null;
+  openUntil: Date | null;
+  // A half-open circuit lets exactly one scrape through until its result is recorded
+  probeInFlight: boolean;
+}
+
+const DEFAULT_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: 3,
+  cooldownMs: 30 * 60 * 1000,
+  scope: 'portal',
+  retry: { retries: 2, baseDelayMs: 2000 },
+};
+
+// Provider instances are recreated every iteration, so health lives here instead
+export class ProviderHealthRegistry {
+  private static instance: ProviderHealthRegistry | null = null;
+  private readonly logger: ILogger;
+  private readonly health = new Map<string, ProviderHealth>();
+  private options: CircuitBreakerOptions = DEFAULT_OPTIONS;
+
+  private constructor() {
+    this.logger = LoggerFactory.create('ProviderHealth');
+  }
+
+  static getInstance(): ProviderHealthRegistry {
+    if (!ProviderHealthRegistry.instance) {
+      ProviderHealthRegistry.instance = new ProviderHealthRegistry();
+    }
+    return ProviderHealthRegistry.instance;
+  }
+
+  configure(options: Partial<CircuitBreakerOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  getRetryOptions(): RetryOptions {
+    return this.options.retry;
+  }
+
+  keyFor(provider: string, url: string): string {
+    return this.options.scope === 'url' ? `${provider} ${url}` : provider;
+  }
+
+  // An open circuit lets a single probe through once the cool-down has passed; everyone
+  // else keeps waiting until the probe's result is recorded
+  canAttempt(key: string): boolean {
+    const entry = this.health.get(key);
+    if (!entry || entry.state === 'closed') return true;
+    if (entry.probeInFlight) return false;
+
+    if (entry.openUntil && entry.openUntil.getTime() <= Date.now()) {
+      entry.state = 'half_open';
+      entry.probeInFlight = true;
+      this.logger.info(`Circuit half-open, probing`, { key });
+      return true;
+    }
+    return false;
+  }
+
+  recordSuccess(key: string, provider: string): void {
+    const entry = this.getOrCreate(key, provider);
+    const wasOpen = entry.state !== 'closed';
+    const previousErrors = entry.consecutiveErrors;
+
+    entry.state = 'closed';
+    entry.consecutiveErrors = 0;
+    entry.consecutiveBlocks = 0;
+    entry.openUntil = null;
+    entry.probeInFlight = false;
+    entry.lastSuccessAt = new Date();
+
+    if (previousErrors > 0) {
+      this.logger.info(`Provider recovered after ${previousErrors} consecutive errors`, { key });
+    }
+    if (wasOpen) {
+      MonitoringService.getInstance().logCircuitClosed(provider, key).catch(() => {});
+    }
+  }
+
+  recordFailure(key: string, provider: string, kind: ScrapeErrorKind): void {
+    const entry = this.getOrCreate(key, provider);
+    entry.consecutiveErrors++;
+    entry.lastErrorKind = kind;
+    entry.probeInFlight = false;
+    entry.consecutiveBlocks = isBlockingError(kind) ? entry.consecutiveBlocks + 1 : 0;
+
+    // A failed probe goes straight back to open
+    const shouldOpen =
+      entry.state === 'half_open' ||
+      (entry.state === 'closed' && entry.consecutiveBlocks >= this.options.failureThreshold);
+    if (!shouldOpen) return;
+
+    entry.state = 'open';
+    entry.openUntil = new Date(Date.now() + this.options.cooldownMs);
+    this.logger.warn(`Circuit opened for ${key}`, { kind, until: entry.openUntil.toISOString() });
+    MonitoringService.getInstance().logCircuitOpened(provider, key, kind, entry.openUntil).catch(() => {});
+  }
+
+  getConsecutiveErrors(key: string): number {
+    return this.health.get(key)?.consecutiveErrors ?? 0;
+  }
+
+  getState(key: string): CircuitState {
+    return this.health.get(key)?.state ?? 'closed';
+  }
+
+  getAll(): ProviderHealth[] {
+    return Array.from(this.health.values());
+  }
+
+  private getOrCreate(key: string, provider: string): ProviderHealth {
+    let entry = this.health.get(key);
+    if (!entry) {
+      entry = {
+        key,
+        provider,
+        state: 'closed',
+        consecutiveErrors: 0,
+        consecutiveBlocks: 0,
+        lastErrorKind: null,
+        lastSuccessAt: null,
+        openUntil: null,
+        probeInFlight: false,
+      };
+      this.health.set(key, entry);
+    }
+    return entry;
+  }
+}
@@ -1,8 +1,21 @@
 import { IListingProvider } from '../../domain/ports/IListingProvider.js';
 import { Listing, RawListing } from '../../domain/entities/Listing.js';
+import { PriceKind } from '../../domain/entities/ProviderConfig.js';
+import { parseListingMetrics } from '../../domain/services/ListingMetricsParser.js';
+import { parsePostedAt } from '../../domain/services/ListingDateParser.js';
 import { ILogger, LoggerFactory } from '../logging/Logger.js';
 import { MonitoringService } from '../monitoring/MonitoringService.js';
+import { ProviderHealthRegistry } from '../monitoring/ProviderHealthRegistry.js';
+import {
+  ScrapeError,
+  ScrapeErrorKind,
+  classifyScrapeError,
+  isBlockingError,
+  isTransientError,
+} from '../utils/errors.js';
 import { buildHash } from '../utils/hash.js';
+import { withRetry } from '../utils/retry.js';
+import { normalizeUrl } from '../utils/url.js';
 
 export interface ProviderError {
   provider: string;
@@ -15,38 +28,92 @@ export abstract class BaseProvider implements IListingProvider {
   abstract readonly name: string;
   abstract readonly id: string;
   protected readonly logger: ILogger;
-  private consecutiveErrors = 0;
   private lastError: ProviderError | null = null;
 
-  constructor(protected readonly url: string | undefined) {
-    this.logger = LoggerFactory.create(this.constructor.name);
+  constructor(protected readonly url: string | undefined, loggerName?: string) {
+    this.logger = LoggerFactory.create(loggerName ?? this.constructor.name);
   }
 
-  abstract scrape(maxResults: number): Promise<Listing[]>;
+  // Fetches the listings once - retries and the circuit breaker are handled by scrape()
+  protected abstract fetchListings(maxResults: number, checkpoints: Set<string>[]): Promise<Listing[]>;
+
+  async scrape(maxResults: number, checkpoints: Set<string>[] = []): Promise<Listing[]> {
+    if (!this.isEnabled()) return [];
+    // Subscribers on their first run have nothing to catch up on
+    const pending = checkpoints.filter((known) => known.size > 0);
+
+    const health = ProviderHealthRegistry.getInstance();
+    const healthKey = this.getHealthKey();
+    if (!health.canAttempt(healthKey)) {
+      this.logger.debug(`Circuit open, skipping scrape`, { key: healthKey });
+      return [];
+    }
+
+    const startTime = Date.now();
+
+    try {
+      const listings = await withRetry(
+        () => this.fetchListings(maxResults, pending),
+        health.getRetryOptions(),
+        (error) => isTransientError(classifyScrapeError(error)),
+        (error, attempt, delayMs) => {
+          this.logger.warn(`Transient error, retrying in ${delayMs}ms (retry #${attempt})`, {
+            error: error.message,
+          });
+        }
+      );
+      this.resetErrors();
+      return listings;
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.handleError(err, { duration: `${Date.now() - startTime}ms` });
+      return [];
+    }
+  }
 
   isEnabled(): boolean {
     return !!this.url;
   }
 
+  getCacheKey(): string | null {
+    return this.url ? normalizeUrl(this.buildSearchUrl()) : null;
+  }
+
+  // The URL actually requested - providers that rewrite it (sorting, etc.) override this
+  protected buildSearchUrl(): string {
+    return this.url!;
+  }
+
   getLastError(): ProviderError | null {
     return this.lastError;
   }
 
   getConsecutiveErrors(): number {
-    return this.consecutiveErrors;
+    return ProviderHealthRegistry.getInstance().getConsecutiveErrors(this.getHealthKey());
+  }
+
+  isCircuitOpen(): boolean {
+    return ProviderHealthRegistry.getInstance().getState(this.getHealthKey()) === 'open';
+  }
+
+  private getHealthKey(): string {
+    return ProviderHealthRegistry.getInstance().keyFor(this.name, this.getCacheKey() ?? '');
   }
 
   protected resetErrors(): void {
-    if (this.consecutiveErrors > 0) {
-      this.logger.info(`Provider recovered after ${this.consecutiveErrors} consecutive errors`);
-    }
-    this.consecutiveErrors = 0;
+    ProviderHealthRegistry.getInstance().recordSuccess(this.getHealthKey(), this.name);
     this.lastError = null;
   }
 
   protected handleError(error: Error, context?: Record<string, unknown>, userName?: string): void {
-    this.consecutiveErrors++;
-    const possibleCause = this.detectPossibleCause(error);
+    const kind = classifyScrapeError(error);
+    const health = ProviderHealthRegistry.getInstance();
+    health.recordFailure(this.getHealthKey(), this.name, kind);
+    if (isBlockingError(kind)) {
+      this.onBlocked();
+    }
+    const consecutiveErrors = this.getConsecutiveErrors();
+    const possibleCause = this.detectPossibleCause(kind);
 
     this.lastError = {
       provider: this.name,
@@ -56,17 +123,17 @@ export abstract class BaseProvider implements IListingProvider {
     };
 
     this.logger.error(
-      `Scraping failed (attempt #${this.consecutiveErrors})`,
+      `Scraping failed (attempt #${consecutiveErrors})`,
       error,
       {
         possibleCause,
-        consecutiveErrors: this.consecutiveErrors,
+        consecutiveErrors,
         url: this.url?.substring(0, 50) + '...',
         ...context,
       }
     );
 
-    // Notify admin on first error (not waiting for consecutive errors since providers are recreated each cycle)
+    // Counted towards the iteration summary; circuit open/close is reported by the health registry
     const enrichedError = new Error(`${possibleCause}\n${error.message}`);
     enrichedError.stack = error.stack;
     MonitoringService.getInstance().logScrapingError(
@@ -74,51 +141,49 @@ export abstract class BaseProvider implements IListingProvider {
       enrichedError,
       undefined,
       this.url,
-      userName
+      userName,
+      error instanceof ScrapeError ? error.artifactId : null
     ).catch(() => {});
 
-    if (this.consecutiveErrors >= 3) {
+    if (consecutiveErrors >= 3) {
       this.logger.warn(
-        `⚠️ ALERT: ${this.name} has failed ${this.consecutiveErrors} times in a row. Possible blocking or site changes!`,
+        `⚠️ ALERT: ${this.name} has failed ${consecutiveErrors} times in a row. Possible blocking or site changes!`,
         { possibleCause }
       );
     }
   }
 
-  private detectPossibleCause(error: Error): string {
-    const message = error.message.toLowerCase();
-
-    if (message.includes('timeout')) {
-      return 'Request timeout - site may be slow or blocking';
-    }
-    if (message.includes('403') || message.includes('forbidden')) {
-      return 'HTTP 403 Forbidden - likely IP blocked or bot detection';
-    }
-    if (message.includes('429') || message.includes('too many')) {
-      return 'HTTP 429 Too Many Requests - rate limited';
-    }
-    if (message.includes('captcha')) {
-      return 'CAPTCHA detected - bot protection triggered';
-    }
-    if (message.includes('selector') || message.includes('element')) {
-      return 'Selector not found - site structure may have changed';
+  // Hook for providers that can react to being blocked, e.g. by switching proxies
+  protected onBlocked(): void {}
+
+  private detectPossibleCause(kind: ScrapeErrorKind): string {
+    switch (kind) {
+      case 'timeout':
+        return 'Request timeout - site may be slow or blocking';
+      case 'forbidden':
+        return 'HTTP 403 Forbidden - likely IP blocked or bot detection';
+      case 'rate_limited':
+        return 'HTTP 429 Too Many Requests - rate limited';
+      case 'captcha':
+        return 'CAPTCHA detected - bot protection triggered';
+      case 'selector':
+        return 'Selector not found - site structure may have changed';
+      case 'network':
+        return 'Navigation failed - network issue or site down';
+      case 'blocked':
+        return 'Access denied - likely blocked by the website';
+      default:
+        return 'Unknown error - check logs for details';
     }
-    if (message.includes('navigation') || message.includes('net::')) {
-      return 'Navigation failed - network issue or site down';
-    }
-    if (message.includes('blocked') || message.includes('denied')) {
-      return 'Access denied - likely blocked by the website';
-    }
-
-    return 'Unknown error - check logs for details';
   }
 
   protected normalizeListing(raw: RawListing, source: string): Listing {
     const title = raw.title?.replace('NEU', '').trim() || 'N/A';
     const address = raw.address?.replace(/\(.*\),.*$/, '').trim() || 'N/A';
-    const hash = buildHash(raw.id, raw.price);
+    // Identity only - a listing whose rent changes is still the same listing
+    const hash = buildHash(raw.id || raw.link);
 
-    return {
+    const listing: Listing = {
       id: raw.id || hash,
       title,
       price: raw.price || null,
@@ -129,7 +194,20 @@ export abstract class BaseProvider implements IListingProvider {
       image: raw.image || null,
       hash,
       source,
+      postedAt: parsePostedAt(raw.postedAt),
+      promoted: !!raw.promoted,
     };
+    return { ...listing, metrics: parseListingMetrics(listing, this.getPriceKind()) };
+  }
+
+  // Paging can stop once the listings so far contain a checkpoint of every subscriber
+  protected reachedCheckpoints(listings: Listing[], checkpoints: Set<string>[]): boolean {
+    return checkpoints.every((known) => listings.some((l) => known.has(l.hash)));
+  }
+
+  // What the card price means for this portal
+  protected getPriceKind(): PriceKind {
+    return 'cold';
   }
 
   protected isValidListing(raw: RawListing): boolean {
@@ -1,6 +1,13 @@
 import { BaseProvider } from './BaseProvider.js';
-import { IBrowserService } from '../../domain/ports/IBrowserService.js';
-import { Listing, RawListing } from '../../domain/entities/Listing.js';
+import { IBrowserService, ScrapedPage, ScrapeOptions } from '../../domain/ports/IBrowserService.js';
+import { EnrichedListing, Listing, ListingDetails, RawListing } from '../../domain/entities/Listing.js';
+import { DetailPageConfig, PaginationConfig, ResourceRules } from '../../domain/entities/ProviderConfig.js';
+import { parseListingMetrics } from '../../domain/services/ListingMetricsParser.js';
+import { SnapshotStore } from '../snapshots/SnapshotStore.js';
+import { ScrapeError } from '../utils/errors.js';
+
+// Challenge pages served instead of results (reCAPTCHA, hCaptcha, Cloudflare, GeeTest)
+const CAPTCHA_PATTERN = /captcha|cf-challenge|challenge-platform|geetest/i;
 
 export interface BrowserProviderOptions {
   crawlContainer: string;
@@ -8,6 +15,9 @@ export interface BrowserProviderOptions {
   waitForSelector?: string;
   sortByDateParam?: string;
   sortByDatePathSegment?: string;
+  pagination?: PaginationConfig;
+  detailPage?: DetailPageConfig;
+  resources?: ResourceRules;
 }
 
 export abstract class BrowserBasedProvider extends BaseProvider {
@@ -15,58 +25,183 @@ export abstract class BrowserBasedProvider extends BaseProvider {
 
   constructor(
     url: string | undefined,
-    protected readonly browserService: IBrowserService
+    protected readonly browserService: IBrowserService,
+    loggerName?: string
   ) {
-    super(url);
+    super(url, loggerName);
   }
 
-  async scrape(maxResults: number): Promise<Listing[]> {
-    if (!this.isEnabled()) return [];
+  protected async fetchListings(maxResults: number, checkpoints: Set<string>[]): Promise<Listing[]> {
+    const fullUrl = this.buildSearchUrl();
+    const { listings: rawListings, nextPageUrl, html, artifactId } = await this.scrapePage(fullUrl);
 
-    const startTime = Date.now();
+    const validListings = rawListings.filter((l) => this.isValidListing(l));
+    const listings = validListings.slice(0, maxResults).map((l) => this.transformListing(l));
 
-    try {
-      let fullUrl = this.url!;
-      if (this.options.sortByDateParam && !fullUrl.includes(this.options.sortByDateParam)) {
-        fullUrl += (fullUrl.includes('?') ? '&' : '?') + this.options.sortByDateParam;
-      }
-      if (this.options.sortByDatePathSegment && !fullUrl.includes(this.options.sortByDatePathSegment)) {
-        const url = new URL(fullUrl);
-        url.pathname = url.pathname.replace(/\/?$/, '/' + this.options.sortByDatePathSegment);
-        fullUrl = url.toString();
+    if (rawListings.length === 0) {
+      if (html) {
+        SnapshotStore.getInstance().save({ providerId: this.id, url: fullUrl, reason: 'failure' }, html);
+        if (CAPTCHA_PATTERN.test(html)) {
+          throw new ScrapeError('CAPTCHA detected - no listings found', artifactId ?? null);
+        }
       }
+      throw new ScrapeError('No listings found - possible blocking or selector change', artifactId ?? null);
+    }
 
-      const rawListings = await this.browserService.scrape(
-        fullUrl,
-        this.options.crawlContainer,
-        this.options.crawlFields,
-        this.options.waitForSelector
-      );
+    if (validListings.length < rawListings.length * 0.5) {
+      this.logger.warn(`Many invalid listings filtered out`, {
+        raw: rawListings.length,
+        valid: validListings.length,
+        filtered: rawListings.length - validListings.length,
+      });
+    }
 
-      const validListings = rawListings.filter((l) => this.isValidListing(l));
-      const listings = validListings.slice(0, maxResults).map((l) => this.transformListing(l));
+    // First run has nothing to catch up on - one page is enough
+    if (this.options.pagination && checkpoints.length > 0) {
+      await this.scrapeFollowingPages(fullUrl, nextPageUrl, listings, maxResults, checkpoints);
+    }
 
-      if (rawListings.length === 0) {
-        throw new Error('No listings found - possible blocking or selector change');
-      }
+    return listings;
+  }
+
+  // Saves the current result page for the provider doctor, regardless of what it contains
+  async captureSnapshot(store: SnapshotStore = SnapshotStore.getInstance()): Promise<string | null> {
+    if (!this.isEnabled()) return null;
 
-      if (validListings.length < rawListings.length * 0.5) {
-        this.logger.warn(`Many invalid listings filtered out`, {
-          raw: rawListings.length,
-          valid: validListings.length,
-          filtered: rawListings.length - validListings.length,
+    const fullUrl = this.buildSearchUrl();
+    const { html } = await this.scrapePage(fullUrl, { captureHtml: true });
+    if (!html) return null;
+    return store.save({ providerId: this.id, url: fullUrl, reason: 'manual' }, html);
+  }
+
+  // Validates and normalizes extracted cards like a scrape does, without health tracking or logging
+  toListings(rawListings: RawListing[]): Listing[] {
+    return rawListings.filter((l) => this.isValidListing(l)).map((l) => this.transformListing(l));
+  }
+
+  protected buildSearchUrl(): string {
+    let fullUrl = this.url!;
+    if (this.options.sortByDateParam && !fullUrl.includes(this.options.sortByDateParam)) {
+      fullUrl += (fullUrl.includes('?') ? '&' : '?') + this.options.sortByDateParam;
+    }
+    if (this.options.sortByDatePathSegment && !fullUrl.includes(this.options.sortByDatePathSegment)) {
+      const url = new URL(fullUrl);
+      url.pathname = url.pathname.replace(/\/?$/, '/' + this.options.sortByDatePathSegment);
+      fullUrl = url.toString();
+    }
+    return fullUrl;
+  }
+
+  private scrapePage(
+    url: string,
+    options: Pick<ScrapeOptions, 'captureHtml' | 'followUpPage'> = {}
+  ): Promise<ScrapedPage> {
+    return this.browserService.scrape(url, this.options.crawlContainer, this.options.crawlFields, {
+      ...options,
+      waitForSelector: this.options.waitForSelector,
+      nextPageSelector: this.options.pagination?.nextPageSelector,
+      providerId: this.id,
+      resources: this.options.resources,
+    });
+  }
+
+  // Keeps loading result pages until every subscriber's checkpoints show up or the page limit is hit.
+  // Listings are appended to `listings` in page order.
+  private async scrapeFollowingPages(
+    firstPageUrl: string,
+    firstNextPageUrl: string | null,
+    listings: Listing[],
+    maxResults: number,
+    checkpoints: Set<string>[]
+  ): Promise<void> {
+    const pagination = this.options.pagination!;
+    const seen = new Set(listings.map((l) => l.hash));
+    let reachedKnown = this.reachedCheckpoints(listings, checkpoints);
+    let nextPageUrl = firstNextPageUrl;
+
+    for (let page = 2; page <= pagination.maxPages && !reachedKnown; page++) {
+      const pageUrl = pagination.nextPageSelector ? nextPageUrl : this.buildPageUrl(firstPageUrl, page);
+      if (!pageUrl) break;
+
+      let result: ScrapedPage;
+      try {
+        result = await this.scrapePage(pageUrl, { followUpPage: true });
+      } catch (error) {
+        // Keep what we already have - a failing follow-up page shouldn't drop page 1
+        this.logger.warn(`Failed to load result page ${page}`, {
+          error: error instanceof Error ? error.message : String(error),
         });
+        break;
       }
 
-      this.resetErrors();
-      return listings;
+      const pageListings = result.listings
+        .filter((l) => this.isValidListing(l))
+        .slice(0, maxResults)
+        .map((l) => this.transformListing(l))
+        // Listings can slide onto the next page while we paginate
+        .filter((l) => !seen.has(l.hash));
+
+      if (pageListings.length === 0) break;
+
+      for (const listing of pageListings) {
+        seen.add(listing.hash);
+        listings.push(listing);
+      }
+      reachedKnown = this.reachedCheckpoints(listings, checkpoints);
+      nextPageUrl = result.nextPageUrl;
+    }
+  }
+
+  private buildPageUrl(url: string, page: number): string | null {
+    const pageParam = this.options.pagination?.pageParam;
+    if (!pageParam) return null;
+
+    const parsed = new URL(url);
+    parsed.searchParams.set(pageParam, String(page));
+    return parsed.toString();
+  }
+
+  async enrich(listing: Listing): Promise<Listing> {
+    const detailPage = this.options.detailPage;
+    if (!detailPage || !listing.link) return listing;
+
+    try {
+      const values = await this.browserService.scrapeDetails(listing.link, detailPage, {
+        providerId: this.id,
+        resources: this.options.resources,
+      });
+      const details: ListingDetails = {
+        rooms: values.rooms ?? null,
+        floor: values.floor ?? null,
+        availableFrom: values.availableFrom ?? null,
+        coldRent: values.coldRent ?? null,
+        warmRent: values.warmRent ?? null,
+        deposit: values.deposit ?? null,
+        energyClass: values.energyClass ?? null,
+        description: values.description ?? null,
+      };
+
+      const enriched: EnrichedListing = {
+        ...listing,
+        description: details.description || listing.description,
+        details,
+      };
+      // Detail pages often carry the exact rent split and rooms
+      return { ...enriched, metrics: parseListingMetrics(enriched, this.getPriceKind()) };
     } catch (error) {
-      const err = error instanceof Error ? error : new Error(String(error));
-      this.handleError(err, { duration: `${Date.now() - startTime}ms` });
-      return [];
+      // Enrichment is best effort - the listing is still worth sending without details
+      this.logger.warn(`Failed to enrich listing`, {
+        link: listing.link,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return listing;
     }
   }
 
+  protected onBlocked(): void {
+    this.browserService.reportBlocked?.(this.id);
+  }
+
   protected transformListing(raw: RawListing): Listing {
     return this.normalizeListing(raw, this.name);
   }
@@ -0,0 +1,66 @@
+import { BrowserBasedProvider, BrowserProviderOptions } from './BrowserBasedProvider.js';
+import { IBrowserService } from '../../domain/ports/IBrowserService.js';
+import { Listing, RawListing } from '../../domain/entities/Listing.js';
+import { PriceKind, ProviderDefinition, UrlRewriteRule } from '../../domain/entities/ProviderConfig.js';
+
+export class DeclarativeProvider extends BrowserBasedProvider {
+  readonly name: string;
+  readonly id: string;
+  protected readonly options: BrowserProviderOptions;
+
+  constructor(
+    url: string | undefined,
+    private readonly definition: ProviderDefinition,
+    browserService: IBrowserService
+  ) {
+    super(url ? DeclarativeProvider.rewriteUrl(url, definition) : url, browserService, definition.name);
+    this.name = definition.name;
+    this.id = definition.id;
+    this.options = {
+      crawlContainer: definition.crawlContainer!,
+      crawlFields: definition.crawlFields!,
+      waitForSelector: definition.waitForSelector,
+      sortByDateParam: definition.sortByDateParam,
+      sortByDatePathSegment: definition.sortByDatePathSegment,
+      pagination: definition.pagination,
+      detailPage: definition.detailPage,
+      resources: definition.resources,
+    };
+  }
+
+  private static rewriteUrl(url: string, definition: ProviderDefinition): string {
+    const rewritten = DeclarativeProvider.applyRewrites(url, definition.urlRewrites);
+    if (!definition.removeParams?.length) return rewritten;
+
+    try {
+      const parsed = new URL(rewritten);
+      definition.removeParams.forEach((param) => parsed.searchParams.delete(param));
+      return parsed.toString();
+    } catch {
+      return rewritten;
+    }
+  }
+
+  private static applyRewrites(value: string, rules: UrlRewriteRule[] | undefined): string {
+    return (rules ?? []).reduce((current, rule) => current.replace(new RegExp(rule.pattern), rule.replacement), value);
+  }
+
+  protected getPriceKind(): PriceKind {
+    return this.definition.priceKind ?? 'cold';
+  }
+
+  protected transformListing(raw: RawListing): Listing {
+    const listing = this.normalizeListing(raw, this.name);
+
+    // Fix relative links
+    if (listing.link && !listing.link.startsWith('http') && this.definition.linkBaseUrl) {
+      listing.link = `${this.definition.linkBaseUrl}${listing.link.startsWith('/') ? '' : '/'}${listing.link}`;
+    }
+
+    if (listing.image) {
+      listing.image = DeclarativeProvider.applyRewrites(listing.image, this.definition.imageRewrites);
+    }
+
+    return listing;
+  }
+}
@@ -1,59 +1,101 @@
 import { BaseProvider } from './BaseProvider.js';
-import { Listing, RawListing } from '../../domain/entities/Listing.js';
-// @ts-ignore - Fredy doesn't have types
-import * as immoscout from 'fredy/lib/provider/immoscout.js';
+import { EnrichedListing, Listing } from '../../domain/entities/Listing.js';
+import { parseListingMetrics } from '../../domain/services/ListingMetricsParser.js';
+import { ImmoScoutApiClient } from '../immoscout/ImmoScoutApiClient.js';
+import { ImmoScoutAttribute, ImmoScoutExpose, ImmoScoutSearchPage } from '../immoscout/ImmoScoutTypes.js';
+
+const DEFAULT_MAX_PAGES = 1;
+// Listing packages that are pinned above the date-sorted results
+const PROMOTED_LISTING_TYPES = new Set(['XL', 'PREMIUM', 'TOP']);
 
 export class ImmoScoutProvider extends BaseProvider {
   readonly name = 'ImmoScout';
   readonly id = 'immoscout';
 
-  private ensureSortByNewest(url: string): string {
-    try {
-      const parsed = new URL(url);
-      // Remove web-only sorting parameter (sorting=1, sorting=2, etc.)
-      // and replace with mobile API format
-      const existingSorting = parsed.searchParams.get('sorting');
-      if (existingSorting && /^\d+$/.test(existingSorting)) {
-        // Web format (numeric) - replace with mobile API format
-        parsed.searchParams.set('sorting', '-firstactivation');
-      } else if (!existingSorting) {
-        // No sorting - add mobile API format
-        parsed.searchParams.set('sorting', '-firstactivation');
-      }
-      // If sorting is already in mobile format (e.g., -firstactivation), keep it
-      return parsed.toString();
-    } catch {
-      // Fallback for invalid URLs
-      if (url.includes('sorting=')) return url;
-      return url + (url.includes('?') ? '&' : '?') + 'sorting=-firstactivation';
-    }
+  constructor(
+    url: string | undefined,
+    private readonly client: ImmoScoutApiClient = new ImmoScoutApiClient(),
+    private readonly maxPages: number = DEFAULT_MAX_PAGES
+  ) {
+    super(url);
   }
 
-  async scrape(maxResults: number): Promise<Listing[]> {
-    if (!this.isEnabled()) return [];
+  protected async fetchListings(maxResults: number, checkpoints: Set<string>[]): Promise<Listing[]> {
+    const firstPage = await this.client.search(this.url!);
 
-    const startTime = Date.now();
-    const sortedUrl = this.ensureSortByNewest(this.url!);
+    if (firstPage.exposes.length === 0) {
+      throw new Error('No listings returned - possible API error or blocking');
+    }
 
-    try {
-      immoscout.init({ enabled: true, url: sortedUrl }, []);
-      const listings = await immoscout.config.getListings(immoscout.config.url);
+    const listings = firstPage.exposes.slice(0, maxResults).map((e) => this.toListing(e));
+    const seen = new Set(listings.map((l) => l.hash));
+    const lastPage = Math.min(this.maxPages, firstPage.numberOfPages);
 
-      if (!listings || listings.length === 0) {
-        throw new Error('No listings returned - possible API error or blocking');
+    // Only page further when there are checkpoints to catch up to
+    let reachedKnown = this.reachedCheckpoints(listings, checkpoints);
+    for (let page = 2; page <= lastPage && !reachedKnown; page++) {
+      let result: ImmoScoutSearchPage;
+      try {
+        result = await this.client.search(this.url!, page);
+      } catch (error) {
+        // Keep what we already have - a failing follow-up page shouldn't drop page 1
+        this.logger.warn(`Failed to load result page ${page}`, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+        break;
       }
 
-      const result = listings.slice(0, maxResults).map((l: RawListing) => {
-        const normalized = immoscout.config.normalize(l);
-        return this.normalizeListing(normalized, this.name);
-      });
-
-      this.resetErrors();
-      return result;
-    } catch (error) {
-      const err = error instanceof Error ? error : new Error(String(error));
-      this.handleError(err, { duration: `${Date.now() - startTime}ms` });
-      return [];
+      const pageListings = result.exposes
+        .slice(0, maxResults)
+        .map((e) => this.toListing(e))
+        .filter((l) => !seen.has(l.hash));
+
+      if (pageListings.length === 0) break;
+      pageListings.forEach((l) => seen.add(l.hash));
+      listings.push(...pageListings);
+      reachedKnown = this.reachedCheckpoints(listings, checkpoints);
     }
+
+    return listings;
+  }
+
+  private toListing(expose: ImmoScoutExpose): EnrichedListing {
+    const attributes = expose.attributes ?? [];
+    const price = this.findAttribute(attributes, /miete|preis/i, 0);
+    const size = this.findAttribute(attributes, /fläche/i, 1);
+    const rooms = this.findAttribute(attributes, /zi/i, 2);
+
+    const listing = this.normalizeListing(
+      {
+        id: expose.id,
+        title: expose.title,
+        price: price ?? undefined,
+        size: size ?? undefined,
+        address: expose.address?.line,
+        link: ImmoScoutApiClient.exposeUrl(expose.id),
+        image: expose.titlePicture?.full ?? expose.titlePicture?.preview,
+        postedAt: expose.published,
+      },
+      this.name
+    );
+
+    const enriched: EnrichedListing = {
+      ...listing,
+      promoted: PROMOTED_LISTING_TYPES.has(expose.listingType?.toUpperCase() ?? ''),
+      details: {
+        rooms,
+        coldRent: price,
+        publishedAt: expose.published ?? null,
+      },
+    };
+    return { ...enriched, metrics: parseListingMetrics(enriched) };
+  }
+
+  // Attributes carry a label in newer API versions; older responses only keep the order
+  private findAttribute(attributes: ImmoScoutAttribute[], label: RegExp, fallbackIndex: number): string | null {
+    const labelled = attributes.find((a) => a.label && label.test(a.label));
+    if (labelled) return labelled.value;
+    if (attributes.some((a) => a.label)) return null;
+    return attributes[fallbackIndex]?.value ?? null;
   }
 }
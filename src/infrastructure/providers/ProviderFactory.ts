@@ -1,32 +1,33 @@
 import { IListingProvider } from '../../domain/ports/IListingProvider.js';
 import { IBrowserService } from '../../domain/ports/IBrowserService.js';
 import { ProvidersConfig } from '../../config/providers.config.js';
+import { ScrapeEngine } from '../../domain/entities/ProviderConfig.js';
 import { ImmoScoutProvider } from './ImmoScoutProvider.js';
-import { ImmoweltProvider } from './ImmoweltProvider.js';
-import { ImmonetProvider } from './ImmonetProvider.js';
-import { KleinanzeigenProvider } from './KleinanzeigenProvider.js';
-import { WgGesuchtProvider } from './WgGesuchtProvider.js';
+import { DeclarativeProvider } from './DeclarativeProvider.js';
+import { ProviderRegistry } from './ProviderRegistry.js';
+import { ImmoScoutApiClient } from '../immoscout/ImmoScoutApiClient.js';
 
 export class ProviderFactory {
-  constructor(private readonly browserService: IBrowserService) {}
+  private readonly immoScoutClient = new ImmoScoutApiClient();
+
+  constructor(
+    private readonly registry: ProviderRegistry,
+    private readonly engines: Record<ScrapeEngine, IBrowserService>
+  ) {}
 
   createProvidersForConfig(config: ProvidersConfig): IListingProvider[] {
     const providers: IListingProvider[] = [];
 
-    if (config.immoscout) {
-      providers.push(new ImmoScoutProvider(config.immoscout));
-    }
-    if (config.immowelt) {
-      providers.push(new ImmoweltProvider(config.immowelt, this.browserService));
-    }
-    if (config.immonet) {
-      providers.push(new ImmonetProvider(config.immonet, this.browserService));
-    }
-    if (config.kleinanzeigen) {
-      providers.push(new KleinanzeigenProvider(config.kleinanzeigen, this.browserService));
-    }
-    if (config.wggesucht) {
-      providers.push(new WgGesuchtProvider(config.wggesucht, this.browserService));
+    for (const definition of this.registry.getAll()) {
+      const url = config[definition.id];
+      if (!url) continue;
+
+      if (definition.type === 'immoscout') {
+        providers.push(new ImmoScoutProvider(url, this.immoScoutClient, definition.pagination?.maxPages));
+      } else {
+        const engine = this.engines[definition.engine ?? 'browser'];
+        providers.push(new DeclarativeProvider(url, definition, engine));
+      }
     }
 
     return providers;
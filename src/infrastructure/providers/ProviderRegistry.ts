@@ -0,0 +1,80 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ProviderDefinition, UrlRewriteRule } from '../../domain/entities/ProviderConfig.js';
+import { ILogger, LoggerFactory } from '../logging/Logger.js';
+
+export class ProviderRegistry {
+  private readonly definitions = new Map<string, ProviderDefinition>();
+  private readonly logger: ILogger;
+
+  constructor(private readonly directory: string) {
+    this.logger = LoggerFactory.create('ProviderRegistry');
+  }
+
+  load(): void {
+    if (!fs.existsSync(this.directory)) {
+      throw new Error(`Provider definitions directory not found: ${this.directory}`);
+    }
+
+    this.definitions.clear();
+    const files = fs.readdirSync(this.directory).filter((f) => f.endsWith('.json'));
+
+    for (const file of files) {
+      const filePath = path.join(this.directory, file);
+      let definition: ProviderDefinition;
+      try {
+        definition = JSON.parse(fs.readFileSync(filePath, 'utf8')) as ProviderDefinition;
+      } catch (err) {
+        throw new Error(`Invalid provider definition ${file}: ${err instanceof Error ? err.message : err}`);
+      }
+
+      this.validate(definition, file);
+      if (this.definitions.has(definition.id)) {
+        throw new Error(`Duplicate provider id "${definition.id}" in ${file}`);
+      }
+      this.definitions.set(definition.id, definition);
+    }
+
+    this.logger.info(`Loaded ${this.definitions.size} provider definition(s)`, {
+      providers: this.getAll().map((d) => d.id),
+    });
+  }
+
+  get(id: string): ProviderDefinition | undefined {
+    return this.definitions.get(id);
+  }
+
+  getAll(): ProviderDefinition[] {
+    return Array.from(this.definitions.values()).sort(
+      (a, b) => (a.order ?? Number.MAX_SAFE_INTEGER) - (b.order ?? Number.MAX_SAFE_INTEGER) || a.id.localeCompare(b.id)
+    );
+  }
+
+  private validate(definition: ProviderDefinition, file: string): void {
+    const missing = (['id', 'name', 'displayName'] as const).filter((key) => !definition[key]);
+    if (missing.length > 0) {
+      throw new Error(`Provider definition ${file} is missing: ${missing.join(', ')}`);
+    }
+    if (!Array.isArray(definition.allowedDomains) || definition.allowedDomains.length === 0) {
+      throw new Error(`Provider definition ${file} must list at least one allowed domain`);
+    }
+
+    const type = definition.type ?? 'browser';
+    if (type === 'browser' && (!definition.crawlContainer || !definition.crawlFields)) {
+      throw new Error(`Browser provider definition ${file} needs crawlContainer and crawlFields`);
+    }
+
+    if (definition.engine && !['browser', 'http'].includes(definition.engine)) {
+      throw new Error(`Provider definition ${file} has an unknown engine: ${definition.engine}`);
+    }
+
+    const rules: UrlRewriteRule[] = [...(definition.urlRewrites ?? []), ...(definition.imageRewrites ?? [])];
+    for (const rule of rules) {
+      try {
+        new RegExp(rule.pattern);
+      } catch {
+        throw new Error(`Provider definition ${file} has an invalid rewrite pattern: ${rule.pattern}`);
+      }
+    }
+  }
+}
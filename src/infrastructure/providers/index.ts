@@ -1,8 +1,6 @@
 export { BaseProvider } from './BaseProvider.js';
 export { BrowserBasedProvider } from './BrowserBasedProvider.js';
+export { DeclarativeProvider } from './DeclarativeProvider.js';
 export { ImmoScoutProvider } from './ImmoScoutProvider.js';
-export { ImmoweltProvider } from './ImmoweltProvider.js';
-export { ImmonetProvider } from './ImmonetProvider.js';
-export { KleinanzeigenProvider } from './KleinanzeigenProvider.js';
-export { WgGesuchtProvider } from './WgGesuchtProvider.js';
 export { ProviderFactory } from './ProviderFactory.js';
+export { ProviderRegistry } from './ProviderRegistry.js';
@@ -1,5 +1,6 @@
 import { IListingRepository } from '../../domain/ports/IListingRepository.js';
 import { DatabaseConnection } from '../database/Database.js';
+import { PriceRecord } from '../../domain/entities/PriceChange.js';
 
 export class DatabaseCheckpointRepository implements IListingRepository {
   constructor(private readonly db: DatabaseConnection) {}
@@ -19,4 +20,29 @@ export class DatabaseCheckpointRepository implements IListingRepository {
   async clearUser(userId: string): Promise<void> {
     await this.db.clearUser(userId);
   }
+
+  async getSeenListingIds(userId: string, provider: string, listingIds: string[]): Promise<Set<string>> {
+    return new Set(await this.db.getSeenListingIds(userId, provider, listingIds));
+  }
+
+  async hasSeenListings(userId: string, provider: string): Promise<boolean> {
+    return this.db.hasSeenListings(userId, provider);
+  }
+
+  async markListingsSeen(userId: string, provider: string, listingIds: string[]): Promise<void> {
+    await this.db.markListingsSeen(userId, provider, listingIds);
+  }
+
+  async pruneSeenListings(olderThan: Date): Promise<number> {
+    return this.db.pruneSeenListings(olderThan);
+  }
+
+  async getLatestPrices(userId: string, provider: string, listingIds: string[]): Promise<Map<string, PriceRecord>> {
+    const records = await this.db.getLatestPrices(userId, provider, listingIds);
+    return new Map(records.map((r) => [r.listingId, r]));
+  }
+
+  async recordPrices(userId: string, provider: string, prices: PriceRecord[]): Promise<void> {
+    await this.db.recordPrices(userId, provider, prices);
+  }
 }
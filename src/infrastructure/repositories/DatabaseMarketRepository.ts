@@ -0,0 +1,19 @@
+import { IMarketRepository } from '../../domain/ports/IMarketRepository.js';
+import { MarketMedian, MarketObservation, MarketTrendPoint } from '../../domain/entities/MarketStats.js';
+import { DatabaseConnection } from '../database/Database.js';
+
+export class DatabaseMarketRepository implements IMarketRepository {
+  constructor(private readonly db: DatabaseConnection) {}
+
+  async recordObservations(observations: MarketObservation[]): Promise<void> {
+    await this.db.recordMarketObservations(observations);
+  }
+
+  async getMedians(since: Date): Promise<MarketMedian[]> {
+    return this.db.getMarketMedians(since);
+  }
+
+  async getWeeklyTrends(since: Date): Promise<MarketTrendPoint[]> {
+    return this.db.getMarketTrends(since);
+  }
+}
@@ -0,0 +1,19 @@
+import { IPendingNotificationRepository } from '../../domain/ports/IPendingNotificationRepository.js';
+import { ListingNotification } from '../../domain/entities/Notification.js';
+import { DatabaseConnection } from '../database/Database.js';
+
+export class DatabasePendingNotificationRepository implements IPendingNotificationRepository {
+  constructor(private readonly db: DatabaseConnection) {}
+
+  async add(userId: string, notification: ListingNotification): Promise<void> {
+    await this.db.addPendingNotifications(userId, notification);
+  }
+
+  async getHeldSince(): Promise<Map<string, Date>> {
+    return this.db.getPendingNotificationAges();
+  }
+
+  async take(userId: string): Promise<ListingNotification | null> {
+    return this.db.takePendingNotifications(userId);
+  }
+}
@@ -1,7 +1,11 @@
 import { IListingRepository } from '../../domain/ports/IListingRepository.js';
+import { PriceRecord } from '../../domain/entities/PriceChange.js';
 
 export class InMemoryListingRepository implements IListingRepository {
   private readonly checkpoints = new Map<string, string[]>();
+  private readonly prices = new Map<string, Map<string, PriceRecord>>();
+  // Listing id -> last seen time, per user and provider
+  private readonly seen = new Map<string, Map<string, Date>>();
 
   private getKey(userId: string, provider: string): string {
     return `${userId}:${provider}`;
@@ -31,5 +35,63 @@ export class InMemoryListingRepository implements IListingRepository {
         this.checkpoints.delete(key);
       }
     }
+    for (const key of this.prices.keys()) {
+      if (key.startsWith(`${userId}:`)) {
+        this.prices.delete(key);
+      }
+    }
+    for (const key of this.seen.keys()) {
+      if (key.startsWith(`${userId}:`)) {
+        this.seen.delete(key);
+      }
+    }
+  }
+
+  async getSeenListingIds(userId: string, provider: string, listingIds: string[]): Promise<Set<string>> {
+    const known = this.seen.get(this.getKey(userId, provider));
+    return new Set(listingIds.filter((id) => known?.has(id)));
+  }
+
+  async hasSeenListings(userId: string, provider: string): Promise<boolean> {
+    return (this.seen.get(this.getKey(userId, provider))?.size ?? 0) > 0;
+  }
+
+  async markListingsSeen(userId: string, provider: string, listingIds: string[]): Promise<void> {
+    const key = this.getKey(userId, provider);
+    const known = this.seen.get(key) ?? new Map<string, Date>();
+    const now = new Date();
+    listingIds.forEach((id) => known.set(id, now));
+    this.seen.set(key, known);
+  }
+
+  async pruneSeenListings(olderThan: Date): Promise<number> {
+    let removed = 0;
+    for (const [key, known] of this.seen) {
+      for (const [id, lastSeenAt] of known) {
+        if (lastSeenAt < olderThan) {
+          known.delete(id);
+          this.prices.get(key)?.delete(id);
+          removed++;
+        }
+      }
+    }
+    return removed;
+  }
+
+  async getLatestPrices(userId: string, provider: string, listingIds: string[]): Promise<Map<string, PriceRecord>> {
+    const known = this.prices.get(this.getKey(userId, provider));
+    const result = new Map<string, PriceRecord>();
+    for (const id of listingIds) {
+      const record = known?.get(id);
+      if (record) result.set(id, record);
+    }
+    return result;
+  }
+
+  async recordPrices(userId: string, provider: string, prices: PriceRecord[]): Promise<void> {
+    const key = this.getKey(userId, provider);
+    const known = this.prices.get(key) ?? new Map<string, PriceRecord>();
+    prices.forEach((record) => known.set(record.listingId, record));
+    this.prices.set(key, known);
   }
 }
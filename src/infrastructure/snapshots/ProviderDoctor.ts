@@ -0,0 +1,151 @@
+import { parseHTML } from 'linkedom';
+import { RawListing } from '../../domain/entities/Listing.js';
+import { ProviderDefinition } from '../../domain/entities/ProviderConfig.js';
+import { extractListings } from '../browser/extractors.js';
+import { DeclarativeProvider } from '../providers/DeclarativeProvider.js';
+import { ProviderRegistry } from '../providers/ProviderRegistry.js';
+import { Snapshot, SnapshotStore } from './SnapshotStore.js';
+import { SnapshotBrowserService } from './SnapshotBrowserService.js';
+
+// Known-good result pages committed with the repo, one directory per provider
+export const FIXTURE_SNAPSHOTS_DIR = './test/fixtures/snapshots';
+
+export interface SelectorStats {
+  selector: string;
+  matches: number;
+}
+
+export interface FieldReport {
+  field: string;
+  // Cards where the field got a value through any of its alternatives
+  filled: number;
+  alternatives: SelectorStats[];
+}
+
+// Valid listings whose numeric values could be parsed
+export interface ParseReport {
+  rent: number;
+  livingSpace: number;
+  rooms: number;
+}
+
+export interface SnapshotReport {
+  file: string;
+  url: string;
+  reason: string;
+  capturedAt: string;
+  cards: number;
+  listings: number;
+  fields: FieldReport[];
+  parsed: ParseReport;
+}
+
+export interface ProviderReport {
+  providerId: string;
+  name: string;
+  // Every committed fixture must still yield listings
+  fixtures: SnapshotReport[];
+  // Pages saved locally when a scrape came back empty
+  snapshots: SnapshotReport[];
+  healthy: boolean;
+}
+
+// Replays provider selectors against saved result pages, fully offline
+export class ProviderDoctor {
+  constructor(
+    private readonly registry: ProviderRegistry,
+    private readonly fixtures: SnapshotStore = new SnapshotStore(FIXTURE_SNAPSHOTS_DIR),
+    private readonly store: SnapshotStore = SnapshotStore.getInstance()
+  ) {}
+
+  async examine(providerId?: string): Promise<ProviderReport[]> {
+    const definitions = this.registry
+      .getAll()
+      .filter((d) => (d.type ?? 'browser') === 'browser')
+      .filter((d) => !providerId || d.id === providerId);
+
+    const reports: ProviderReport[] = [];
+    for (const definition of definitions) {
+      const fixtures = this.fixtures.list(definition.id).map((s) => this.examineSnapshot(definition, s));
+      const snapshots = this.store.list(definition.id).map((s) => this.examineSnapshot(definition, s));
+
+      reports.push({
+        providerId: definition.id,
+        name: definition.displayName,
+        fixtures,
+        snapshots,
+        healthy: fixtures.length > 0 && fixtures.every((f) => f.listings > 0),
+      });
+    }
+    return reports;
+  }
+
+  private examineSnapshot(definition: ProviderDefinition, snapshot: Snapshot): SnapshotReport {
+    const container = definition.crawlContainer!;
+    const fields = definition.crawlFields!;
+    const { document } = parseHTML(snapshot.html);
+    const root = document as unknown as ParentNode;
+
+    const cards = extractListings(container, fields, root);
+    const fieldReports: FieldReport[] = Object.entries(fields).map(([field, selector]) => ({
+      field,
+      filled: cards.filter((c) => c[field]).length,
+      alternatives: selector.split('|').map((alternative) => ({
+        selector: alternative.trim(),
+        matches: extractListings(container, { [field]: alternative }, root).filter((c) => c[field]).length,
+      })),
+    }));
+
+    // The provider's validation and link fix-ups, without scrape() - a replay must not
+    // count towards the circuit breaker or end up in the scraping error log
+    const url = snapshot.url || `https://${definition.allowedDomains[0]}/`;
+    const provider = new DeclarativeProvider(url, definition, new SnapshotBrowserService(snapshot.html));
+    const listings = provider.toListings(cards as RawListing[]);
+
+    return {
+      file: snapshot.file,
+      url: snapshot.url,
+      reason: snapshot.reason,
+      capturedAt: snapshot.capturedAt,
+      cards: cards.length,
+      listings: listings.length,
+      fields: fieldReports,
+      parsed: {
+        rent: listings.filter((l) => l.metrics?.coldRent != null || l.metrics?.warmRent != null).length,
+        livingSpace: listings.filter((l) => l.metrics?.livingSpaceSqm != null).length,
+        rooms: listings.filter((l) => l.metrics?.rooms != null).length,
+      },
+    };
+  }
+
+  static format(reports: ProviderReport[]): string {
+    const lines: string[] = [];
+
+    for (const report of reports) {
+      lines.push(`${report.healthy ? '✓' : '✗'} ${report.name} (${report.providerId})`);
+      if (report.fixtures.length === 0) {
+        lines.push(`  No fixture snapshot - capture one with: npm run doctor -- capture ${report.providerId} <url>`);
+      }
+      lines.push(...report.fixtures.flatMap((s) => ProviderDoctor.formatSnapshot(s)));
+
+      if (report.snapshots.length > 0) {
+        lines.push('  Local snapshots:');
+        lines.push(...report.snapshots.flatMap((s) => ProviderDoctor.formatSnapshot(s)));
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  private static formatSnapshot(snapshot: SnapshotReport): string[] {
+    const lines = [`  ${snapshot.capturedAt} [${snapshot.reason}] ${snapshot.cards} cards, ${snapshot.listings} valid listings`];
+    for (const field of snapshot.fields) {
+      const alternatives = field.alternatives.map((a) => `${a.selector} (${a.matches})`).join(' | ');
+      lines.push(`    ${field.field.padEnd(12)} ${`${field.filled}/${snapshot.cards}`.padStart(7)}  ${alternatives}`);
+    }
+    const { rent, livingSpace, rooms } = snapshot.parsed;
+    const total = snapshot.listings;
+    lines.push(`    ${'parsed'.padEnd(12)} rent ${rent}/${total}, m² ${livingSpace}/${total}, rooms ${rooms}/${total}`);
+    return lines;
+  }
+}
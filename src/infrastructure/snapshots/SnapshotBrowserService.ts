@@ -0,0 +1,36 @@
+import { parseHTML } from 'linkedom';
+import { IBrowserService, ScrapedPage, ScrapeOptions } from '../../domain/ports/IBrowserService.js';
+import { RawListing } from '../../domain/entities/Listing.js';
+import { DetailPageConfig } from '../../domain/entities/ProviderConfig.js';
+import { extractDetails, extractListings } from '../browser/extractors.js';
+
+// Offline IBrowserService that answers every request with one saved page
+export class SnapshotBrowserService implements IBrowserService {
+  private readonly document: Document;
+
+  constructor(html: string) {
+    this.document = parseHTML(html).document as unknown as Document;
+  }
+
+  async initialize(): Promise<void> {
+    // Nothing to start
+  }
+
+  async scrape(
+    _url: string,
+    containerSelector: string,
+    fields: Record<string, string>,
+    _options?: ScrapeOptions
+  ): Promise<ScrapedPage> {
+    const listings = extractListings(containerSelector, fields, this.document);
+    return { listings: listings as RawListing[], nextPageUrl: null };
+  }
+
+  async scrapeDetails(_url: string, config: DetailPageConfig): Promise<Record<string, string | null>> {
+    return extractDetails(config, this.document);
+  }
+
+  async close(): Promise<void> {
+    // Nothing to release
+  }
+}
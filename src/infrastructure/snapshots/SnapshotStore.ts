@@ -0,0 +1,107 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseHTML } from 'linkedom';
+import { ILogger, LoggerFactory } from '../logging/Logger.js';
+
+export type SnapshotReason = 'manual' | 'failure';
+
+export interface SnapshotMeta {
+  providerId: string;
+  url: string;
+  reason: SnapshotReason;
+  capturedAt: string;
+}
+
+export interface Snapshot extends SnapshotMeta {
+  file: string;
+  html: string;
+}
+
+const MAX_SNAPSHOTS_PER_PROVIDER = 10;
+const META_PATTERN = /^<!-- snapshot (\{.*?\}) -->\n/;
+
+// Sanitized copies of provider result pages, used by the provider doctor to replay selectors offline
+export class SnapshotStore {
+  private static instance: SnapshotStore | null = null;
+  private readonly logger: ILogger;
+
+  constructor(private readonly baseDir: string = process.env.SNAPSHOTS_DIR || './data/snapshots') {
+    this.logger = LoggerFactory.create('SnapshotStore');
+  }
+
+  static getInstance(): SnapshotStore {
+    if (!SnapshotStore.instance) {
+      SnapshotStore.instance = new SnapshotStore();
+    }
+    return SnapshotStore.instance;
+  }
+
+  save(meta: Omit<SnapshotMeta, 'capturedAt'>, html: string): string | null {
+    try {
+      const dir = path.join(this.baseDir, meta.providerId);
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+
+      const capturedAt = new Date().toISOString();
+      const file = path.join(dir, `${capturedAt.replace(/[:.]/g, '-')}-${meta.reason}.html`);
+      const header = `<!-- snapshot ${JSON.stringify({ ...meta, capturedAt })} -->\n`;
+      fs.writeFileSync(file, header + SnapshotStore.sanitize(html), 'utf8');
+
+      this.prune(dir);
+      this.logger.info(`Saved ${meta.reason} snapshot for ${meta.providerId}`, { file });
+      return file;
+    } catch (err) {
+      this.logger.error(`Failed to save snapshot for ${meta.providerId}`, err as Error);
+      return null;
+    }
+  }
+
+  list(providerId: string): Snapshot[] {
+    const dir = path.join(this.baseDir, providerId);
+    if (!fs.existsSync(dir)) return [];
+
+    return fs
+      .readdirSync(dir)
+      .filter((f) => f.endsWith('.html'))
+      .sort()
+      .map((f) => this.read(path.join(dir, f), providerId));
+  }
+
+  private read(file: string, providerId: string): Snapshot {
+    const content = fs.readFileSync(file, 'utf8');
+    const match = content.match(META_PATTERN);
+    const meta: SnapshotMeta = match
+      ? JSON.parse(match[1])
+      : { providerId, url: '', reason: 'manual', capturedAt: fs.statSync(file).mtime.toISOString() };
+
+    return { ...meta, file, html: match ? content.slice(match[0].length) : content };
+  }
+
+  private prune(dir: string): void {
+    const files = fs.readdirSync(dir).filter((f) => f.endsWith('.html')).sort();
+    for (const file of files.slice(0, Math.max(0, files.length - MAX_SNAPSHOTS_PER_PROVIDER))) {
+      fs.unlinkSync(path.join(dir, file));
+    }
+  }
+
+  // Strips everything that isn't needed to replay selectors: scripts, styles, embeds,
+  // comments and inline event handlers
+  static sanitize(html: string): string {
+    const { document } = parseHTML(html);
+
+    document.querySelectorAll('script, style, noscript, iframe, object, embed, link, meta[http-equiv]').forEach((el) => {
+      el.remove();
+    });
+
+    for (const el of Array.from(document.querySelectorAll('*'))) {
+      for (const attr of Array.from(el.attributes)) {
+        if (attr.name.startsWith('on')) {
+          el.removeAttribute(attr.name);
+        }
+      }
+    }
+
+    return document.toString().replace(/<!--[\s\S]*?-->/g, '');
+  }
+}
@@ -3,6 +3,12 @@ import { DatabaseConnection } from '../database/Database.js';
 import { ILogger, LoggerFactory } from '../logging/Logger.js';
 import { FileLogger, LogEvent } from '../logging/FileLogger.js';
 import { MonitoringService } from '../monitoring/MonitoringService.js';
+import { ProviderHealthRegistry } from '../monitoring/ProviderHealthRegistry.js';
+import { BrowserService } from '../browser/BrowserService.js';
+import { ArtifactStore } from '../artifacts/ArtifactStore.js';
+import { MarketStatsService } from '../../application/services/MarketStatsService.js';
+import { MarketMedian, MarketTrendPoint } from '../../domain/entities/MarketStats.js';
+import { roomsLabel } from '../../domain/services/MarketStatistics.js';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -13,8 +19,13 @@ export interface ErrorDetails {
   source?: string;
   stack?: string;
   url?: string;
+  // Screenshots / HTML of the failing pages
+  artifactIds?: string[];
 }
 
+const MAX_SCREENSHOTS_PER_ERROR = 3;
+const MARKET_TOP_AREAS = 8;
+
 export class AdminBot {
   private readonly bot: Telegraf;
   private readonly logger: ILogger;
@@ -24,7 +35,9 @@ export class AdminBot {
   constructor(
     token: string,
     private readonly db: DatabaseConnection,
-    adminUserId?: string
+    adminUserId?: string,
+    private readonly browserService?: BrowserService,
+    private readonly marketStats?: MarketStatsService
   ) {
     this.logger = LoggerFactory.create('AdminBot');
     this.bot = new Telegraf(token);
@@ -146,10 +159,202 @@ export class AdminBot {
         this.logger.error('Error in /toggle_errors command', err as Error);
       }
     });
+
+    this.bot.command('health', async (ctx) => {
+      if (!this.isAuthorized(ctx)) return;
+
+      try {
+        const entries = ProviderHealthRegistry.getInstance().getAll();
+        if (entries.length === 0) {
+          await ctx.reply('No provider activity yet.');
+          return;
+        }
+
+        const lines = ['Provider health:'];
+        for (const entry of entries) {
+          const icon = entry.state === 'closed' ? (entry.consecutiveErrors > 0 ? '🟡' : '🟢') : '🔴';
+          let line = `${icon} ${entry.key}: ${entry.state}`;
+          if (entry.consecutiveErrors > 0) {
+            line += `, ${entry.consecutiveErrors} error(s) (${entry.lastErrorKind})`;
+          }
+          if (entry.openUntil) {
+            line += `, paused until ${this.formatTime(entry.openUntil)}`;
+          }
+          lines.push(line);
+        }
+        await ctx.reply(lines.join('\n').substring(0, 4000));
+      } catch (err) {
+        this.logger.error('Error in /health command', err as Error);
+      }
+    });
+
+    this.bot.command('proxies', async (ctx) => {
+      if (!this.isAuthorized(ctx)) return;
+
+      try {
+        const proxies = this.browserService?.getProxyHealth();
+        if (!proxies) {
+          await ctx.reply('No proxies configured.');
+          return;
+        }
+
+        const lines = ['Proxy health:'];
+        for (const proxy of proxies) {
+          const icon = proxy.benchedUntil ? '🔴' : proxy.consecutiveFailures > 0 ? '🟡' : '🟢';
+          let line = `${icon} ${proxy.id}: ${proxy.uses} uses, ${proxy.failures} failures`;
+          if (proxy.benchedUntil) {
+            line += `, benched until ${this.formatTime(proxy.benchedUntil)}`;
+          }
+          lines.push(line);
+        }
+        await ctx.reply(lines.join('\n').substring(0, 4000));
+      } catch (err) {
+        this.logger.error('Error in /proxies command', err as Error);
+      }
+    });
+
+    this.bot.command('browser', async (ctx) => {
+      if (!this.isAuthorized(ctx)) return;
+
+      try {
+        if (!this.browserService) {
+          await ctx.reply('Browser not running.');
+          return;
+        }
+
+        const stats = this.browserService.getStats();
+        const lines = [
+          'Browser pool:',
+          `Pages: ${stats.activePages} active, ${stats.idlePages} idle`,
+          `Queue: ${stats.queuedRequests} waiting, avg wait ${stats.avgQueueWaitMs}ms, max ${stats.maxQueueWaitMs}ms`,
+          `Pages served: ${stats.pagesServed}`,
+          `Browser launches: ${stats.browserLaunches}`,
+        ];
+
+        const resources = this.browserService.getResourceStats();
+        if (resources.length > 0) {
+          lines.push('', 'Resource blocking (avg per page):');
+          for (const r of resources) {
+            let line = `• ${r.providerId}: ${r.avgDurationMs}ms, ${Math.round(r.avgBytes / 1024)} KB, ${r.blockedRequests} blocked`;
+            if (r.savedDurationMs !== null && r.savedBytes !== null) {
+              line += ` - saves ${r.savedDurationMs}ms, ${Math.round(r.savedBytes / 1024)} KB`;
+            }
+            lines.push(line);
+          }
+        }
+        await ctx.reply(lines.join('\n').substring(0, 4000));
+      } catch (err) {
+        this.logger.error('Error in /browser command', err as Error);
+      }
+    });
+
+    this.bot.command('market', async (ctx) => {
+      if (!this.isAuthorized(ctx)) return;
+
+      try {
+        if (!this.marketStats) {
+          await ctx.reply('Market statistics not available.');
+          return;
+        }
+
+        const report = await this.marketStats.getReport();
+        if (report.medians.length === 0) {
+          await ctx.reply(`No listings with price and size in the last ${report.windowDays} days.`);
+          return;
+        }
+
+        const lines = [`Median €/m², last ${report.windowDays} days (listings):`];
+        const byScope = (scope: MarketMedian['scope']) =>
+          report.medians
+            .filter((m) => m.scope === scope && m.rooms === null)
+            .sort((a, b) => b.sampleSize - a.sampleSize)
+            .slice(0, MARKET_TOP_AREAS);
+
+        lines.push('', 'By provider:');
+        for (const m of byScope('provider')) {
+          lines.push(`• ${m.key}: ${this.formatPerSqm(m.medianPricePerSqm)} (${m.sampleSize})`);
+        }
+
+        lines.push('', 'By city:');
+        for (const m of byScope('city')) {
+          const rooms = report.medians
+            .filter((r) => r.scope === 'city' && r.key === m.key && r.rooms !== null)
+            .sort((a, b) => a.rooms! - b.rooms!)
+            .map((r) => `${roomsLabel(r.rooms!)} ${this.formatPerSqm(r.medianPricePerSqm)}`);
+          lines.push(`• ${m.key}: ${this.formatPerSqm(m.medianPricePerSqm)} (${m.sampleSize})`);
+          if (rooms.length > 0) lines.push(`   ${rooms.join(' · ')}`);
+        }
+
+        lines.push('', 'By postcode:');
+        for (const m of byScope('postcode')) {
+          lines.push(`• ${m.key}: ${this.formatPerSqm(m.medianPricePerSqm)} (${m.sampleSize})`);
+        }
+
+        const trends = this.formatTrends(report.trends, byScope('city').map((m) => m.key));
+        if (trends.length > 0) {
+          lines.push('', 'Weekly trend:', ...trends);
+        }
+
+        await ctx.reply(lines.join('\n').substring(0, 4000));
+      } catch (err) {
+        this.logger.error('Error in /market command', err as Error);
+      }
+    });
+
+    this.bot.command('artifact', async (ctx) => {
+      if (!this.isAuthorized(ctx)) return;
+
+      try {
+        const id = ctx.message.text.split(/\s+/)[1];
+        if (!id) {
+          const recent = ArtifactStore.getInstance().list().slice(0, 10);
+          const lines = recent.map((a) => `• ${a.id} - ${a.providerId}, ${a.reason}, ${this.formatTime(new Date(a.capturedAt))}`);
+          await ctx.reply(recent.length > 0 ? `Recent artifacts:\n${lines.join('\n')}` : 'No artifacts stored.');
+          return;
+        }
+
+        const artifact = ArtifactStore.getInstance().get(id);
+        if (!artifact) {
+          await ctx.reply(`Artifact ${id} not found (it may have been pruned).`);
+          return;
+        }
+
+        await ctx.replyWithDocument(
+          { source: artifact.htmlFile, filename: `${artifact.id}.html` },
+          { caption: `${artifact.providerId} - ${artifact.reason}\n${artifact.url}`.substring(0, 1024) }
+        );
+      } catch (err) {
+        this.logger.error('Error in /artifact command', err as Error);
+      }
+    });
+  }
+
+  private formatTime(date: Date): string {
+    return date.toLocaleString('en-GB', { timeZone: 'Europe/Berlin' });
+  }
+
+  private formatPerSqm(value: number): string {
+    return value.toFixed(2).replace('.', ',');
+  }
+
+  // One line per city: weekly medians oldest first and the change over the period
+  private formatTrends(trends: MarketTrendPoint[], cities: string[]): string[] {
+    const lines: string[] = [];
+    for (const city of cities) {
+      const points = trends.filter((t) => t.city.toLowerCase() === city.toLowerCase());
+      if (points.length < 2) continue;
+
+      const first = points[0].medianPricePerSqm;
+      const last = points[points.length - 1].medianPricePerSqm;
+      const change = ((last - first) / first) * 100;
+      const series = points.map((p) => this.formatPerSqm(p.medianPricePerSqm)).join(' → ');
+      lines.push(`• ${city}: ${series} (${change >= 0 ? '+' : ''}${change.toFixed(1)}%)`);
+    }
+    return lines;
   }
 
   private formatLogEntry(log: LogEvent): string {
-    const time = new Date(log.timestamp).toLocaleString('en-GB', { timeZone: 'Europe/Berlin' });
+    const time = this.formatTime(new Date(log.timestamp));
     const icon = this.getLogIcon(log.type);
     const details = this.formatLogData(log.type, log.data);
     return `${icon} [${time}]\n${details}`;
@@ -163,6 +368,8 @@ export class AdminBot {
       SEARCH_REMOVED: '➖',
       SCRAPING_ERROR: '⚠️',
       CRITICAL_ERROR: '🚨',
+      CIRCUIT_OPENED: '🔴',
+      CIRCUIT_CLOSED: '🟢',
     };
     return icons[type] || '📝';
   }
@@ -178,9 +385,16 @@ export class AdminBot {
       case 'SEARCH_REMOVED':
         return `${data.userName} removed ${data.provider}`;
       case 'SCRAPING_ERROR':
-        return `${data.provider}: ${data.error}${data.url ? `\nURL: ${data.url}` : ''}`;
+        return (
+          `${data.provider}: ${data.error}${data.url ? `\nURL: ${data.url}` : ''}` +
+          (data.artifactId ? `\nArtifact: /artifact ${data.artifactId}` : '')
+        );
       case 'CRITICAL_ERROR':
         return `${data.source}: ${data.error}`;
+      case 'CIRCUIT_OPENED':
+        return `${data.key} paused (${data.cause})`;
+      case 'CIRCUIT_CLOSED':
+        return `${data.key} resumed`;
       default:
         return JSON.stringify(data);
     }
@@ -199,6 +413,11 @@ export class AdminBot {
           { command: 'logs', description: 'Show recent activity logs' },
           { command: 'backup', description: 'Send database backup file' },
           { command: 'toggle_errors', description: 'Toggle scraping error alerts' },
+          { command: 'health', description: 'Show provider circuit breaker state' },
+          { command: 'proxies', description: 'Show proxy pool health' },
+          { command: 'browser', description: 'Show browser page pool stats' },
+          { command: 'artifact', description: 'Get the HTML of a failure artifact' },
+          { command: 'market', description: 'Show median rent per m² and trends' },
         ],
         { scope: { type: 'chat', chat_id: this.adminUserId } }
       );
@@ -281,6 +500,14 @@ export class AdminBot {
     await this.sendNotification(`➖ ${userName} removed ${provider} search`);
   }
 
+  async notifyCircuitOpened(_provider: string, key: string, cause: string, until: Date): Promise<void> {
+    await this.sendNotification(`🔴 Circuit opened for ${key} after repeated ${cause} errors\nPaused until ${this.formatTime(until)}`);
+  }
+
+  async notifyCircuitClosed(_provider: string, key: string): Promise<void> {
+    await this.sendNotification(`🟢 Circuit closed for ${key} - scraping resumed`);
+  }
+
   async notifyError(details: ErrorDetails): Promise<void> {
     const lines = ['🚨 Error'];
     if (details.source) lines[0] += ` in ${details.source}`;
@@ -295,8 +522,31 @@ export class AdminBot {
       const trimmedStack = details.stack.split('\n').slice(0, 5).join('\n');
       lines.push(`\nStack:\n${trimmedStack}`);
     }
+    if (details.artifactIds?.length) {
+      lines.push(`\nArtifacts: ${details.artifactIds.map((id) => `/artifact ${id}`).join(', ')}`);
+    }
     const message = lines.join('\n').substring(0, 4000);
     await this.sendNotification(message);
+
+    for (const id of (details.artifactIds ?? []).slice(0, MAX_SCREENSHOTS_PER_ERROR)) {
+      await this.sendArtifactScreenshot(id);
+    }
+  }
+
+  private async sendArtifactScreenshot(id: string): Promise<void> {
+    const artifact = ArtifactStore.getInstance().get(id);
+    if (!this.adminUserId || !artifact?.screenshotFile) return;
+
+    try {
+      const caption = `📸 ${artifact.providerId} - ${artifact.error ?? artifact.reason}\nHTML: /artifact ${artifact.id}`;
+      await this.bot.telegram.sendPhoto(
+        this.adminUserId,
+        { source: artifact.screenshotFile },
+        { caption: caption.substring(0, 1024) }
+      );
+    } catch (err) {
+      this.logger.error(`Failed to send artifact screenshot: ${err}`);
+    }
   }
 
   private async sendNotification(message: string): Promise<void> {
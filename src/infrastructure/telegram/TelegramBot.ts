@@ -2,30 +2,90 @@ import { Telegraf, Context, Markup } from 'telegraf';
 import { DatabaseConnection, DbUser } from '../database/Database.js';
 import { ILogger, LoggerFactory } from '../logging/Logger.js';
 import { MonitoringService } from '../monitoring/MonitoringService.js';
-import { Listing } from '../../domain/entities/Listing.js';
+import { EnrichedListing, Listing } from '../../domain/entities/Listing.js';
+import { PriceChange } from '../../domain/entities/PriceChange.js';
+import { MarketComparison } from '../../domain/entities/MarketStats.js';
+import { ProviderRegistry } from '../providers/ProviderRegistry.js';
+import { EMPTY_SEARCH_FILTER, SearchFilter } from '../../domain/entities/SearchFilter.js';
+import { isEmptySearchFilter } from '../../domain/services/ListingFilter.js';
+import { parseGermanNumber } from '../../domain/services/ListingMetricsParser.js';
+import { parseCoordinates } from '../../domain/services/GeoDistance.js';
+import { IGeocoder } from '../../domain/ports/IGeocoder.js';
+import { INotificationChannel } from '../../domain/ports/INotificationChannel.js';
+import { ListingNotification, NotificationRecipient } from '../../domain/entities/Notification.js';
+import { NotificationChannelRegistry } from '../../application/services/NotificationChannelRegistry.js';
+import {
+  DEFAULT_DELIVERY_SCHEDULE,
+  DELIVERY_MODES,
+  DeliveryMode,
+  DeliverySchedule,
+} from '../../domain/entities/DeliverySchedule.js';
+import {
+  formatClockTime,
+  isValidTimeZone,
+  parseClockTime,
+  parseTimeRange,
+} from '../../domain/services/DeliveryPlanner.js';
+
+// Provider ids come from the loaded provider definitions (e.g. 'immoscout', 'kleinanzeigen')
+type SupportedProvider = string;
+
+type FilterField = keyof SearchFilter;
+
+const FILTER_FIELDS: Record<FilterField, { label: string; prompt: string }> = {
+  minPrice: { label: 'Min rent', prompt: 'Send the minimum rent in € (e.g. 500)' },
+  maxPrice: { label: 'Max rent', prompt: 'Send the maximum rent in € (e.g. 1200)' },
+  minSize: { label: 'Min size', prompt: 'Send the minimum living space in m² (e.g. 45)' },
+  minRooms: { label: 'Min rooms', prompt: 'Send the minimum number of rooms (e.g. 2 or 2,5)' },
+  maxRooms: { label: 'Max rooms', prompt: 'Send the maximum number of rooms (e.g. 3)' },
+  requiredKeywords: {
+    label: 'Required words',
+    prompt: 'Send words that must appear in the listing, separated by commas (e.g. Balkon, EBK)',
+  },
+  excludedKeywords: {
+    label: 'Excluded words',
+    prompt: 'Send words that hide a listing, separated by commas (e.g. WBS, Tausch, befristet)',
+  },
+  maxAgeHours: {
+    label: 'Max age',
+    prompt: 'Send the maximum age of a new listing in hours (e.g. 24) - older postings are skipped',
+  },
+  referencePoint: {
+    label: 'Reference point',
+    prompt: 'Send the place to measure distances from: an address, a postcode or coordinates (e.g. 52.52, 13.40)',
+  },
+  maxDistanceKm: {
+    label: 'Max distance',
+    prompt: 'Send the maximum distance from your reference point in km (e.g. 5)',
+  },
+};
 
-const SUPPORTED_PROVIDERS = ['immoscout', 'immowelt', 'immonet', 'kleinanzeigen', 'wggesucht'] as const;
-type SupportedProvider = (typeof SUPPORTED_PROVIDERS)[number];
+type ScheduleField = 'quietHours' | 'digestAt' | 'timezone';
 
-const PROVIDER_NAMES: Record<SupportedProvider, string> = {
-  immoscout: 'ImmobilienScout24',
-  immowelt: 'Immowelt',
-  immonet: 'Immonet',
-  kleinanzeigen: 'Kleinanzeigen',
-  wggesucht: 'WG-Gesucht',
+const SCHEDULE_FIELDS: Record<ScheduleField, { label: string; prompt: string }> = {
+  quietHours: {
+    label: 'Quiet hours',
+    prompt: 'Send your quiet hours (e.g. 23:00-07:00) - listings found then are sent together afterwards',
+  },
+  digestAt: { label: 'Digest time', prompt: 'Send the time of your daily digest (e.g. 08:00)' },
+  timezone: { label: 'Timezone', prompt: 'Send your timezone (e.g. Europe/Berlin, Europe/London, America/New_York)' },
 };
 
-// Must match provider.name in each provider class (used for checkpoint storage)
-const CHECKPOINT_NAMES: Record<SupportedProvider, string> = {
-  immoscout: 'ImmoScout',
-  immowelt: 'Immowelt',
-  immonet: 'Immonet',
-  kleinanzeigen: 'Kleinanzeigen',
-  wggesucht: 'WgGesucht',
+const DELIVERY_MODE_LABELS: Record<DeliveryMode, string> = {
+  instant: 'Instant',
+  hourly: 'Hourly',
+  daily: 'Daily',
 };
 
 interface UserState {
   awaitingUrlFor?: SupportedProvider;
+  awaitingFilterFor?: {
+    provider: SupportedProvider;
+    field: FilterField;
+  };
+  // Channel id whose address (e.g. e-mail) the user is asked for
+  awaitingChannelAddressFor?: string;
+  awaitingScheduleField?: ScheduleField;
   awaitingCityFor?: {
     provider: 'immowelt' | 'immonet';
     estateType: string;
@@ -34,7 +94,9 @@ interface UserState {
   };
 }
 
-export class TelegramBot {
+export class TelegramBot implements INotificationChannel {
+  readonly id = 'telegram';
+  readonly name = 'Telegram';
   private readonly bot: Telegraf;
   private readonly logger: ILogger;
   private readonly monitoring: MonitoringService;
@@ -42,7 +104,10 @@ export class TelegramBot {
 
   constructor(
     token: string,
-    private readonly db: DatabaseConnection
+    private readonly db: DatabaseConnection,
+    private readonly registry: ProviderRegistry,
+    private readonly geocoder: IGeocoder,
+    private readonly channels: NotificationChannelRegistry
   ) {
     this.logger = LoggerFactory.create('TelegramBot');
     this.monitoring = MonitoringService.getInstance();
@@ -55,19 +120,15 @@ export class TelegramBot {
     this.bot.command('start', (ctx) => this.handleStart(ctx));
     this.bot.command('list', (ctx) => this.handleList(ctx));
     this.bot.command('clear', (ctx) => this.handleClear(ctx));
+    this.bot.command('channels', (ctx) => this.handleChannels(ctx));
+    this.bot.command('schedule', (ctx) => this.handleSchedule(ctx));
     this.bot.command('help', (ctx) => this.handleHelp(ctx));
 
-    this.bot.command('immoscout', (ctx) => this.handleProviderCommand(ctx, 'immoscout'));
-    this.bot.command('immowelt', (ctx) => this.handleProviderCommand(ctx, 'immowelt'));
-    this.bot.command('immonet', (ctx) => this.handleProviderCommand(ctx, 'immonet'));
-    this.bot.command('kleinanzeigen', (ctx) => this.handleProviderCommand(ctx, 'kleinanzeigen'));
-    this.bot.command('wggesucht', (ctx) => this.handleProviderCommand(ctx, 'wggesucht'));
-
-    this.bot.command('remove_immoscout', (ctx) => this.handleRemoveProvider(ctx, 'immoscout'));
-    this.bot.command('remove_immowelt', (ctx) => this.handleRemoveProvider(ctx, 'immowelt'));
-    this.bot.command('remove_immonet', (ctx) => this.handleRemoveProvider(ctx, 'immonet'));
-    this.bot.command('remove_kleinanzeigen', (ctx) => this.handleRemoveProvider(ctx, 'kleinanzeigen'));
-    this.bot.command('remove_wggesucht', (ctx) => this.handleRemoveProvider(ctx, 'wggesucht'));
+    for (const provider of this.getProviderIds()) {
+      const command = provider.toLowerCase();
+      this.bot.command(command, (ctx) => this.handleProviderCommand(ctx, provider));
+      this.bot.command(`remove_${command}`, (ctx) => this.handleRemoveProvider(ctx, provider));
+    }
 
     this.bot.on('text', (ctx) => this.handleTextMessage(ctx));
     this.bot.on('message', (ctx) => this.handleAnyMessage(ctx));
@@ -121,6 +182,140 @@ export class TelegramBot {
       await this.handleHelp(ctx);
     });
 
+    this.bot.action('toggle_price_alerts', async (ctx) => {
+      await ctx.answerCbQuery();
+      const user = await this.ensureUserFromCallback(ctx);
+      if (!user) return;
+
+      await this.db.setPriceAlerts(user.id, !user.price_alerts);
+      this.logger.info(`User ${user.first_name} turned price drop alerts ${user.price_alerts ? 'off' : 'on'}`);
+      await ctx.deleteMessage();
+      await this.handleList(ctx);
+    });
+
+    this.bot.action('toggle_hide_risky', async (ctx) => {
+      await ctx.answerCbQuery();
+      const user = await this.ensureUserFromCallback(ctx);
+      if (!user) return;
+
+      await this.db.setHideRiskyListings(user.id, !user.hide_risky_listings);
+      this.logger.info(`User ${user.first_name} ${user.hide_risky_listings ? 'shows' : 'hides'} suspicious listings`);
+      await ctx.deleteMessage();
+      await this.handleList(ctx);
+    });
+
+    this.bot.action('show_channels', async (ctx) => {
+      await ctx.answerCbQuery();
+      const user = await this.ensureUserFromCallback(ctx);
+      if (!user) return;
+
+      this.userStates.delete(Number(user.telegram_id));
+      await ctx.deleteMessage();
+      await this.showChannelMenu(ctx, user);
+    });
+
+    // Channels are registered after the bot is created - match their ids instead of listing them
+    this.bot.action(/^channel_toggle_([a-z0-9]+)$/, async (ctx) => {
+      await ctx.answerCbQuery();
+      const user = await this.ensureUserFromCallback(ctx);
+      const channel = this.channels.get(ctx.match[1]);
+      if (!user || !channel) return;
+
+      const preference = (await this.db.getNotificationChannels(user.id)).find((c) => c.channel === channel.id);
+      if (preference) {
+        await this.db.setNotificationChannel(user.id, channel.id, preference.address, !preference.enabled);
+      } else if (channel.id === this.id) {
+        await this.db.setNotificationChannel(user.id, channel.id, String(user.telegram_id), true);
+      }
+      this.logger.info(`User ${user.first_name} turned ${channel.id} notifications ${preference?.enabled ? 'off' : 'on'}`);
+      await ctx.deleteMessage();
+      await this.showChannelMenu(ctx, user);
+    });
+
+    this.bot.action(/^channel_set_([a-z0-9]+)$/, async (ctx) => {
+      await ctx.answerCbQuery();
+      const from = ctx.from;
+      const channel = this.channels.get(ctx.match[1]);
+      if (!from || !channel?.addressPrompt) return;
+
+      this.userStates.set(from.id, { awaitingChannelAddressFor: channel.id });
+      await ctx.deleteMessage();
+      const keyboard = Markup.inlineKeyboard([[Markup.button.callback('Cancel', 'show_channels')]]);
+      await ctx.reply(`Send ${channel.addressPrompt}:`, keyboard);
+    });
+
+    // Switches the option to its next choice
+    this.bot.action(/^channel_option_([a-z0-9]+)_(\w+)$/, async (ctx) => {
+      await ctx.answerCbQuery();
+      const user = await this.ensureUserFromCallback(ctx);
+      const channel = this.channels.get(ctx.match[1]);
+      const option = channel?.options?.find((o) => o.key === ctx.match[2]);
+      if (!user || !channel || !option) return;
+
+      const preference = (await this.db.getNotificationChannels(user.id)).find((c) => c.channel === channel.id);
+      if (!preference) return;
+
+      const index = option.choices.findIndex((c) => c.value === preference.settings[option.key]);
+      const next = option.choices[(index + 1) % option.choices.length];
+      await this.db.setNotificationChannel(user.id, channel.id, preference.address, preference.enabled, {
+        [option.key]: next.value,
+      });
+      this.logger.info(`User ${user.first_name} set ${channel.id} ${option.key} to ${next.value}`);
+      await ctx.deleteMessage();
+      await this.showChannelMenu(ctx, user);
+    });
+
+    // Only channels with an address can be removed - the startup backfill would bring a
+    // removed Telegram channel back, so that one can only be turned off
+    this.bot.action(/^channel_remove_([a-z0-9]+)$/, async (ctx) => {
+      await ctx.answerCbQuery();
+      const user = await this.ensureUserFromCallback(ctx);
+      const channel = this.channels.get(ctx.match[1]);
+      if (!user || !channel?.addressPrompt) return;
+
+      await this.db.deleteNotificationChannel(user.id, channel.id);
+      this.logger.info(`User ${user.first_name} removed ${channel.id} notifications`);
+      await ctx.deleteMessage();
+      await this.showChannelMenu(ctx, user);
+    });
+
+    this.bot.action('show_schedule', async (ctx) => {
+      await ctx.answerCbQuery();
+      const user = await this.ensureUserFromCallback(ctx);
+      if (!user) return;
+
+      this.userStates.delete(Number(user.telegram_id));
+      await ctx.deleteMessage();
+      await this.showScheduleMenu(ctx, user);
+    });
+
+    for (const mode of DELIVERY_MODES) {
+      this.bot.action(`schedule_mode_${mode}`, async (ctx) => {
+        await ctx.answerCbQuery();
+        const user = await this.ensureUserFromCallback(ctx);
+        if (!user) return;
+
+        const schedule = (await this.db.getDeliverySchedule(user.id)) ?? DEFAULT_DELIVERY_SCHEDULE;
+        await this.db.setDeliverySchedule(user.id, { ...schedule, mode });
+        this.logger.info(`User ${user.first_name} set delivery mode ${mode}`);
+        await ctx.deleteMessage();
+        await this.showScheduleMenu(ctx, user);
+      });
+    }
+
+    for (const field of Object.keys(SCHEDULE_FIELDS) as ScheduleField[]) {
+      this.bot.action(`schedule_${field}`, async (ctx) => {
+        await ctx.answerCbQuery();
+        const from = ctx.from;
+        if (!from) return;
+
+        this.userStates.set(from.id, { awaitingScheduleField: field });
+        await ctx.deleteMessage();
+        const keyboard = Markup.inlineKeyboard([[Markup.button.callback('Cancel', 'show_schedule')]]);
+        await ctx.reply(`${SCHEDULE_FIELDS[field].prompt}, or send - for the default:`, keyboard);
+      });
+    }
+
     // Listing message buttons - don't delete the listing
     this.bot.action('listing_show_list', async (ctx) => {
       await ctx.answerCbQuery();
@@ -132,7 +327,7 @@ export class TelegramBot {
       await this.handleHelp(ctx);
     });
 
-    for (const provider of SUPPORTED_PROVIDERS) {
+    for (const provider of this.getProviderIds()) {
       this.bot.action(`remove_${provider}`, async (ctx) => {
         await ctx.answerCbQuery();
         const user = await this.ensureUserFromCallback(ctx);
@@ -143,14 +338,14 @@ export class TelegramBot {
         const removedUrl = existingProvider?.url;
 
         const removed = await this.db.deleteUserProvider(user.id, provider);
-        await this.db.clearProviderCheckpoint(user.id, CHECKPOINT_NAMES[provider]);
+        await this.db.clearProviderCheckpoint(user.id, this.getCheckpointName(provider));
         await ctx.deleteMessage();
         if (removed) {
-          await this.monitoring.logSearchRemoved(user.id, user.first_name, PROVIDER_NAMES[provider], removedUrl);
+          await this.monitoring.logSearchRemoved(user.id, user.first_name, this.getProviderName(provider), removedUrl);
           this.logger.info(`User ${user.first_name} removed ${provider} search`);
-          await ctx.reply(`✅ Removed ${PROVIDER_NAMES[provider]} search.`);
+          await ctx.reply(`✅ Removed ${this.getProviderName(provider)} search.`);
         } else {
-          await ctx.reply(`No search found for ${PROVIDER_NAMES[provider]}.`);
+          await ctx.reply(`No search found for ${this.getProviderName(provider)}.`);
         }
         await this.showMainMenu(ctx);
       });
@@ -164,6 +359,43 @@ export class TelegramBot {
         await this.startProviderSetup(ctx, user, provider);
       });
 
+      this.bot.action(`filters_${provider}`, async (ctx) => {
+        await ctx.answerCbQuery();
+        const user = await this.ensureUserFromCallback(ctx);
+        if (!user) return;
+
+        this.userStates.delete(Number(user.telegram_id));
+        await ctx.deleteMessage();
+        await this.showFilterMenu(ctx, user, provider);
+      });
+
+      this.bot.action(`filters_reset_${provider}`, async (ctx) => {
+        await ctx.answerCbQuery();
+        const user = await this.ensureUserFromCallback(ctx);
+        if (!user) return;
+
+        await this.db.deleteSearchFilter(user.id, provider);
+        this.logger.info(`User ${user.first_name} reset ${provider} filters`);
+        await ctx.deleteMessage();
+        await ctx.reply(`✅ Filters for ${this.getProviderName(provider)} removed.`);
+        await this.showFilterMenu(ctx, user, provider);
+      });
+
+      for (const field of Object.keys(FILTER_FIELDS) as FilterField[]) {
+        this.bot.action(`filter_${field}_${provider}`, async (ctx) => {
+          await ctx.answerCbQuery();
+          const from = ctx.from;
+          if (!from) return;
+
+          this.userStates.set(from.id, { awaitingFilterFor: { provider, field } });
+          await ctx.deleteMessage();
+          const keyboard = Markup.inlineKeyboard([
+            [Markup.button.callback('Cancel', `filters_${provider}`)],
+          ]);
+          await ctx.reply(`${FILTER_FIELDS[field].prompt}, or send - to remove it:`, keyboard);
+        });
+      }
+
       this.bot.action(`add_${provider}`, async (ctx) => {
         try {
           await ctx.answerCbQuery();
@@ -184,6 +416,19 @@ export class TelegramBot {
 
   }
 
+  private getProviderIds(): SupportedProvider[] {
+    return this.registry.getAll().map((d) => d.id);
+  }
+
+  private getProviderName(provider: SupportedProvider): string {
+    return this.registry.get(provider)?.displayName ?? provider;
+  }
+
+  // Must match provider.name in each provider (used for checkpoint storage)
+  private getCheckpointName(provider: SupportedProvider): string {
+    return this.registry.get(provider)?.name ?? provider;
+  }
+
   private async ensureUserFromCallback(ctx: Context): Promise<DbUser | null> {
     const from = ctx.from;
     if (!from) {
@@ -230,10 +475,7 @@ export class TelegramBot {
         `This bot monitors listings and notifies you INSTANTLY when something new appears. ` +
         `Be among the first to respond and dramatically increase your chances.\n\n` +
         `All major platforms in one place:\n` +
-        `- ImmobilienScout24\n` +
-        `- Immowelt\n` +
-        `- Kleinanzeigen\n` +
-        `- WG-Gesucht`,
+        this.registry.getAll().map((d) => `- ${d.displayName}`).join('\n'),
       keyboard
     );
   }
@@ -250,52 +492,19 @@ export class TelegramBot {
     this.userStates.set(telegramId, { awaitingUrlFor: provider });
     this.logger.info(`User ${user.first_name} (${telegramId}) started ${provider} setup`);
 
-    const instructions: Record<SupportedProvider, string> = {
-      immoscout:
-        `ImmobilienScout24 setup:\n\n` +
-        `1. Go to immobilienscout24.de\n` +
-        `2. Search for apartments in your city\n` +
-        `3. Apply filters (price, rooms, size)\n` +
-        `4. Copy URL from browser\n\n` +
-        `Example URL:\n` +
-        `immobilienscout24.de/Suche/de/berlin/berlin/wohnung-mieten?price=-1500.0&roomsMin=2`,
-      immowelt:
-        `Immowelt setup:\n\n` +
-        `1. Go to immowelt.de\n` +
-        `2. Search for apartments in your city\n` +
-        `3. Apply filters (price, rooms, size)\n` +
-        `4. Copy URL from browser\n\n` +
-        `Example URL:\n` +
-        `immowelt.de/liste/berlin/wohnungen/mieten?pma=1500&rmi=2`,
-      immonet:
-        `Immonet setup:\n\n` +
-        `1. Go to immonet.de\n` +
+    const definition = this.registry.get(provider);
+    const instructions =
+      definition?.setupInstructions?.join('\n') ??
+      `${this.getProviderName(provider)} setup:\n\n` +
+        `1. Go to the platform website\n` +
         `2. Search for apartments in your city\n` +
         `3. Apply filters (price, rooms, size)\n` +
-        `4. Copy URL from browser\n\n` +
-        `Note: Immonet uses the same listings as Immowelt.`,
-      kleinanzeigen:
-        `Kleinanzeigen setup:\n\n` +
-        `1. Go to kleinanzeigen.de\n` +
-        `2. Search in "Immobilien" category\n` +
-        `3. Select your city and apply filters\n` +
-        `4. Copy URL from browser\n\n` +
-        `Example URL:\n` +
-        `kleinanzeigen.de/s-wohnung-mieten/berlin/anzeige:angebote/c203l3331`,
-      wggesucht:
-        `WG-Gesucht setup:\n\n` +
-        `1. Go to wg-gesucht.de\n` +
-        `2. Search for WG rooms or apartments\n` +
-        `3. Select your city and apply filters\n` +
-        `4. Copy URL from browser\n\n` +
-        `Example URL:\n` +
-        `wg-gesucht.de/wg-zimmer-in-Muenchen.90.0.1.0.html`,
-    };
+        `4. Copy URL from browser`;
 
     const keyboard = Markup.inlineKeyboard([
       [Markup.button.callback('Cancel', 'cancel_url_input')],
     ]);
-    await ctx.reply(`${instructions[provider]}\n\nSend a message with your search URL for ${PROVIDER_NAMES[provider]}:`, keyboard);
+    await ctx.reply(`${instructions}\n\nSend a message with your search URL for ${this.getProviderName(provider)}:`, keyboard);
   }
 
   private async handleAnyMessage(ctx: Context): Promise<void> {
@@ -321,6 +530,21 @@ export class TelegramBot {
 
       this.logger.info(`handleTextMessage: from=${from.id}, text="${text.substring(0, 50)}", state=${JSON.stringify(state)}`);
 
+      if (state?.awaitingFilterFor) {
+        await this.handleFilterInput(ctx, state.awaitingFilterFor.provider, state.awaitingFilterFor.field, text);
+        return;
+      }
+
+      if (state?.awaitingScheduleField) {
+        await this.handleScheduleInput(ctx, state.awaitingScheduleField, text);
+        return;
+      }
+
+      if (state?.awaitingChannelAddressFor) {
+        await this.handleChannelAddressInput(ctx, state.awaitingChannelAddressFor, text);
+        return;
+      }
+
       // Handle city input for Immowelt/Immonet URL conversion
       if (state?.awaitingCityFor) {
         this.logger.info(`Processing city input: ${text}`);
@@ -362,17 +586,17 @@ export class TelegramBot {
         const isUpdate = existingProviders.some((p) => p.provider === provider);
 
         await this.db.setUserProvider(user.id, provider, cleanedUrl);
-        await this.db.clearProviderCheckpoint(user.id, CHECKPOINT_NAMES[provider]);
+        await this.db.clearProviderCheckpoint(user.id, this.getCheckpointName(provider));
         this.userStates.delete(from.id);
 
         if (isUpdate) {
-          await this.monitoring.logSearchUpdated(user.id, user.first_name, PROVIDER_NAMES[provider], cleanedUrl);
+          await this.monitoring.logSearchUpdated(user.id, user.first_name, this.getProviderName(provider), cleanedUrl);
         } else {
-          await this.monitoring.logSearchAdded(user.id, user.first_name, PROVIDER_NAMES[provider], cleanedUrl);
+          await this.monitoring.logSearchAdded(user.id, user.first_name, this.getProviderName(provider), cleanedUrl);
         }
 
         this.logger.info(`User ${user.first_name} set ${provider} search (from city input): ${cleanedUrl}`);
-        await ctx.reply(`✅ ${PROVIDER_NAMES[provider]} search saved!\n\nYou'll receive a confirmation when the first listing is found.`);
+        await ctx.reply(`✅ ${this.getProviderName(provider)} search saved!\n\nYou'll receive a confirmation when the first listing is found.`);
         await this.showMainMenu(ctx);
         return;
       }
@@ -420,17 +644,17 @@ export class TelegramBot {
       const isUpdate = existingProviders.some((p) => p.provider === provider);
 
       await this.db.setUserProvider(user.id, provider, cleanedUrl);
-      await this.db.clearProviderCheckpoint(user.id, CHECKPOINT_NAMES[provider]);
+      await this.db.clearProviderCheckpoint(user.id, this.getCheckpointName(provider));
       this.userStates.delete(from.id);
 
       if (isUpdate) {
-        await this.monitoring.logSearchUpdated(user.id, user.first_name, PROVIDER_NAMES[provider], cleanedUrl);
+        await this.monitoring.logSearchUpdated(user.id, user.first_name, this.getProviderName(provider), cleanedUrl);
       } else {
-        await this.monitoring.logSearchAdded(user.id, user.first_name, PROVIDER_NAMES[provider], cleanedUrl);
+        await this.monitoring.logSearchAdded(user.id, user.first_name, this.getProviderName(provider), cleanedUrl);
       }
 
       this.logger.info(`User ${user.first_name} set ${provider} search`);
-      await ctx.reply(`✅ ${PROVIDER_NAMES[provider]} search saved!\n\nYou'll receive a confirmation when the first listing is found.`);
+      await ctx.reply(`✅ ${this.getProviderName(provider)} search saved!\n\nYou'll receive a confirmation when the first listing is found.`);
       await this.showMainMenu(ctx);
     } catch (error) {
       this.logger.error(`Error in handleTextMessage: ${error}`);
@@ -445,15 +669,9 @@ export class TelegramBot {
   ): { valid: boolean; error?: string; parsedParams?: { provider: 'immowelt' | 'immonet'; estateType: string; distributionType: string; extraParams?: string } } {
     try {
       const parsed = new URL(url);
-      const expectedDomains: Record<SupportedProvider, string[]> = {
-        immoscout: ['immobilienscout24.de', 'www.immobilienscout24.de'],
-        immowelt: ['immowelt.de', 'www.immowelt.de'],
-        immonet: ['immonet.de', 'www.immonet.de'],
-        kleinanzeigen: ['kleinanzeigen.de', 'www.kleinanzeigen.de'],
-        wggesucht: ['wg-gesucht.de', 'www.wg-gesucht.de'],
-      };
-
-      if (!expectedDomains[provider].includes(parsed.hostname)) {
+      const expectedDomains = this.registry.get(provider)?.allowedDomains ?? [];
+
+      if (!expectedDomains.includes(parsed.hostname)) {
         return { valid: false, error: 'wrong_domain' };
       }
 
@@ -531,17 +749,23 @@ export class TelegramBot {
 
     const userProviders = await this.db.getUserProviders(user.id);
     const configuredSet = new Set(userProviders.map((p) => p.provider));
+    const filters = new Map((await this.db.getSearchFilters(user.id)).map((f) => [f.provider, f.filter]));
 
     const lines: string[] = [];
     const buttons: ReturnType<typeof Markup.button.callback>[][] = [];
 
-    for (const provider of SUPPORTED_PROVIDERS) {
+    for (const provider of this.getProviderIds()) {
       if (configuredSet.has(provider)) {
-        lines.push(`✓ ${PROVIDER_NAMES[provider]}`);
+        const filter = filters.get(provider);
+        lines.push(`✓ ${this.getProviderName(provider)}`);
+        if (filter && !isEmptySearchFilter(filter)) {
+          lines.push(...this.formatFilter(filter).map((line) => `   ${line}`));
+        }
         buttons.push([
-          Markup.button.callback(`Edit ${PROVIDER_NAMES[provider]}`, `edit_${provider}`),
-          Markup.button.callback(`Remove ${PROVIDER_NAMES[provider]}`, `remove_${provider}`),
+          Markup.button.callback(`Edit ${this.getProviderName(provider)}`, `edit_${provider}`),
+          Markup.button.callback(`Remove ${this.getProviderName(provider)}`, `remove_${provider}`),
         ]);
+        buttons.push([Markup.button.callback(`Filters ${this.getProviderName(provider)}`, `filters_${provider}`)]);
       }
     }
 
@@ -549,21 +773,314 @@ export class TelegramBot {
       lines.push('');
     }
 
-    const unconfigured = SUPPORTED_PROVIDERS.filter((p) => !configuredSet.has(p));
+    const unconfigured = this.getProviderIds().filter((p) => !configuredSet.has(p));
     if (unconfigured.length > 0) {
       lines.push('Available to add:');
       for (const provider of unconfigured) {
-        lines.push(`○ ${PROVIDER_NAMES[provider]}`);
-        buttons.push([Markup.button.callback(`Add ${PROVIDER_NAMES[provider]}`, `add_${provider}`)]);
+        lines.push(`○ ${this.getProviderName(provider)}`);
+        buttons.push([Markup.button.callback(`Add ${this.getProviderName(provider)}`, `add_${provider}`)]);
       }
     }
 
+    if (configuredSet.size > 0) {
+      const priceAlertsLabel = user.price_alerts ? 'Price drop alerts: On' : 'Price drop alerts: Off';
+      buttons.push([Markup.button.callback(priceAlertsLabel, 'toggle_price_alerts')]);
+      const riskyLabel = user.hide_risky_listings ? 'Suspicious listings: Hidden' : 'Suspicious listings: Shown';
+      buttons.push([Markup.button.callback(riskyLabel, 'toggle_hide_risky')]);
+    }
+    buttons.push([
+      Markup.button.callback('Notification channels', 'show_channels'),
+      Markup.button.callback('Delivery schedule', 'show_schedule'),
+    ]);
     buttons.push([Markup.button.callback('Close', 'close_message')]);
 
     const keyboard = Markup.inlineKeyboard(buttons);
     await ctx.reply(lines.join('\n'), keyboard);
   }
 
+  private async handleChannels(ctx: Context): Promise<void> {
+    const user = await this.ensureUser(ctx);
+    if (!user) return;
+    await this.showChannelMenu(ctx, user);
+  }
+
+  private async showChannelMenu(ctx: Context, user: DbUser): Promise<void> {
+    const preferences = new Map((await this.db.getNotificationChannels(user.id)).map((c) => [c.channel, c]));
+    const lines = ['Where new listings and price drops are sent:', ''];
+    const buttons: ReturnType<typeof Markup.button.callback>[][] = [];
+
+    for (const channel of this.channels.list()) {
+      const preference = preferences.get(channel.id);
+      if (!preference) {
+        lines.push(`○ ${channel.name} - not set up`);
+        const action = channel.addressPrompt ? `channel_set_${channel.id}` : `channel_toggle_${channel.id}`;
+        buttons.push([Markup.button.callback(`Set up ${channel.name}`, action)]);
+        continue;
+      }
+
+      const address = channel.addressPrompt
+        ? `: ${channel.displayAddress?.(preference.address) ?? preference.address}`
+        : '';
+      lines.push(`${preference.enabled ? '✓' : '○'} ${channel.name}${address}${preference.enabled ? '' : ' (off)'}`);
+      lines.push(...(channel.describeSettings?.(preference.settings) ?? []).map((line) => `   ${line}`));
+      const row = [
+        Markup.button.callback(`${channel.name}: ${preference.enabled ? 'On' : 'Off'}`, `channel_toggle_${channel.id}`),
+      ];
+      if (channel.addressPrompt) {
+        row.push(Markup.button.callback('Change', `channel_set_${channel.id}`));
+        row.push(Markup.button.callback('Remove', `channel_remove_${channel.id}`));
+      }
+      buttons.push(row);
+      for (const option of channel.options ?? []) {
+        const current = option.choices.find((c) => c.value === preference.settings[option.key]) ?? option.choices[0];
+        buttons.push([
+          Markup.button.callback(`${channel.name} ${option.label}: ${current.label}`, `channel_option_${channel.id}_${option.key}`),
+        ]);
+      }
+    }
+
+    const anyEnabled = Array.from(preferences.values()).some((p) => p.enabled && this.channels.get(p.channel));
+    if (!anyEnabled) {
+      lines.push('', `⚠️ No channel is on - you won't receive any listings.`);
+    }
+    buttons.push([Markup.button.callback('Back', 'show_list')]);
+
+    await ctx.reply(lines.join('\n'), Markup.inlineKeyboard(buttons));
+  }
+
+  private async handleChannelAddressInput(ctx: Context, channelId: string, text: string): Promise<void> {
+    const user = await this.ensureUser(ctx);
+    const channel = this.channels.get(channelId);
+    if (!user || !channel) return;
+
+    const address = channel.parseAddress?.(text) ?? null;
+    if (!address) {
+      await ctx.reply(`❌ That doesn't look like ${channel.addressPrompt}. Please try again.`);
+      return;
+    }
+
+    // A changed address keeps the settings, e.g. the webhook secret
+    const existing = (await this.db.getNotificationChannels(user.id)).some((c) => c.channel === channel.id);
+    const settings = existing ? {} : channel.createSettings?.() ?? {};
+
+    this.userStates.delete(Number(user.telegram_id));
+    await this.db.setNotificationChannel(user.id, channel.id, address, true, settings);
+    this.logger.info(`User ${user.first_name} set up ${channel.id} notifications`);
+    await ctx.reply(`✅ ${channel.name} notifications are on.`);
+    await this.showChannelMenu(ctx, user);
+  }
+
+  private async handleSchedule(ctx: Context): Promise<void> {
+    const user = await this.ensureUser(ctx);
+    if (!user) return;
+    await this.showScheduleMenu(ctx, user);
+  }
+
+  private async showScheduleMenu(ctx: Context, user: DbUser): Promise<void> {
+    const schedule = (await this.db.getDeliverySchedule(user.id)) ?? DEFAULT_DELIVERY_SCHEDULE;
+    const modeButtons = DELIVERY_MODES.map((mode) =>
+      Markup.button.callback(
+        `${mode === schedule.mode ? '✓ ' : ''}${DELIVERY_MODE_LABELS[mode]}`,
+        `schedule_mode_${mode}`
+      )
+    );
+    const keyboard = Markup.inlineKeyboard([
+      modeButtons,
+      [
+        Markup.button.callback(SCHEDULE_FIELDS.quietHours.label, 'schedule_quietHours'),
+        Markup.button.callback(SCHEDULE_FIELDS.digestAt.label, 'schedule_digestAt'),
+      ],
+      [Markup.button.callback(SCHEDULE_FIELDS.timezone.label, 'schedule_timezone')],
+      [Markup.button.callback('Back', 'show_list')],
+    ]);
+
+    await ctx.reply(
+      `Delivery schedule\n\n${this.formatSchedule(schedule).join('\n')}\n\n` +
+        `Instant sends listings as soon as they're found. Hourly and Daily collect them into one summary. ` +
+        `Nothing is sent during quiet hours - it all comes in one digest when they end.`,
+      keyboard
+    );
+  }
+
+  private async handleScheduleInput(ctx: Context, field: ScheduleField, text: string): Promise<void> {
+    const user = await this.ensureUser(ctx);
+    if (!user) return;
+
+    const schedule: DeliverySchedule = {
+      ...((await this.db.getDeliverySchedule(user.id)) ?? DEFAULT_DELIVERY_SCHEDULE),
+    };
+    const input = text.trim();
+    const reset = input === '-';
+
+    if (field === 'quietHours') {
+      const range = reset ? null : parseTimeRange(input);
+      if (!reset && !range) {
+        await ctx.reply('❌ Please send a time range like 23:00-07:00, or - to turn quiet hours off.');
+        return;
+      }
+      schedule.quietHours = range;
+    } else if (field === 'digestAt') {
+      const time = reset ? DEFAULT_DELIVERY_SCHEDULE.digestAt : parseClockTime(input);
+      if (time === null) {
+        await ctx.reply('❌ Please send a time like 08:00.');
+        return;
+      }
+      schedule.digestAt = time;
+    } else {
+      if (!reset && !isValidTimeZone(input)) {
+        await ctx.reply('❌ Unknown timezone. Please send a name like Europe/Berlin.');
+        return;
+      }
+      schedule.timezone = reset ? DEFAULT_DELIVERY_SCHEDULE.timezone : input;
+    }
+
+    this.userStates.delete(Number(user.telegram_id));
+    await this.db.setDeliverySchedule(user.id, schedule);
+    this.logger.info(`User ${user.first_name} set delivery ${field}`);
+    await ctx.reply('✅ Schedule saved.');
+    await this.showScheduleMenu(ctx, user);
+  }
+
+  private formatSchedule(schedule: DeliverySchedule): string[] {
+    const modes: Record<DeliveryMode, string> = {
+      instant: 'Instant',
+      hourly: 'Hourly summary',
+      daily: `Daily digest at ${formatClockTime(schedule.digestAt)}`,
+    };
+    const quiet = schedule.quietHours
+      ? `${formatClockTime(schedule.quietHours.start)}–${formatClockTime(schedule.quietHours.end)}`
+      : 'off';
+    return [`📬 Delivery: ${modes[schedule.mode]}`, `🌙 Quiet hours: ${quiet}`, `🌍 Timezone: ${schedule.timezone}`];
+  }
+
+  private async showFilterMenu(ctx: Context, user: DbUser, provider: SupportedProvider): Promise<void> {
+    const filter = (await this.db.getSearchFilter(user.id, provider)) ?? EMPTY_SEARCH_FILTER;
+    const description = isEmptySearchFilter(filter)
+      ? 'No filters set - you get every listing of your search.'
+      : this.formatFilter(filter).join('\n');
+
+    const button = (field: FilterField) =>
+      Markup.button.callback(FILTER_FIELDS[field].label, `filter_${field}_${provider}`);
+    const keyboard = Markup.inlineKeyboard([
+      [button('minPrice'), button('maxPrice')],
+      [button('minRooms'), button('maxRooms')],
+      [button('minSize'), button('maxAgeHours')],
+      [button('requiredKeywords'), button('excludedKeywords')],
+      [button('referencePoint'), button('maxDistanceKm')],
+      [Markup.button.callback('Reset filters', `filters_reset_${provider}`)],
+      [Markup.button.callback('Back', 'show_list')],
+    ]);
+
+    await ctx.reply(
+      `Filters for ${this.getProviderName(provider)}\n\n${description}\n\n` +
+        `Listings that don't match are skipped. Values a listing doesn't mention are not checked.`,
+      keyboard
+    );
+  }
+
+  private async handleFilterInput(
+    ctx: Context,
+    provider: SupportedProvider,
+    field: FilterField,
+    text: string
+  ): Promise<void> {
+    const user = await this.ensureUser(ctx);
+    if (!user) return;
+
+    const current = (await this.db.getSearchFilter(user.id, provider)) ?? EMPTY_SEARCH_FILTER;
+    const filter: SearchFilter = { ...current };
+    const input = text.trim();
+    const clear = input === '-';
+
+    if (field === 'requiredKeywords' || field === 'excludedKeywords') {
+      filter[field] = clear ? [] : input.split(',').map((k) => k.trim()).filter(Boolean);
+    } else if (field === 'referencePoint') {
+      if (clear) {
+        filter.referencePoint = null;
+      } else {
+        const point = await this.locateReferencePoint(ctx, input);
+        if (!point) return;
+        filter.referencePoint = { label: input, ...point };
+      }
+    } else {
+      const value = clear ? null : parseGermanNumber(input);
+      if (!clear && value === null) {
+        await ctx.reply('❌ Please send a number, or - to remove this filter.');
+        return;
+      }
+      filter[field] = value;
+    }
+
+    if (
+      (filter.minPrice !== null && filter.maxPrice !== null && filter.minPrice > filter.maxPrice) ||
+      (filter.minRooms !== null && filter.maxRooms !== null && filter.minRooms > filter.maxRooms)
+    ) {
+      await ctx.reply('❌ The minimum must not be larger than the maximum. Please send another value.');
+      return;
+    }
+
+    this.userStates.delete(Number(user.telegram_id));
+    if (isEmptySearchFilter(filter)) {
+      await this.db.deleteSearchFilter(user.id, provider);
+    } else {
+      await this.db.setSearchFilter(user.id, provider, filter);
+    }
+
+    this.logger.info(`User ${user.first_name} set ${provider} filter ${field}`);
+    await ctx.reply(
+      filter.maxDistanceKm !== null && filter.referencePoint === null
+        ? '✅ Filter saved. Set a reference point too - the distance is measured from it.'
+        : '✅ Filter saved.'
+    );
+    await this.showFilterMenu(ctx, user, provider);
+  }
+
+  // Coordinates are taken as they are, anything else goes to the geocoder
+  private async locateReferencePoint(ctx: Context, input: string): Promise<{ lat: number; lon: number } | null> {
+    const coordinates = parseCoordinates(input);
+    if (coordinates) return coordinates;
+
+    try {
+      const point = await this.geocoder.geocode(input);
+      if (!point) {
+        await ctx.reply(`❌ Couldn't find that place. Please send a postcode, an address or coordinates (e.g. 52.52, 13.40).`);
+      }
+      return point;
+    } catch (error) {
+      this.logger.error(`Geocoding "${input}" failed: ${error}`);
+      await ctx.reply('❌ Looking up places is unavailable right now. Please try again later or send coordinates.');
+      return null;
+    }
+  }
+
+  private formatFilter(filter: SearchFilter): string[] {
+    const num = (value: number) => value.toLocaleString('de-DE');
+    const range = (min: number | null, max: number | null, unit: string): string | null => {
+      if (min !== null && max !== null) return `${num(min)} – ${num(max)}${unit}`;
+      if (min !== null) return `from ${num(min)}${unit}`;
+      if (max !== null) return `up to ${num(max)}${unit}`;
+      return null;
+    };
+
+    const lines: string[] = [];
+    const rent = range(filter.minPrice, filter.maxPrice, ' €');
+    const size = range(filter.minSize, null, ' m²');
+    const rooms = range(filter.minRooms, filter.maxRooms, '');
+    if (rent) lines.push(`💰 Rent: ${rent}`);
+    if (size) lines.push(`📐 Size: ${size}`);
+    if (rooms) lines.push(`🛏 Rooms: ${rooms}`);
+    if (filter.requiredKeywords.length > 0) lines.push(`✅ Must mention: ${filter.requiredKeywords.join(', ')}`);
+    if (filter.excludedKeywords.length > 0) lines.push(`🚫 Hide if mentions: ${filter.excludedKeywords.join(', ')}`);
+    if (filter.maxAgeHours !== null) lines.push(`🕒 Posted within: ${num(filter.maxAgeHours)} h`);
+    if (filter.referencePoint) {
+      const within = filter.maxDistanceKm !== null ? `Within ${num(filter.maxDistanceKm)} km of` : 'Distance from';
+      lines.push(`📏 ${within} ${filter.referencePoint.label}`);
+    } else if (filter.maxDistanceKm !== null) {
+      lines.push(`📏 Within ${num(filter.maxDistanceKm)} km (no reference point set)`);
+    }
+    return lines;
+  }
+
   private async handleRemoveProvider(ctx: Context, provider: SupportedProvider): Promise<void> {
     const user = await this.ensureUser(ctx);
     if (!user) return;
@@ -573,13 +1090,13 @@ export class TelegramBot {
     const removedUrl = existingProvider?.url;
 
     const removed = await this.db.deleteUserProvider(user.id, provider);
-    await this.db.clearProviderCheckpoint(user.id, CHECKPOINT_NAMES[provider]);
+    await this.db.clearProviderCheckpoint(user.id, this.getCheckpointName(provider));
     if (removed) {
-      await this.monitoring.logSearchRemoved(user.id, user.first_name, PROVIDER_NAMES[provider], removedUrl);
+      await this.monitoring.logSearchRemoved(user.id, user.first_name, this.getProviderName(provider), removedUrl);
       this.logger.info(`User ${user.first_name} removed ${provider} search`);
-      await ctx.reply(`✅ Removed ${PROVIDER_NAMES[provider]} search`);
+      await ctx.reply(`✅ Removed ${this.getProviderName(provider)} search`);
     } else {
-      await ctx.reply(`No search found for ${PROVIDER_NAMES[provider]}`);
+      await ctx.reply(`No search found for ${this.getProviderName(provider)}`);
     }
   }
 
@@ -606,14 +1123,14 @@ export class TelegramBot {
     }
 
     const buttons: ReturnType<typeof Markup.button.callback>[][] = [];
-    for (const provider of SUPPORTED_PROVIDERS) {
+    for (const provider of this.getProviderIds()) {
       if (configuredSet.has(provider)) {
         buttons.push([
-          Markup.button.callback(`Edit ${PROVIDER_NAMES[provider]}`, `edit_${provider}`),
-          Markup.button.callback(`Remove ${PROVIDER_NAMES[provider]}`, `remove_${provider}`),
+          Markup.button.callback(`Edit ${this.getProviderName(provider)}`, `edit_${provider}`),
+          Markup.button.callback(`Remove ${this.getProviderName(provider)}`, `remove_${provider}`),
         ]);
       } else {
-        buttons.push([Markup.button.callback(`Add ${PROVIDER_NAMES[provider]}`, `add_${provider}`)]);
+        buttons.push([Markup.button.callback(`Add ${this.getProviderName(provider)}`, `add_${provider}`)]);
       }
     }
     buttons.push([Markup.button.callback('Manage Notifications', 'show_list')]);
@@ -652,6 +1169,8 @@ export class TelegramBot {
       { command: 'start', description: 'Start the bot' },
       { command: 'list', description: 'Manage notifications' },
       { command: 'clear', description: 'Remove all notifications' },
+      { command: 'channels', description: 'Choose where notifications are sent' },
+      { command: 'schedule', description: 'Set quiet hours and digests' },
       { command: 'help', description: 'Show help' },
     ]);
 
@@ -671,8 +1190,41 @@ export class TelegramBot {
     this.logger.info('Telegram bot stopped');
   }
 
-  async notifyNewListings(telegramId: number, listings: Listing[]): Promise<void> {
-    if (listings.length === 0) return;
+  // The recipient address is the Telegram chat id
+  async send(recipient: NotificationRecipient, notification: ListingNotification): Promise<void> {
+    const telegramId = parseInt(recipient.address, 10);
+    if (isNaN(telegramId)) {
+      throw new Error(`Invalid Telegram chat id: ${recipient.address}`);
+    }
+
+    // Held back results come with a summary first, the buttons stay on the last message
+    const { newListings, priceDrops, heldSince } = notification;
+    const messages = [
+      ...(heldSince ? [this.formatDigestHeader(notification, heldSince, recipient.timezone)] : []),
+      ...newListings.map((listing) => this.formatListingMessage(listing, recipient.timezone)),
+      ...priceDrops.map((change) => this.formatPriceDropMessage(change, recipient.timezone)),
+    ];
+    await this.sendListingMessages(telegramId, messages);
+  }
+
+  private formatDigestHeader(notification: ListingNotification, heldSince: Date, timezone: string): string {
+    const parts: string[] = [];
+    const count = (n: number, noun: string) => `${n} ${noun}${n === 1 ? '' : 's'}`;
+    if (notification.newListings.length > 0) parts.push(count(notification.newListings.length, 'new listing'));
+    if (notification.priceDrops.length > 0) parts.push(count(notification.priceDrops.length, 'price drop'));
+    return `📬 <b>Digest:</b> ${parts.join(', ')} since ${this.formatDateTime(heldSince, timezone)}`;
+  }
+
+  private formatPriceDropMessage({ listing, previousRent, currentRent }: PriceChange, timezone: string): string {
+    return this.formatListingMessage(
+      listing,
+      timezone,
+      `📉 <b>Price reduced from ${this.formatEuro(previousRent)} to ${this.formatEuro(currentRent)}</b> on ${listing.source}`
+    );
+  }
+
+  private async sendListingMessages(telegramId: number, messages: string[]): Promise<void> {
+    if (messages.length === 0) return;
 
     const keyboard = Markup.inlineKeyboard([
       [
@@ -681,10 +1233,11 @@ export class TelegramBot {
       ],
     ]);
 
-    for (let i = 0; i < listings.length; i++) {
-      const listing = listings[i];
-      const message = this.formatListingMessage(listing);
-      const isLast = i === listings.length - 1;
+    let delivered = 0;
+    let lastError: unknown = null;
+    for (let i = 0; i < messages.length; i++) {
+      const message = messages[i];
+      const isLast = i === messages.length - 1;
 
       try {
         if (isLast) {
@@ -692,6 +1245,7 @@ export class TelegramBot {
         } else {
           await this.bot.telegram.sendMessage(telegramId, message, { parse_mode: 'HTML' });
         }
+        delivered++;
       } catch (error) {
         const errorMsg = String(error);
         // Handle blocked users - deactivate them
@@ -706,23 +1260,89 @@ export class TelegramBot {
           return; // Stop trying to send more notifications
         }
         this.logger.error(`Failed to send notification to ${telegramId}: ${error}`);
+        lastError = error;
       }
     }
+
+    // Single failed messages are only logged - with nothing delivered the caller holds the batch again
+    if (delivered === 0 && lastError) {
+      throw new Error(`No message reached Telegram chat ${telegramId}: ${lastError}`, { cause: lastError });
+    }
   }
 
-  private formatListingMessage(listing: Listing): string {
+  private formatListingMessage(
+    listing: Listing,
+    timezone: string,
+    headline = `🏠 <b>New listing from ${listing.source}</b>`
+  ): string {
     const lines: string[] = [];
-    lines.push(`🏠 <b>New listing from ${listing.source}</b>`);
+    lines.push(headline);
+    if (listing.risk?.level === 'high') {
+      lines.push(`⚠️ <b>Possible scam:</b> ${this.escapeHtml(listing.risk.reasons.join('; '))}`);
+    }
     lines.push('');
     lines.push(`<b>${this.escapeHtml(listing.title)}</b>`);
     if (listing.price) lines.push(`💰 ${this.escapeHtml(listing.price)}`);
     if (listing.size) lines.push(`📐 ${this.escapeHtml(listing.size)}`);
+    if (listing.metrics?.pricePerSqm) lines.push(`📊 ${listing.metrics.pricePerSqm.toFixed(2).replace('.', ',')} €/m²`);
+    if (listing.market) lines.push(`📈 ${this.formatMarketComparison(listing.market)}`);
     if (listing.address) lines.push(`📍 ${this.escapeHtml(listing.address)}`);
+    if (listing.distanceKm != null) {
+      lines.push(`📏 ${listing.distanceKm.toLocaleString('de-DE', { maximumFractionDigits: 1 })} km from your reference point`);
+    }
+    if (listing.postedAt) {
+      lines.push(`🕒 Posted: ${this.formatDateTime(listing.postedAt, timezone)}${listing.promoted ? ' (promoted)' : ''}`);
+    }
+
+    const details = (listing as EnrichedListing).details;
+    if (details) {
+      const facts: string[] = [];
+      if (details.rooms) facts.push(`🛏 ${this.escapeHtml(details.rooms)} rooms`);
+      if (details.floor) facts.push(`🏢 Floor: ${this.escapeHtml(details.floor)}`);
+      if (details.availableFrom) facts.push(`📅 Available: ${this.escapeHtml(details.availableFrom)}`);
+      if (details.coldRent) facts.push(`💶 Cold: ${this.escapeHtml(details.coldRent)}`);
+      if (details.warmRent) facts.push(`🔥 Warm: ${this.escapeHtml(details.warmRent)}`);
+      if (details.deposit) facts.push(`🔐 Deposit: ${this.escapeHtml(details.deposit)}`);
+      if (details.energyClass) facts.push(`⚡ Energy class: ${this.escapeHtml(details.energyClass)}`);
+      if (facts.length > 0) {
+        lines.push('');
+        lines.push(...facts);
+      }
+      if (details.description) {
+        const description = details.description.length > 400
+          ? `${details.description.substring(0, 400)}…`
+          : details.description;
+        lines.push('');
+        lines.push(`<i>${this.escapeHtml(description)}</i>`);
+      }
+    }
+
     lines.push('');
-    lines.push(`<a href="${listing.link}">View listing</a>`);
+    if (listing.alsoListedOn?.length) {
+      const sources = [{ source: listing.source, link: listing.link }, ...listing.alsoListedOn];
+      lines.push(`🔗 Listed on: ${sources.map((s) => `<a href="${s.link}">${this.escapeHtml(s.source)}</a>`).join(' · ')}`);
+    } else {
+      lines.push(`<a href="${listing.link}">View listing</a>`);
+    }
     return lines.join('\n');
   }
 
+  // Within 3% counts as "around the median" - portals round their prices
+  private formatMarketComparison(market: MarketComparison): string {
+    const percent = Math.round(Math.abs(market.deviation) * 100);
+    const median = `${market.medianPricePerSqm.toFixed(2).replace('.', ',')} €/m²`;
+    if (percent < 3) return `Around the median for ${market.label} (${median})`;
+    return `${percent}% ${market.deviation < 0 ? 'below' : 'above'} median for ${market.label} (${median})`;
+  }
+
+  private formatEuro(value: number): string {
+    return `${value.toLocaleString('de-DE', { maximumFractionDigits: 2 })} €`;
+  }
+
+  private formatDateTime(date: Date, timezone: string): string {
+    return date.toLocaleString('de-DE', { timeZone: timezone, dateStyle: 'short', timeStyle: 'short' });
+  }
+
   private escapeHtml(text: string): string {
     return text
       .replace(/&/g, '&amp;')
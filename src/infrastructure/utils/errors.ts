@@ -0,0 +1,78 @@
+export type ScrapeErrorKind =
+  | 'timeout'
+  | 'forbidden'
+  | 'rate_limited'
+  | 'captcha'
+  | 'selector'
+  | 'network'
+  | 'blocked'
+  | 'unknown';
+
+// Scrape failure that left an artifact (screenshot / HTML) behind for the admin
+export class ScrapeError extends Error {
+  constructor(
+    message: string,
+    readonly artifactId: string | null,
+    options?: { cause?: unknown }
+  ) {
+    super(message, options);
+    this.name = 'ScrapeError';
+  }
+}
+
+// Error response from a portal; classified by its status, not by digits in the message
+export class HttpStatusError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'HttpStatusError';
+  }
+}
+
+export function classifyScrapeError(error: Error): ScrapeErrorKind {
+  const status = httpStatusOf(error);
+  if (status === 403) return 'forbidden';
+  if (status === 429) return 'rate_limited';
+  if (status !== null && status >= 500) return 'network';
+
+  // Messages carry the requested URL, which can contain any digits - status codes only count as "HTTP 403"
+  const message = error.message.toLowerCase();
+
+  if (message.includes('timeout')) return 'timeout';
+  if (/\bhttp 403\b/.test(message) || message.includes('forbidden')) return 'forbidden';
+  if (/\bhttp 429\b/.test(message) || message.includes('too many')) return 'rate_limited';
+  if (message.includes('captcha')) return 'captcha';
+  if (message.includes('selector') || message.includes('element')) return 'selector';
+  if (
+    message.includes('navigation') ||
+    message.includes('net::') ||
+    message.includes('fetch failed') ||
+    /\bhttp 5\d\d\b/.test(message)
+  ) {
+    return 'network';
+  }
+  if (message.includes('blocked') || message.includes('denied')) return 'blocked';
+  return 'unknown';
+}
+
+// The status of an HttpStatusError, also when wrapped as the cause of a ScrapeError
+function httpStatusOf(error: Error): number | null {
+  let current: unknown = error;
+  while (current instanceof Error) {
+    if (current instanceof HttpStatusError) return current.status;
+    current = current.cause;
+  }
+  return null;
+}
+
+// Worth another attempt within the same iteration
+export function isTransientError(kind: ScrapeErrorKind): boolean {
+  return kind === 'timeout' || kind === 'network';
+}
+
+// The site is actively refusing us - retrying only makes it worse
+export function isBlockingError(kind: ScrapeErrorKind): boolean {
+  return kind === 'forbidden' || kind === 'rate_limited' || kind === 'captcha' || kind === 'blocked';
+}
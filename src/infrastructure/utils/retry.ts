@@ -0,0 +1,26 @@
+export interface RetryOptions {
+  // Additional attempts after the first one
+  retries: number;
+  baseDelayMs: number;
+}
+
+// Exponential backoff with full jitter so parallel scrapes don't retry in lockstep
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  options: RetryOptions,
+  shouldRetry: (error: Error) => boolean,
+  onRetry?: (error: Error, attempt: number, delayMs: number) => void
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      if (attempt > options.retries || !shouldRetry(err)) throw err;
+
+      const delayMs = Math.round(Math.random() * options.baseDelayMs * 2 ** (attempt - 1));
+      onRetry?.(err, attempt, delayMs);
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+}
@@ -0,0 +1,33 @@
+// Canonical form of a search URL so equivalent searches map to the same key:
+// lowercase host without "www.", sorted query parameters, no fragment or trailing slash
+export function normalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    parsed.hostname = parsed.hostname.toLowerCase().replace(/^www\./, '');
+    parsed.searchParams.sort();
+    if (parsed.pathname.length > 1) {
+      parsed.pathname = parsed.pathname.replace(/\/+$/, '');
+    }
+    return parsed.toString();
+  } catch {
+    return url.trim();
+  }
+}
+
+// Absolute http(s) URL, or null - for URLs users type into the bot
+export function parseHttpUrl(input: string): URL | null {
+  try {
+    const parsed = new URL(input.trim());
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:' ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+// For showing a URL back to the user without credentials or query tokens
+export function redactUrl(url: string): string {
+  const parsed = parseHttpUrl(url);
+  if (!parsed) return url;
+  return `${parsed.protocol}//${parsed.host}${parsed.pathname}${parsed.search ? '?…' : ''}`;
+}
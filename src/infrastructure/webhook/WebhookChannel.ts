@@ -0,0 +1,74 @@
+import { createHmac, randomBytes } from 'crypto';
+import { ChannelOption, INotificationChannel } from '../../domain/ports/INotificationChannel.js';
+import { ListingNotification, NotificationRecipient } from '../../domain/entities/Notification.js';
+import { parseHttpUrl, redactUrl } from '../utils/url.js';
+import { WebhookClient, deliverEach } from './WebhookClient.js';
+import { WebhookEvent, buildBatchEvent, buildListingEvents } from './WebhookPayload.js';
+
+const MODES: ChannelOption = {
+  key: 'mode',
+  label: 'Requests',
+  choices: [
+    { value: 'batch', label: 'One per scrape' },
+    { value: 'listing', label: 'One per listing' },
+  ],
+};
+
+// Receivers verify X-Webhook-Signature against HMAC-SHA256 of "<X-Webhook-Timestamp>.<raw body>"
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+// POSTs versioned JSON events to a URL of the user's choice (Home Assistant, n8n, ...)
+export class WebhookChannel implements INotificationChannel {
+  readonly id = 'webhook';
+  readonly name = 'Webhook';
+  readonly addressPrompt = 'the URL to send listings to (e.g. https://example.com/hooks/flats)';
+  readonly options = [MODES];
+
+  constructor(private readonly client: WebhookClient) {}
+
+  // fetch refuses URLs with credentials - tokens have to go into the path or query
+  parseAddress(input: string): string | null {
+    const url = parseHttpUrl(input);
+    return url && !url.username && !url.password ? url.toString() : null;
+  }
+
+  displayAddress(address: string): string {
+    return redactUrl(address);
+  }
+
+  createSettings(): Record<string, string> {
+    return { secret: randomBytes(24).toString('hex'), mode: 'batch' };
+  }
+
+  describeSettings(settings: Record<string, string>): string[] {
+    const mode = MODES.choices.find((c) => c.value === settings.mode) ?? MODES.choices[0];
+    return [`Signing secret: ${settings.secret ?? 'none'}`, `${MODES.label}: ${mode.label}`];
+  }
+
+  async send(recipient: NotificationRecipient, notification: ListingNotification): Promise<void> {
+    const events =
+      recipient.settings.mode === 'listing'
+        ? buildListingEvents(recipient, notification)
+        : [buildBatchEvent(recipient, notification)];
+
+    await deliverEach(events, (event) => this.deliver(recipient, event));
+  }
+
+  private async deliver(recipient: NotificationRecipient, event: WebhookEvent): Promise<void> {
+    const body = JSON.stringify(event);
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'X-Webhook-Id': event.id,
+      'X-Webhook-Event': event.type,
+      'X-Webhook-Timestamp': timestamp,
+    };
+    if (recipient.settings.secret) {
+      headers['X-Webhook-Signature'] = `sha256=${signWebhookPayload(recipient.settings.secret, timestamp, body)}`;
+    }
+
+    await this.client.post(recipient.address, body, headers);
+  }
+}
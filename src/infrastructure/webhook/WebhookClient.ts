@@ -0,0 +1,81 @@
+import { RetryOptions, withRetry } from '../utils/retry.js';
+import { ILogger, LoggerFactory } from '../logging/Logger.js';
+
+export interface WebhookClientOptions extends RetryOptions {
+  timeoutMs: number;
+}
+
+export class WebhookError extends Error {
+  constructor(
+    message: string,
+    // null when no response arrived (network error, timeout)
+    readonly status: number | null
+  ) {
+    super(message);
+    this.name = 'WebhookError';
+  }
+}
+
+// Timeouts, network errors, 408, 429 and 5xx are retried; other 4xx mean the request itself is wrong
+const isRetryable = (error: Error) =>
+  !(error instanceof WebhookError) ||
+  error.status === null ||
+  error.status === 408 ||
+  error.status === 429 ||
+  error.status >= 500;
+
+export class WebhookClient {
+  private readonly logger: ILogger;
+
+  constructor(private readonly options: WebhookClientOptions) {
+    this.logger = LoggerFactory.create('WebhookClient');
+  }
+
+  async post(url: string, body: string, headers: Record<string, string>): Promise<void> {
+    await withRetry(
+      () => this.request(url, body, headers),
+      this.options,
+      isRetryable,
+      (error, attempt, delayMs) =>
+        this.logger.warn(`POST ${new URL(url).host} failed (${error.message}), retry ${attempt} in ${delayMs}ms`)
+    );
+  }
+
+  private async request(url: string, body: string, headers: Record<string, string>): Promise<void> {
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: { 'User-Agent': 'apartment-scraper', ...headers },
+        body,
+        signal: AbortSignal.timeout(this.options.timeoutMs),
+      });
+    } catch (error) {
+      throw new WebhookError((error as Error).message, null);
+    }
+
+    // Drain the body so the connection can be reused
+    await response.arrayBuffer().catch(() => undefined);
+    if (!response.ok) {
+      throw new WebhookError(`HTTP ${response.status}`, response.status);
+    }
+  }
+}
+
+// Delivers every item even when some fail, then reports the failures together
+export async function deliverEach<T>(items: T[], deliver: (item: T) => Promise<void>): Promise<void> {
+  let failed = 0;
+  let lastError: Error | null = null;
+  for (const item of items) {
+    try {
+      await deliver(item);
+    } catch (error) {
+      failed++;
+      lastError = error as Error;
+    }
+  }
+
+  if (lastError) {
+    throw new Error(`${failed} of ${items.length} request(s) failed: ${lastError.message}`, { cause: lastError });
+  }
+}
@@ -0,0 +1,129 @@
+import { randomUUID } from 'crypto';
+import { EnrichedListing, Listing, ListingDetails, ListingReference } from '../../domain/entities/Listing.js';
+import { ListingNotification, NotificationRecipient } from '../../domain/entities/Notification.js';
+import { PriceChange } from '../../domain/entities/PriceChange.js';
+
+// Bump on breaking changes only - receivers check it before reading the rest.
+// Adding fields is not breaking.
+export const WEBHOOK_PAYLOAD_VERSION = 1;
+
+export interface WebhookListing {
+  id: string;
+  source: string;
+  title: string;
+  link: string;
+  // As shown on the portal
+  price: string | null;
+  size: string | null;
+  address: string | null;
+  image: string | null;
+  // ISO 8601
+  postedAt: string | null;
+  promoted: boolean;
+  // Parsed values in € and m², null when unknown
+  coldRent: number | null;
+  warmRent: number | null;
+  livingSpaceSqm: number | null;
+  rooms: number | null;
+  pricePerSqm: number | null;
+  distanceKm: number | null;
+  alsoListedOn: ListingReference[];
+  market: { label: string; medianPricePerSqm: number; deviation: number } | null;
+  risk: { score: number; level: string; reasons: string[] } | null;
+  details: ListingDetails | null;
+}
+
+export interface WebhookPriceDrop {
+  listing: WebhookListing;
+  previousPrice: string | null;
+  previousRent: number;
+  currentRent: number;
+}
+
+interface WebhookEventBase {
+  version: typeof WEBHOOK_PAYLOAD_VERSION;
+  // Unique per event and kept across retries, for deduplication on the receiving side
+  id: string;
+  sentAt: string;
+  user: { id: string; name: string };
+}
+
+export type WebhookEvent =
+  | (WebhookEventBase & { type: 'listing.new'; listing: WebhookListing })
+  | (WebhookEventBase & { type: 'listing.price_drop' } & WebhookPriceDrop)
+  | (WebhookEventBase & {
+      type: 'scrape.result';
+      newListings: WebhookListing[];
+      priceDrops: WebhookPriceDrop[];
+      // ISO 8601; set when the results were held back by the user's delivery schedule
+      heldSince: string | null;
+    });
+
+// One event for the whole scrape result
+export function buildBatchEvent(recipient: NotificationRecipient, notification: ListingNotification): WebhookEvent {
+  return {
+    ...eventBase(recipient),
+    type: 'scrape.result',
+    newListings: notification.newListings.map(toWebhookListing),
+    priceDrops: notification.priceDrops.map(toWebhookPriceDrop),
+    heldSince: notification.heldSince?.toISOString() ?? null,
+  };
+}
+
+// One event per new listing and price drop
+export function buildListingEvents(recipient: NotificationRecipient, notification: ListingNotification): WebhookEvent[] {
+  return [
+    ...notification.newListings.map(
+      (listing): WebhookEvent => ({ ...eventBase(recipient), type: 'listing.new', listing: toWebhookListing(listing) })
+    ),
+    ...notification.priceDrops.map(
+      (change): WebhookEvent => ({ ...eventBase(recipient), type: 'listing.price_drop', ...toWebhookPriceDrop(change) })
+    ),
+  ];
+}
+
+function eventBase(recipient: NotificationRecipient): WebhookEventBase {
+  return {
+    version: WEBHOOK_PAYLOAD_VERSION,
+    id: randomUUID(),
+    sentAt: new Date().toISOString(),
+    user: { id: recipient.userId, name: recipient.name },
+  };
+}
+
+function toWebhookListing(listing: Listing): WebhookListing {
+  const metrics = listing.metrics;
+  return {
+    id: listing.id,
+    source: listing.source,
+    title: listing.title,
+    link: listing.link,
+    price: listing.price,
+    size: listing.size,
+    address: listing.address,
+    image: listing.image ?? null,
+    postedAt: listing.postedAt?.toISOString() ?? null,
+    promoted: listing.promoted ?? false,
+    coldRent: metrics?.coldRent ?? null,
+    warmRent: metrics?.warmRent ?? null,
+    livingSpaceSqm: metrics?.livingSpaceSqm ?? null,
+    rooms: metrics?.rooms ?? null,
+    pricePerSqm: metrics?.pricePerSqm ?? null,
+    distanceKm: listing.distanceKm ?? null,
+    alsoListedOn: listing.alsoListedOn ?? [],
+    market: listing.market
+      ? { label: listing.market.label, medianPricePerSqm: listing.market.medianPricePerSqm, deviation: listing.market.deviation }
+      : null,
+    risk: listing.risk ? { score: listing.risk.score, level: listing.risk.level, reasons: listing.risk.reasons } : null,
+    details: (listing as EnrichedListing).details ?? null,
+  };
+}
+
+function toWebhookPriceDrop(change: PriceChange): WebhookPriceDrop {
+  return {
+    listing: toWebhookListing(change.listing),
+    previousPrice: change.previousPrice,
+    previousRent: change.previousRent,
+    currentRent: change.currentRent,
+  };
+}
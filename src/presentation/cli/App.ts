@@ -4,24 +4,45 @@ import { WatchListingsUseCase, UserWithProviders } from '../../application/useca
 import { ListingFormatter } from './ListingFormatter.js';
 import { AppConfig } from '../../config/index.js';
 import { User } from '../../domain/entities/User.js';
-import { Listing } from '../../domain/entities/Listing.js';
+import { SearchFilter } from '../../domain/entities/SearchFilter.js';
 import { BrowserService } from '../../infrastructure/browser/BrowserService.js';
+import { HttpFetchService } from '../../infrastructure/browser/HttpFetchService.js';
+import { ProxyPool } from '../../infrastructure/browser/ProxyPool.js';
 import { DatabaseCheckpointRepository } from '../../infrastructure/repositories/DatabaseCheckpointRepository.js';
+import { DatabaseMarketRepository } from '../../infrastructure/repositories/DatabaseMarketRepository.js';
+import { DatabasePendingNotificationRepository } from '../../infrastructure/repositories/DatabasePendingNotificationRepository.js';
+import { MarketStatsService } from '../../application/services/MarketStatsService.js';
+import { ScamRiskService } from '../../application/services/ScamRiskService.js';
+import { NotificationChannelRegistry } from '../../application/services/NotificationChannelRegistry.js';
+import { NotificationService } from '../../application/services/NotificationService.js';
+import { EmailChannel } from '../../infrastructure/email/EmailChannel.js';
+import { WebhookClient } from '../../infrastructure/webhook/WebhookClient.js';
+import { WebhookChannel } from '../../infrastructure/webhook/WebhookChannel.js';
+import { NtfyChannel } from '../../infrastructure/webhook/NtfyChannel.js';
 import { DatabaseConnection } from '../../infrastructure/database/Database.js';
-import { ProviderFactory } from '../../infrastructure/providers/index.js';
+import { IGeocoder } from '../../domain/ports/IGeocoder.js';
+import { CachingGeocoder } from '../../infrastructure/geocoding/CachingGeocoder.js';
+import { NominatimGeocoder } from '../../infrastructure/geocoding/NominatimGeocoder.js';
+import { PostcodeCentroidGeocoder } from '../../infrastructure/geocoding/PostcodeCentroidGeocoder.js';
+import { ProviderFactory, ProviderRegistry } from '../../infrastructure/providers/index.js';
 import { TelegramBot } from '../../infrastructure/telegram/TelegramBot.js';
 import { AdminBot } from '../../infrastructure/telegram/AdminBot.js';
 import { MonitoringService } from '../../infrastructure/monitoring/MonitoringService.js';
+import { ProviderHealthRegistry } from '../../infrastructure/monitoring/ProviderHealthRegistry.js';
 import { ProvidersConfig } from '../../config/providers.config.js';
 import { ILogger, LoggerFactory } from '../../infrastructure/logging/Logger.js';
 
 export class App {
-  private browserService!: IBrowserService;
+  private browserService!: BrowserService;
+  private httpFetchService!: IBrowserService;
   private db!: DatabaseConnection;
   private repository!: DatabaseCheckpointRepository;
   private scrapingService!: ScrapingService;
+  private marketStats!: MarketStatsService;
+  private notifications!: NotificationService;
   private watchUseCase!: WatchListingsUseCase;
   private formatter!: ListingFormatter;
+  private providerRegistry!: ProviderRegistry;
   private providerFactory!: ProviderFactory;
   private telegramBot?: TelegramBot;
   private adminBot?: AdminBot;
@@ -32,31 +53,84 @@ export class App {
     this.logger = LoggerFactory.create('App');
     this.monitoring = MonitoringService.getInstance();
     this.monitoring.setErrorAlertsEnabled(appConfig.alertOnScrapingErrors);
+
+    const { failureThreshold, cooldownMs, scope, retries, retryBaseDelayMs } = appConfig.circuitBreaker;
+    ProviderHealthRegistry.getInstance().configure({
+      failureThreshold,
+      cooldownMs,
+      scope,
+      retry: { retries, baseDelayMs: retryBaseDelayMs },
+    });
   }
 
   async initialize(): Promise<void> {
-    this.browserService = new BrowserService();
+    const proxyPool = ProxyPool.fromConfig(this.appConfig.proxies);
+    if (proxyPool) {
+      this.logger.info(`Using ${proxyPool.getHealth().length} proxies for browser providers`);
+    }
+    this.browserService = new BrowserService({ proxyPool, ...this.appConfig.browser });
+    this.httpFetchService = new HttpFetchService();
     this.db = new DatabaseConnection(this.appConfig.databaseUrl);
     await this.db.initialize();
 
     this.repository = new DatabaseCheckpointRepository(this.db);
     this.formatter = new ListingFormatter();
-    this.providerFactory = new ProviderFactory(this.browserService);
+    this.providerRegistry = new ProviderRegistry(this.appConfig.providersDir);
+    this.providerRegistry.load();
+    this.providerFactory = new ProviderFactory(this.providerRegistry, {
+      browser: this.browserService,
+      http: this.httpFetchService,
+    });
 
-    this.scrapingService = new ScrapingService(this.repository, this.appConfig.maxResultsPerProvider);
-    this.watchUseCase = new WatchListingsUseCase(this.scrapingService, this.appConfig.intervalMs);
+    this.marketStats = new MarketStatsService(new DatabaseMarketRepository(this.db), this.appConfig.marketWindowDays);
+    await this.marketStats.flush();
+
+    const geocoder = this.createGeocoder();
+
+    this.scrapingService = new ScrapingService(this.repository, this.appConfig.maxResultsPerProvider, {
+      enrichNewListings: this.appConfig.enrichNewListings,
+      seenRetentionDays: this.appConfig.seenRetentionDays,
+      market: this.marketStats,
+      risk: new ScamRiskService(),
+      geocoder,
+    });
+
+    const channels = new NotificationChannelRegistry();
+    this.notifications = new NotificationService(channels, new DatabasePendingNotificationRepository(this.db));
+    this.watchUseCase = new WatchListingsUseCase(this.scrapingService, this.appConfig.intervalMs, this.notifications);
 
     if (this.appConfig.telegramBotToken) {
-      this.telegramBot = new TelegramBot(this.appConfig.telegramBotToken, this.db);
+      this.telegramBot = new TelegramBot(
+        this.appConfig.telegramBotToken,
+        this.db,
+        this.providerRegistry,
+        geocoder,
+        channels
+      );
+      channels.register(this.telegramBot);
     } else {
       this.logger.warn('TELEGRAM_BOT_TOKEN not set, bot disabled');
     }
 
+    if (this.appConfig.email) {
+      channels.register(new EmailChannel(this.appConfig.email));
+      this.logger.info(`E-mail notifications via ${this.appConfig.email.host}:${this.appConfig.email.port}`);
+    }
+
+    if (this.appConfig.webhooks.enabled) {
+      const { retries, retryBaseDelayMs, timeoutMs } = this.appConfig.webhooks;
+      const webhookClient = new WebhookClient({ retries, baseDelayMs: retryBaseDelayMs, timeoutMs });
+      channels.register(new WebhookChannel(webhookClient));
+      channels.register(new NtfyChannel(webhookClient));
+    }
+
     if (this.appConfig.adminBotToken) {
       this.adminBot = new AdminBot(
         this.appConfig.adminBotToken,
         this.db,
-        this.appConfig.adminUserId
+        this.appConfig.adminUserId,
+        this.browserService,
+        this.marketStats
       );
       this.monitoring.setAdminBot(this.adminBot);
     } else {
@@ -64,6 +138,16 @@ export class App {
     }
   }
 
+  private createGeocoder(): IGeocoder {
+    const { geocoder, postcodesFile, nominatimUrl, userAgent } = this.appConfig.geocoding;
+    if (geocoder === 'nominatim') {
+      this.logger.info(`Geocoding with ${nominatimUrl}`);
+      return new CachingGeocoder(new NominatimGeocoder(nominatimUrl, userAgent), this.db);
+    }
+    // In-memory lookups - caching them would only keep misses from before the file was updated
+    return new PostcodeCentroidGeocoder(postcodesFile);
+  }
+
   async run(): Promise<void> {
     await this.initialize();
 
@@ -125,13 +209,29 @@ export class App {
 
       const providersConfig: ProvidersConfig = {};
       for (const p of dbProviders) {
-        (providersConfig as Record<string, string>)[p.provider] = p.url;
+        providersConfig[p.provider] = p.url;
+      }
+
+      const dbFilters = await this.db.getSearchFilters(dbUser.id);
+      const filters: Record<string, SearchFilter> = {};
+      for (const f of dbFilters) {
+        filters[f.provider] = f.filter;
       }
 
       const user: User = {
         id: dbUser.id,
         name: dbUser.first_name,
         providers: providersConfig,
+        filters,
+        priceAlerts: dbUser.price_alerts,
+        hideRiskyListings: dbUser.hide_risky_listings,
+        channels: (await this.db.getNotificationChannels(dbUser.id)).map((c) => ({
+          channel: c.channel,
+          address: c.address,
+          enabled: c.enabled,
+          settings: c.settings,
+        })),
+        deliverySchedule: (await this.db.getDeliverySchedule(dbUser.id)) ?? undefined,
       };
 
       usersWithProviders.push({
@@ -155,10 +255,12 @@ export class App {
   }
 
   private handleUserResult(result: UserScrapeResult): void {
-    // Send Telegram notifications for new listings (silently)
-    if (result.newListings.length > 0) {
-      this.sendTelegramNotifications(result.user.id, result.newListings);
-    }
+    // Delivered in the background - the next user's scrape doesn't wait for it
+    this.notifications
+      .notify(result.user, { newListings: result.newListings, priceDrops: result.priceDrops })
+      .catch((err) => {
+        this.logger.error(`Failed to send notifications: ${err}`);
+      });
 
     // Only log summary line
     console.log(this.formatter.formatUserSummary(result));
@@ -176,18 +278,6 @@ export class App {
     }
   }
 
-  private sendTelegramNotifications(userId: string, listings: Listing[]): void {
-    if (!this.telegramBot) return;
-    if (!userId.startsWith('tg_')) return;
-
-    const telegramId = parseInt(userId.substring(3), 10);
-    if (isNaN(telegramId)) return;
-
-    this.telegramBot.notifyNewListings(telegramId, listings).catch((err) => {
-      this.logger.error(`Failed to send Telegram notifications: ${err}`);
-    });
-  }
-
   private setupShutdownHandlers(): void {
     const shutdown = async () => {
       console.log('\nShutting down...');
@@ -195,6 +285,7 @@ export class App {
       this.telegramBot?.stop();
       this.adminBot?.stop();
       await this.browserService.close();
+      await this.httpFetchService.close();
       await this.db.close();
       process.exit(0);
     };
@@ -7,6 +7,7 @@ export class ListingFormatter {
   formatListing(listing: Listing, isNew = false): string {
     const newBadge = isNew ? ' [NEW]' : '';
     const sourceBadge = `[${listing.source}]`;
+    const alsoOn = listing.alsoListedOn?.map((l) => `\nAlso on ${l.source}: ${l.link}`).join('') ?? '';
 
     return `
 ${this.separator}${newBadge} ${sourceBadge}
@@ -14,7 +15,7 @@ Title: ${listing.title}
 Price: ${listing.price || 'N/A'}
 Size: ${listing.size || 'N/A'}
 Address: ${listing.address}
-Link: ${listing.link}
+Link: ${listing.link}${alsoOn}
 ${this.separator}`;
   }
 
@@ -38,7 +39,9 @@ Total: ${result.allListings.length} | New: ${result.newListings.length}`;
 
     const lines = ['\n⚠️  PROVIDER HEALTH WARNINGS:'];
     for (const status of unhealthy) {
-      if (status.consecutiveErrors > 0) {
+      if (status.circuitOpen) {
+        lines.push(`  - ${status.name}: paused after repeated blocking (circuit open)`);
+      } else if (status.consecutiveErrors > 0) {
         lines.push(`  - ${status.name}: ${status.consecutiveErrors} consecutive errors`);
       } else if (status.lastScrapeCount === 0) {
         lines.push(`  - ${status.name}: No listings returned (possible blocking)`);
@@ -0,0 +1,226 @@
+import { Telegram } from 'telegraf';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Listing } from '../../../src/domain/entities/Listing.js';
+import { PriceChange } from '../../../src/domain/entities/PriceChange.js';
+import { ListingNotification, NotificationRecipient } from '../../../src/domain/entities/Notification.js';
+import { User } from '../../../src/domain/entities/User.js';
+import { INotificationChannel } from '../../../src/domain/ports/INotificationChannel.js';
+import { IPendingNotificationRepository } from '../../../src/domain/ports/IPendingNotificationRepository.js';
+import { NotificationChannelRegistry } from '../../../src/application/services/NotificationChannelRegistry.js';
+import { NotificationService } from '../../../src/application/services/NotificationService.js';
+import { DatabaseConnection } from '../../../src/infrastructure/database/Database.js';
+import { IGeocoder } from '../../../src/domain/ports/IGeocoder.js';
+import { ProviderRegistry } from '../../../src/infrastructure/providers/ProviderRegistry.js';
+import { TelegramBot } from '../../../src/infrastructure/telegram/TelegramBot.js';
+
+vi.mock('../../../src/infrastructure/monitoring/MonitoringService.js', () => ({
+  MonitoringService: { getInstance: () => ({ logSearchRemoved: async () => {} }) },
+}));
+
+// pending_notifications for one process: held since the oldest item, in the order they were added
+class InMemoryPendingNotifications implements IPendingNotificationRepository {
+  readonly held = new Map<string, Required<ListingNotification>>();
+
+  async add(userId: string, notification: ListingNotification): Promise<void> {
+    const since = notification.heldSince ?? new Date();
+    const held = this.held.get(userId) ?? { newListings: [], priceDrops: [], heldSince: since };
+    held.newListings.push(...notification.newListings);
+    held.priceDrops.push(...notification.priceDrops);
+    if (since < held.heldSince) held.heldSince = since;
+    this.held.set(userId, held);
+  }
+
+  async getHeldSince(): Promise<Map<string, Date>> {
+    return new Map(Array.from(this.held, ([userId, held]) => [userId, held.heldSince]));
+  }
+
+  async take(userId: string): Promise<ListingNotification | null> {
+    const held = this.held.get(userId);
+    this.held.delete(userId);
+    return held ?? null;
+  }
+}
+
+class FakeChannel implements INotificationChannel {
+  readonly name: string;
+  readonly sent: ListingNotification[] = [];
+  failing = false;
+
+  constructor(readonly id: string) {
+    this.name = id;
+  }
+
+  async send(_recipient: NotificationRecipient, notification: ListingNotification): Promise<void> {
+    if (this.failing) throw new Error(`${this.id} is down`);
+    this.sent.push(notification);
+  }
+}
+
+function listing(id: string): Listing {
+  return { id, title: `Wohnung ${id}`, price: null, size: null, address: null, link: '', hash: id, source: 'test' };
+}
+
+function setup(channelIds: string[], mode: 'instant' | 'daily' = 'instant') {
+  const registry = new NotificationChannelRegistry();
+  const channels = channelIds.map((id) => new FakeChannel(id));
+  channels.forEach((channel) => registry.register(channel));
+  const pending = new InMemoryPendingNotifications();
+  const user: User = {
+    id: 'u1',
+    name: 'Anna',
+    providers: {},
+    channels: channelIds.map((channel) => ({ channel, address: 'a', enabled: true, settings: {} })),
+    deliverySchedule: { mode, timezone: 'Europe/Berlin', quietHours: null, digestAt: 8 * 60 },
+  };
+  return { service: new NotificationService(registry, pending), channels, pending, user };
+}
+
+const ids = (notification: ListingNotification) => notification.newListings.map((l) => l.id);
+
+const drop = (id: string, previousRent: number, currentRent: number): PriceChange => ({
+  listing: listing(id),
+  previousPrice: `${previousRent} €`,
+  previousRent,
+  currentRent,
+});
+
+describe('NotificationService', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('holds the batch again when every channel fails', async () => {
+    const { service, channels, pending, user } = setup(['mail']);
+    await pending.add(user.id, { newListings: [listing('1')], priceDrops: [] });
+    channels[0].failing = true;
+
+    await service.notify(user, { newListings: [listing('2')], priceDrops: [] });
+
+    expect((await pending.take(user.id))?.newListings.map((l) => l.id)).toEqual(['1', '2']);
+  });
+
+  it('keeps a failed digest due instead of starting a new period', async () => {
+    const { service, channels, pending, user } = setup(['mail'], 'daily');
+    const heldSince = new Date(Date.now() - 3 * 24 * 60 * 60 * 1000);
+    await pending.add(user.id, { newListings: [listing('1')], priceDrops: [], heldSince });
+    channels[0].failing = true;
+
+    await service.deliverDue([user]);
+    expect((await pending.getHeldSince()).get(user.id)).toEqual(heldSince);
+
+    channels[0].failing = false;
+    await service.deliverDue([user]);
+    expect(channels[0].sent.map(ids)).toEqual([['1']]);
+    expect(pending.held.size).toBe(0);
+  });
+
+  it('counts the batch as delivered when one channel succeeds', async () => {
+    const { service, channels, pending, user } = setup(['mail', 'webhook']);
+    channels[0].failing = true;
+
+    await service.notify(user, { newListings: [listing('1')], priceDrops: [] });
+
+    expect(channels[1].sent.map(ids)).toEqual([['1']]);
+    expect(pending.held.size).toBe(0);
+  });
+
+  it('does not hold anything for users without a usable channel', async () => {
+    const { service, pending, user } = setup([]);
+    user.channels = [{ channel: 'sms', address: '0170', enabled: true, settings: {} }];
+
+    await service.notify(user, { newListings: [listing('1')], priceDrops: [] });
+
+    expect(pending.held.size).toBe(0);
+  });
+
+  describe('price drops', () => {
+    it('merges a drop with held drops of the same listing', async () => {
+      const { service, channels, pending, user } = setup(['mail']);
+      await pending.add(user.id, { newListings: [], priceDrops: [drop('1', 1000, 950), drop('2', 800, 780)] });
+
+      await service.notify(user, { newListings: [], priceDrops: [drop('1', 950, 900)] });
+
+      expect(channels[0].sent).toHaveLength(1);
+      expect(channels[0].sent[0].priceDrops.map((d) => [d.listing.id, d.previousPrice, d.currentRent])).toEqual([
+        ['1', '1000 €', 900],
+        ['2', '800 €', 780],
+      ]);
+    });
+
+    it('merges repeated drops in a digest', async () => {
+      const { service, channels, pending, user } = setup(['mail'], 'daily');
+      const heldSince = new Date(Date.now() - 2 * 24 * 60 * 60 * 1000);
+      await service.notify(user, { newListings: [], priceDrops: [drop('1', 1000, 950)] });
+      await service.notify(user, { newListings: [], priceDrops: [drop('1', 950, 900)] });
+      pending.held.get(user.id)!.heldSince = heldSince;
+
+      await service.deliverDue([user]);
+
+      expect(channels[0].sent.map((n) => n.priceDrops.map((d) => [d.previousRent, d.currentRent]))).toEqual([
+        [[1000, 900]],
+      ]);
+    });
+  });
+
+  describe('with Telegram', () => {
+    function telegramSetup() {
+      const registry = new NotificationChannelRegistry();
+      const bot = new TelegramBot(
+        '123:test',
+        {} as DatabaseConnection,
+        new ProviderRegistry('./providers'),
+        {} as IGeocoder,
+        registry
+      );
+      registry.register(bot);
+      const pending = new InMemoryPendingNotifications();
+      const user: User = {
+        id: 'u1',
+        name: 'Anna',
+        providers: {},
+        channels: [{ channel: 'telegram', address: '4242', enabled: true, settings: {} }],
+      };
+      return { service: new NotificationService(registry, pending), pending, user };
+    }
+
+    it('holds a digest again while Telegram is down', async () => {
+      const { service, pending, user } = telegramSetup();
+      const sendMessage = vi.spyOn(Telegram.prototype, 'sendMessage').mockRejectedValue(new Error('502: Bad Gateway'));
+      const heldSince = new Date(Date.now() - 60 * 60 * 1000);
+      await pending.add(user.id, { newListings: [listing('1'), listing('2')], priceDrops: [], heldSince });
+
+      await service.deliverDue([user]);
+
+      expect(sendMessage).toHaveBeenCalledTimes(3);
+      expect((await pending.take(user.id))?.newListings.map((l) => l.id)).toEqual(['1', '2']);
+    });
+
+    it('counts a batch as sent when some messages got through', async () => {
+      const { service, pending, user } = telegramSetup();
+      vi.spyOn(Telegram.prototype, 'sendMessage')
+        .mockRejectedValueOnce(new Error('429: Too Many Requests'))
+        .mockResolvedValue({} as Awaited<ReturnType<Telegram['sendMessage']>>);
+
+      await service.notify(user, { newListings: [listing('1'), listing('2')], priceDrops: [] });
+
+      expect(pending.held.size).toBe(0);
+    });
+
+    it("shows times in the user's timezone", async () => {
+      const { service, pending, user } = telegramSetup();
+      user.deliverySchedule = { mode: 'hourly', timezone: 'America/New_York', quietHours: null, digestAt: 8 * 60 };
+      const sendMessage = vi
+        .spyOn(Telegram.prototype, 'sendMessage')
+        .mockResolvedValue({} as Awaited<ReturnType<Telegram['sendMessage']>>);
+      const heldSince = new Date('2026-10-18T12:00:00Z');
+      const posted = { ...listing('1'), postedAt: new Date('2026-10-18T11:30:00Z') };
+      await pending.add(user.id, { newListings: [posted], priceDrops: [], heldSince });
+
+      await service.deliverDue([user]);
+
+      const [header, message] = sendMessage.mock.calls.map(([, text]) => text);
+      expect(header).toContain('since 18.10.26, 08:00');
+      expect(message).toContain('Posted: 18.10.26, 07:30');
+    });
+  });
+});
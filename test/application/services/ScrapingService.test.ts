@@ -0,0 +1,232 @@
+import { describe, expect, it } from 'vitest';
+import { Listing } from '../../../src/domain/entities/Listing.js';
+import { User } from '../../../src/domain/entities/User.js';
+import { EMPTY_SEARCH_FILTER } from '../../../src/domain/entities/SearchFilter.js';
+import { IListingProvider } from '../../../src/domain/ports/IListingProvider.js';
+import { ScrapingService } from '../../../src/application/services/ScrapingService.js';
+import { ImmoScoutProvider } from '../../../src/infrastructure/providers/ImmoScoutProvider.js';
+import { InMemoryListingRepository } from '../../../src/infrastructure/repositories/InMemoryListingRepository.js';
+import { buildHash } from '../../../src/infrastructure/utils/hash.js';
+import { IMMOSCOUT_SEARCH_URL, fixtureImmoScoutClient } from '../../helpers/immoscout.js';
+
+function user(id: string): User {
+  return { id, name: id, providers: { immoscout: IMMOSCOUT_SEARCH_URL } };
+}
+
+// A search sorted newest first, cut to maxResults like the real providers
+class ListProvider implements IListingProvider {
+  readonly name = 'Test';
+  readonly id = 'test';
+
+  constructor(public listings: Listing[]) {}
+
+  async scrape(maxResults: number): Promise<Listing[]> {
+    return this.listings.slice(0, maxResults);
+  }
+
+  isEnabled(): boolean {
+    return true;
+  }
+}
+
+function listing(id: string, extra: Partial<Listing> = {}): Listing {
+  const link = `https://example.org/expose/${id}`;
+  return { id, title: id, price: null, size: null, address: null, link, hash: buildHash(id), source: 'Test', ...extra };
+}
+
+const ids = (listings: Listing[]) => listings.map((l) => l.id);
+
+describe('ScrapingService', () => {
+  describe('shared searches', () => {
+    it('pages as deep as the subscriber furthest behind needs', async () => {
+      const repository = new InMemoryListingRepository();
+      const service = new ScrapingService(repository, 20);
+      const [recent, behind] = [user('recent'), user('behind')];
+      // One listing on page 1 is new for the first user, the second one last looked before page 3
+      await repository.setCheckpoints(recent.id, 'ImmoScout', [buildHash('158199021')]);
+      await repository.setCheckpoints(behind.id, 'ImmoScout', [buildHash('158151877')]);
+
+      const first = fixtureImmoScoutClient();
+      const second = fixtureImmoScoutClient();
+      const subscriptions = [
+        { user: recent, providers: [new ImmoScoutProvider(IMMOSCOUT_SEARCH_URL, first.client, 3)] },
+        { user: behind, providers: [new ImmoScoutProvider(IMMOSCOUT_SEARCH_URL, second.client, 3)] },
+      ];
+
+      service.resetCache();
+      await service.collectCheckpoints(subscriptions);
+      const results = [];
+      for (const { user, providers } of subscriptions) {
+        results.push(await service.scrapeForUser(user, providers));
+      }
+      const stats = service.resetCache();
+
+      expect(first.search).toHaveBeenCalledTimes(3);
+      expect(second.search).not.toHaveBeenCalled();
+      expect(stats).toMatchObject({ hits: 1, misses: 1 });
+      expect(results[0].newListings.map((l) => l.id)).toEqual(['158201734']);
+      expect(results[1].newListings.map((l) => l.id)).toEqual([
+        '158201734',
+        '158199021',
+        '158187455',
+        '158170312',
+        '158166098',
+      ]);
+    });
+
+    it('still pages for a subscriber who was not collected', async () => {
+      const repository = new InMemoryListingRepository();
+      const service = new ScrapingService(repository, 20);
+      const behind = user('behind');
+      await repository.setCheckpoints(behind.id, 'ImmoScout', [buildHash('158170312')]);
+      const { client, search } = fixtureImmoScoutClient();
+
+      service.resetCache();
+      const result = await service.scrapeForUser(behind, [new ImmoScoutProvider(IMMOSCOUT_SEARCH_URL, client, 3)]);
+
+      expect(search).toHaveBeenCalledTimes(2);
+      expect(result.newListings).toHaveLength(3);
+    });
+  });
+
+  describe('new listings', () => {
+    const searchOf = (count: number) => Array.from({ length: count }, (_, i) => listing(`L${i + 1}`));
+
+    async function run(service: ScrapingService, provider: ListProvider) {
+      service.resetCache();
+      return (await service.scrapeForUser(user('u1'), [provider])).newListings;
+    }
+
+    it('does not report an older listing that moves up when one above is removed', async () => {
+      const service = new ScrapingService(new InMemoryListingRepository(), 10);
+      const provider = new ListProvider(searchOf(20));
+      await run(service, provider);
+
+      provider.listings = provider.listings.filter((l) => l.id !== 'L3');
+      expect(ids(await run(service, provider))).toEqual([]);
+
+      provider.listings = [listing('L21'), ...provider.listings];
+      expect(ids(await run(service, provider))).toEqual(['L21']);
+    });
+
+    it('reports a listing below the newest seen one when it was posted after it', async () => {
+      const service = new ScrapingService(new InMemoryListingRepository(), 10);
+      const at = (hour: number) => new Date(Date.UTC(2026, 9, 18, hour));
+      const provider = new ListProvider([listing('L1', { postedAt: at(10) }), listing('L2', { postedAt: at(9) })]);
+      await run(service, provider);
+
+      const [first, second] = provider.listings;
+      provider.listings = [first, listing('L3', { postedAt: at(11) }), listing('L4', { postedAt: at(8) }), second];
+      expect(ids(await run(service, provider))).toEqual(['L3']);
+    });
+
+    it('reports new promoted listings above the seen ones', async () => {
+      const service = new ScrapingService(new InMemoryListingRepository(), 10);
+      const provider = new ListProvider(searchOf(5));
+      await run(service, provider);
+
+      provider.listings = [listing('P1', { promoted: true }), listing('L6'), ...provider.listings];
+      expect(ids(await run(service, provider))).toEqual(['P1', 'L6']);
+    });
+  });
+
+  describe('price drops', () => {
+    const priced = (id: string, coldRent: number) =>
+      listing(id, {
+        price: `${coldRent} €`,
+        metrics: { coldRent, warmRent: null, livingSpaceSqm: 50, rooms: 2, pricePerSqm: null },
+      });
+
+    async function drops(service: ScrapingService, provider: ListProvider, priceAlerts?: boolean) {
+      service.resetCache();
+      const result = await service.scrapeForUser({ ...user('u1'), priceAlerts }, [provider]);
+      return result.priceDrops.map((d) => [d.listing.id, d.previousRent, d.currentRent]);
+    }
+
+    it('reports a drop once', async () => {
+      const service = new ScrapingService(new InMemoryListingRepository(), 10);
+      const provider = new ListProvider([priced('L1', 1000), priced('L2', 800)]);
+      expect(await drops(service, provider)).toEqual([]);
+
+      provider.listings = [priced('L1', 950), priced('L2', 800)];
+      expect(await drops(service, provider)).toEqual([['L1', 1000, 950]]);
+      expect(await drops(service, provider)).toEqual([]);
+
+      provider.listings = [priced('L1', 900), priced('L2', 800)];
+      expect(await drops(service, provider)).toEqual([['L1', 950, 900]]);
+    });
+
+    it('does not report a rise or an unchanged rent', async () => {
+      const service = new ScrapingService(new InMemoryListingRepository(), 10);
+      const provider = new ListProvider([priced('L1', 1000)]);
+      await drops(service, provider);
+
+      provider.listings = [priced('L1', 1050)];
+      expect(await drops(service, provider)).toEqual([]);
+      expect(await drops(service, provider)).toEqual([]);
+
+      // Compared with the latest rent, not the first one
+      provider.listings = [priced('L1', 1000)];
+      expect(await drops(service, provider)).toEqual([['L1', 1050, 1000]]);
+    });
+
+    it('reports nothing to users who turned price alerts off', async () => {
+      const service = new ScrapingService(new InMemoryListingRepository(), 10);
+      const provider = new ListProvider([priced('L1', 1000)]);
+      await drops(service, provider);
+
+      provider.listings = [priced('L2', 700), priced('L1', 950)];
+      expect(await drops(service, provider, false)).toEqual([]);
+      provider.listings = [priced('L2', 650), priced('L1', 900)];
+      expect(await drops(service, provider)).toEqual([
+        ['L2', 700, 650],
+        ['L1', 950, 900],
+      ]);
+    });
+  });
+
+  describe('required keywords', () => {
+    // Only the detail page mentions the garden
+    class EnrichingProvider extends ListProvider {
+      readonly enriched: string[] = [];
+
+      async enrich(listing: Listing): Promise<Listing> {
+        this.enriched.push(listing.id);
+        const description = listing.id === 'L2' ? 'Mit Garten und Einbauküche' : 'Mit Einbauküche';
+        return { ...listing, details: { description } } as Listing;
+      }
+    }
+
+    it('are checked against the detail page when listings are enriched', async () => {
+      const repository = new InMemoryListingRepository();
+      const keywordUser: User = {
+        ...user('u1'),
+        filters: { test: { ...EMPTY_SEARCH_FILTER, requiredKeywords: ['garten'], excludedKeywords: ['tausch'] } },
+      };
+      const provider = new EnrichingProvider([listing('L1')]);
+      const service = new ScrapingService(repository, 10, { enrichNewListings: true });
+      await service.scrapeForUser(user('u1'), [provider]);
+
+      provider.listings = [listing('L4', { title: 'Tausch' }), listing('L3'), listing('L2'), ...provider.listings];
+      service.resetCache();
+      const result = await service.scrapeForUser(keywordUser, [provider]);
+
+      expect(ids(result.newListings)).toEqual(['L2']);
+      expect(provider.enriched).toEqual(['L1', 'L3', 'L2']);
+    });
+
+    it('are checked on the card without enrichment', async () => {
+      const keywordUser: User = {
+        ...user('u1'),
+        filters: { test: { ...EMPTY_SEARCH_FILTER, requiredKeywords: ['garten'] } },
+      };
+      const provider = new ListProvider([listing('L1')]);
+      const service = new ScrapingService(new InMemoryListingRepository(), 10);
+      await service.scrapeForUser(keywordUser, [provider]);
+
+      provider.listings = [listing('L3', { title: 'Wohnung mit Garten' }), listing('L2'), ...provider.listings];
+      service.resetCache();
+      expect(ids((await service.scrapeForUser(keywordUser, [provider])).newListings)).toEqual(['L3']);
+    });
+  });
+});
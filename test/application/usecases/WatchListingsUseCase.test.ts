@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { User } from '../../../src/domain/entities/User.js';
+import { ScrapingService, UserScrapeResult } from '../../../src/application/services/ScrapingService.js';
+import { UserWithProviders, WatchListingsUseCase } from '../../../src/application/usecases/WatchListingsUseCase.js';
+
+vi.mock('../../../src/infrastructure/monitoring/MonitoringService.js', () => ({
+  MonitoringService: { getInstance: () => ({ onIterationStart: () => {}, onIterationEnd: async () => {} }) },
+}));
+
+const INTERVAL_MS = 1000;
+
+const user: User = { id: 'u1', name: 'Anna', providers: {} };
+const users: UserWithProviders[] = [{ user, providers: [] }];
+
+// Counts iterations by their scrapeForUser call; each one finishes when the test says so
+function scrapingService() {
+  const pending: Array<() => void> = [];
+  let running = 0;
+  let overlapped = false;
+  const service = {
+    resetCache: () => ({ hits: 0, misses: 0 }),
+    collectCheckpoints: async () => {},
+    scrapeForUser: async (): Promise<UserScrapeResult> => {
+      running++;
+      overlapped ||= running > 1;
+      await new Promise<void>((resolve) => pending.push(resolve));
+      running--;
+      return { user, allListings: [], newListings: [], priceDrops: [], byProvider: new Map(), providerStatuses: [] };
+    },
+    updateMarketStats: async () => {},
+    pruneSeenListings: async () => {},
+  };
+  return {
+    service: service as unknown as ScrapingService,
+    calls: () => pending.length,
+    finish: async () => {
+      pending.at(-1)!();
+      await vi.advanceTimersByTimeAsync(0);
+    },
+    overlapped: () => overlapped,
+  };
+}
+
+describe('WatchListingsUseCase', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('starts the next iteration only after the previous one has finished', async () => {
+    const scraping = scrapingService();
+    const watch = new WatchListingsUseCase(scraping.service, INTERVAL_MS);
+
+    const started = watch.start(users, () => {});
+    await vi.advanceTimersByTimeAsync(0);
+    await scraping.finish();
+    await started;
+
+    await vi.advanceTimersByTimeAsync(INTERVAL_MS);
+    expect(scraping.calls()).toBe(2);
+
+    // A slow iteration: no tick starts another one meanwhile
+    await vi.advanceTimersByTimeAsync(5 * INTERVAL_MS);
+    expect(scraping.calls()).toBe(2);
+
+    // It overran the interval, so the next one follows right away
+    await scraping.finish();
+    expect(scraping.calls()).toBe(3);
+    expect(scraping.overlapped()).toBe(false);
+
+    watch.stop();
+    await scraping.finish();
+    await vi.advanceTimersByTimeAsync(5 * INTERVAL_MS);
+    expect(scraping.calls()).toBe(3);
+  });
+
+  it('keeps the interval between the starts of quick iterations', async () => {
+    const scraping = scrapingService();
+    const watch = new WatchListingsUseCase(scraping.service, INTERVAL_MS);
+
+    const started = watch.start(users, () => {});
+    await vi.advanceTimersByTimeAsync(400);
+    await scraping.finish();
+    await started;
+
+    await vi.advanceTimersByTimeAsync(INTERVAL_MS - 401);
+    expect(scraping.calls()).toBe(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(scraping.calls()).toBe(2);
+
+    watch.stop();
+  });
+
+  it('keeps watching when loading the users fails', async () => {
+    const scraping = scrapingService();
+    const watch = new WatchListingsUseCase(scraping.service, INTERVAL_MS);
+    const loader = vi.fn<() => Promise<UserWithProviders[]>>().mockRejectedValueOnce(new Error('db down'));
+    loader.mockResolvedValue(users);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const started = watch.start(users, () => {}, loader);
+    await vi.advanceTimersByTimeAsync(0);
+    await scraping.finish();
+    await started;
+
+    await vi.advanceTimersByTimeAsync(2 * INTERVAL_MS);
+    expect(loader).toHaveBeenCalledTimes(2);
+    expect(scraping.calls()).toBe(2);
+
+    watch.stop();
+  });
+});
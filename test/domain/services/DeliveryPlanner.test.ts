@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { DeliverySchedule } from '../../../src/domain/entities/DeliverySchedule.js';
+import {
+  isDigestDue,
+  isQuietTime,
+  parseClockTime,
+  parseTimeRange,
+  shouldHold,
+} from '../../../src/domain/services/DeliveryPlanner.js';
+
+const schedule = (extra: Partial<DeliverySchedule> = {}): DeliverySchedule => ({
+  mode: 'instant',
+  timezone: 'Europe/Berlin',
+  quietHours: null,
+  digestAt: 8 * 60,
+  ...extra,
+});
+
+const at = (iso: string) => new Date(iso);
+
+// Europe/Berlin is UTC+2 until 2026-10-25 03:00 and from 2026-03-29 02:00, UTC+1 in between
+describe('isQuietTime', () => {
+  const overnight = schedule({ quietHours: { start: 23 * 60, end: 7 * 60 } });
+
+  it.each([
+    ['2026-06-10T20:59:00Z', false], // 22:59
+    ['2026-06-10T21:00:00Z', true], // 23:00
+    ['2026-06-11T00:30:00Z', true], // 02:30 the next day
+    ['2026-06-11T04:59:00Z', true], // 06:59
+    ['2026-06-11T05:00:00Z', false], // 07:00
+  ])('quiet hours across midnight at %s: %s', (now, expected) => {
+    expect(isQuietTime(overnight, at(now))).toBe(expected);
+  });
+
+  it('handles quiet hours within a day', () => {
+    const lunch = schedule({ quietHours: { start: 12 * 60, end: 14 * 60 } });
+    expect(isQuietTime(lunch, at('2026-06-10T09:59:00Z'))).toBe(false);
+    expect(isQuietTime(lunch, at('2026-06-10T10:00:00Z'))).toBe(true);
+    expect(isQuietTime(lunch, at('2026-06-10T12:00:00Z'))).toBe(false);
+    expect(isQuietTime(schedule(), at('2026-06-10T12:00:00Z'))).toBe(false);
+  });
+
+  it("uses the user's timezone", () => {
+    const london = schedule({ timezone: 'Europe/London', quietHours: { start: 23 * 60, end: 7 * 60 } });
+    expect(isQuietTime(london, at('2026-06-10T21:30:00Z'))).toBe(false);
+    expect(isQuietTime(london, at('2026-06-10T22:30:00Z'))).toBe(true);
+  });
+});
+
+describe('shouldHold', () => {
+  it('holds instant results only in quiet hours, hourly and daily always', () => {
+    const quiet = { quietHours: { start: 23 * 60, end: 7 * 60 } };
+    const night = at('2026-06-10T23:00:00Z');
+    const day = at('2026-06-10T10:00:00Z');
+
+    expect(shouldHold(schedule(quiet), day)).toBe(false);
+    expect(shouldHold(schedule(quiet), night)).toBe(true);
+    expect(shouldHold(schedule({ mode: 'hourly' }), day)).toBe(true);
+    expect(shouldHold(schedule({ mode: 'daily' }), day)).toBe(true);
+  });
+});
+
+describe('isDigestDue', () => {
+  it('sends held instant results once quiet hours are over', () => {
+    const instant = schedule({ quietHours: { start: 23 * 60, end: 7 * 60 } });
+    const heldSince = at('2026-06-10T22:00:00Z');
+    expect(isDigestDue(instant, heldSince, at('2026-06-11T04:59:00Z'))).toBe(false);
+    expect(isDigestDue(instant, heldSince, at('2026-06-11T05:00:00Z'))).toBe(true);
+  });
+
+  it('sends an hourly digest once the hour it was held in has passed', () => {
+    const hourly = schedule({ mode: 'hourly' });
+    const heldSince = at('2026-06-10T08:15:00Z');
+    expect(isDigestDue(hourly, heldSince, at('2026-06-10T08:59:59Z'))).toBe(false);
+    expect(isDigestDue(hourly, heldSince, at('2026-06-10T09:00:00Z'))).toBe(true);
+  });
+
+  it('sends a daily digest once digestAt has passed since', () => {
+    const daily = schedule({ mode: 'daily' });
+    // Held at 07:59: due at 08:00 the same day
+    expect(isDigestDue(daily, at('2026-06-10T05:59:00Z'), at('2026-06-10T05:59:59Z'))).toBe(false);
+    expect(isDigestDue(daily, at('2026-06-10T05:59:00Z'), at('2026-06-10T06:00:00Z'))).toBe(true);
+    // Held at 08:00: due at 08:00 the next day
+    expect(isDigestDue(daily, at('2026-06-10T06:00:00Z'), at('2026-06-11T05:59:00Z'))).toBe(false);
+    expect(isDigestDue(daily, at('2026-06-10T06:00:00Z'), at('2026-06-11T06:00:00Z'))).toBe(true);
+  });
+
+  it('waits for the end of quiet hours', () => {
+    const daily = schedule({ mode: 'daily', digestAt: 6 * 60, quietHours: { start: 23 * 60, end: 7 * 60 } });
+    const heldSince = at('2026-06-10T12:00:00Z');
+    expect(isDigestDue(daily, heldSince, at('2026-06-11T04:30:00Z'))).toBe(false);
+    expect(isDigestDue(daily, heldSince, at('2026-06-11T05:00:00Z'))).toBe(true);
+  });
+
+  describe('on DST changes', () => {
+    it('sends the daily digest at digestAt local time when the clocks go forward', () => {
+      const daily = schedule({ mode: 'daily' });
+      const heldSince = at('2026-03-28T12:00:00Z');
+      expect(isDigestDue(daily, heldSince, at('2026-03-29T05:59:00Z'))).toBe(false); // 07:59 CEST
+      expect(isDigestDue(daily, heldSince, at('2026-03-29T06:00:00Z'))).toBe(true); // 08:00 CEST
+    });
+
+    it('sends the daily digest at digestAt local time when the clocks go back', () => {
+      const daily = schedule({ mode: 'daily' });
+      const heldSince = at('2026-10-24T12:00:00Z');
+      expect(isDigestDue(daily, heldSince, at('2026-10-25T06:59:00Z'))).toBe(false); // 07:59 CET
+      expect(isDigestDue(daily, heldSince, at('2026-10-25T07:00:00Z'))).toBe(true); // 08:00 CET
+    });
+
+    it('tells the two 02:00 hours apart when the clocks go back', () => {
+      const hourly = schedule({ mode: 'hourly' });
+      const heldSince = at('2026-10-25T00:30:00Z'); // 02:30 CEST
+      expect(isDigestDue(hourly, heldSince, at('2026-10-25T00:59:00Z'))).toBe(false);
+      expect(isDigestDue(hourly, heldSince, at('2026-10-25T01:15:00Z'))).toBe(true); // 02:15 CET
+    });
+  });
+});
+
+describe('parseTimeRange', () => {
+  it.each<[string, { start: number; end: number } | null]>([
+    ['23:00-07:00', { start: 23 * 60, end: 7 * 60 }],
+    ['22 – 6', { start: 22 * 60, end: 6 * 60 }],
+    ['7:30-7:30', null],
+    ['24:00-07:00', null],
+    ['23:00', null],
+  ])('%j', (text, expected) => {
+    expect(parseTimeRange(text)).toEqual(expected);
+  });
+
+  it('reads single times', () => {
+    expect(parseClockTime('7')).toBe(7 * 60);
+    expect(parseClockTime('07:30 Uhr')).toBe(7 * 60 + 30);
+    expect(parseClockTime('7:60')).toBeNull();
+  });
+});
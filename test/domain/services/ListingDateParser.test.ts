@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { Listing } from '../../../src/domain/entities/Listing.js';
+import { parsePostedAt } from '../../../src/domain/services/ListingDateParser.js';
+import { isWithinMaxAge } from '../../../src/domain/services/ListingFilter.js';
+
+// 14:30 in Berlin (UTC+2)
+const now = new Date('2026-10-18T12:30:00Z');
+
+describe('parsePostedAt', () => {
+  it.each([
+    ['Heute, 14:03', '2026-10-18T12:03:00.000Z'],
+    ['heute 9:05 Uhr', '2026-10-18T07:05:00.000Z'],
+    ['Gestern, 09:15', '2026-10-17T07:15:00.000Z'],
+    ['Vorgestern, 23:50', '2026-10-16T21:50:00.000Z'],
+    ['12.10.2026, 08:00', '2026-10-12T06:00:00.000Z'],
+    ['12.10.26 08:00', '2026-10-12T06:00:00.000Z'],
+    ['15.01.2026, 08:00', '2026-01-15T07:00:00.000Z'],
+    ['vor 3 Stunden', '2026-10-18T09:30:00.000Z'],
+    ['vor einer Stunde', '2026-10-18T11:30:00.000Z'],
+    ['vor 5 Min.', '2026-10-18T12:25:00.000Z'],
+    ['Vor 2 Tagen', '2026-10-16T12:30:00.000Z'],
+    ['vor 1 Woche', '2026-10-11T12:30:00.000Z'],
+    ['2026-10-18T10:00:00+02:00', '2026-10-18T08:00:00.000Z'],
+  ])('%j', (text, expected) => {
+    expect(parsePostedAt(text, now)?.toISOString()).toBe(expected);
+  });
+
+  it('takes the last minute of a day without a time, but not later than now', () => {
+    expect(parsePostedAt('Gestern', now)?.toISOString()).toBe('2026-10-17T21:59:00.000Z');
+    expect(parsePostedAt('12.10.2026', now)?.toISOString()).toBe('2026-10-12T21:59:00.000Z');
+    expect(parsePostedAt('15.01.2026', now)?.toISOString()).toBe('2026-01-15T22:59:00.000Z');
+    expect(parsePostedAt('Heute', now)).toEqual(now);
+  });
+
+  it('counts days in German time', () => {
+    // 00:30 UTC on new year's day is already 01:30 in Berlin
+    const newYear = new Date('2026-01-01T00:30:00Z');
+    expect(parsePostedAt('Heute, 00:10', newYear)?.toISOString()).toBe('2025-12-31T23:10:00.000Z');
+    expect(parsePostedAt('Gestern, 23:00', newYear)?.toISOString()).toBe('2025-12-31T22:00:00.000Z');
+  });
+
+  it.each([null, undefined, '', 'Neu', 'Top-Anzeige', 'seit 2024'])('no date in %j', (text) => {
+    expect(parsePostedAt(text, now)).toBeNull();
+  });
+});
+
+describe('max age of parsed dates', () => {
+  const postedAt = (text: string): Listing => ({
+    id: '1',
+    title: 'Wohnung',
+    price: null,
+    size: null,
+    address: null,
+    link: '',
+    hash: 'h',
+    source: 'test',
+    postedAt: parsePostedAt(text, now),
+  });
+
+  it.each<[string, number, boolean]>([
+    ['Heute', 1, true],
+    ['Heute, 14:03', 1, true],
+    ['Heute, 08:00', 6, false],
+    ['vor 3 Stunden', 3, true],
+    ['vor 4 Stunden', 3, false],
+    ['Gestern', 24, true],
+    ['Gestern', 12, false],
+    ['Gestern, 09:15', 24, false],
+  ])('%j with a max age of %i hours: %s', (text, maxAgeHours, expected) => {
+    expect(isWithinMaxAge(postedAt(text), maxAgeHours, now)).toBe(expected);
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { EnrichedListing, Listing, ListingMetrics } from '../../../src/domain/entities/Listing.js';
+import {
+  fingerprintListing,
+  groupDuplicateListings,
+  isSameApartment,
+  normalizeListingUrl,
+} from '../../../src/domain/services/ListingDeduplicator.js';
+
+function listing(
+  source: string,
+  id: string,
+  metrics: Partial<ListingMetrics> = {},
+  extra: Partial<Listing> = {}
+): Listing {
+  return {
+    id,
+    title: 'Helle 2-Zimmer-Wohnung mit Balkon',
+    price: null,
+    size: null,
+    address: 'Gotzinger Str. 12, 81371 München',
+    link: `https://www.${source.toLowerCase()}.de/expose/${id}`,
+    hash: id,
+    source,
+    metrics: { coldRent: 1180, warmRent: null, livingSpaceSqm: 58, rooms: 2, pricePerSqm: null, ...metrics },
+    ...extra,
+  };
+}
+
+const sameApartment = (a: Listing, b: Listing) => isSameApartment(fingerprintListing(a), fingerprintListing(b));
+const sources = (listings: Listing[]) =>
+  listings.map((l) => [l.source, ...(l.alsoListedOn ?? []).map((also) => also.source)]);
+
+describe('isSameApartment', () => {
+  it('matches close rent and size at the same address', () => {
+    const immoscout = listing('ImmoScout', '1');
+    expect(sameApartment(immoscout, listing('Immowelt', 'a', { coldRent: 1200, livingSpaceSqm: 58.5 }))).toBe(true);
+    const withoutPostcode = listing('Immowelt', 'a', {}, { address: 'Gotzinger Straße 12, München' });
+    expect(sameApartment(immoscout, withoutPostcode)).toBe(true);
+  });
+
+  it('matches the same link or picture regardless of the numbers', () => {
+    const immowelt = listing('Immowelt', 'a', {}, { image: 'https://cdn.example.org/1.jpg?w=400' });
+    const immonet = listing('Immonet', 'a', { coldRent: null }, { address: null });
+    const resized = listing('Kleinanzeigen', 'k', { coldRent: 2000 }, { image: 'https://cdn.example.org/1.jpg?w=900' });
+
+    expect(sameApartment(immowelt, immonet)).toBe(true);
+    expect(sameApartment(immowelt, resized)).toBe(true);
+  });
+
+  it.each<[string, Partial<ListingMetrics>, Partial<Listing>]>([
+    ['rent differs by more than 3%', { coldRent: 1250 }, {}],
+    ['size differs by more than 1.5 m²', { livingSpaceSqm: 60 }, {}],
+    ['other postcode', {}, { address: 'Gotzinger Str. 12, 81373 München' }],
+    ['other street', {}, { address: 'Implerstr. 3, München' }],
+    ['no address', {}, { address: null }],
+    ['no size', { livingSpaceSqm: null }, {}],
+  ])('keeps flats apart: %s', (_, metrics, extra) => {
+    expect(sameApartment(listing('ImmoScout', '1'), listing('Immowelt', 'a', metrics, extra))).toBe(false);
+  });
+});
+
+describe('groupDuplicateListings', () => {
+  it('merges the same flat from two providers into the most detailed listing', () => {
+    const immoscout = listing('ImmoScout', '1');
+    const immowelt: EnrichedListing = { ...listing('Immowelt', 'a'), details: { floor: '3. OG' } };
+
+    const [merged, ...rest] = groupDuplicateListings([immoscout, immowelt]);
+
+    expect(rest).toHaveLength(0);
+    expect(merged.source).toBe('Immowelt');
+    expect(merged.alsoListedOn).toEqual([{ source: 'ImmoScout', link: immoscout.link }]);
+  });
+
+  it('keeps different flats and reposts on the same portal apart', () => {
+    const listings = [
+      listing('ImmoScout', '1'),
+      listing('ImmoScout', '2'),
+      listing('Immowelt', 'a', { coldRent: 890, livingSpaceSqm: 41 }),
+    ];
+
+    expect(sources(groupDuplicateListings(listings))).toEqual([['ImmoScout'], ['ImmoScout'], ['Immowelt']]);
+  });
+
+  it('sends the organic listing of a flat that is also promoted', () => {
+    const promoted = listing('ImmoScout', '1', {}, { promoted: true });
+    const organic = listing('ImmoScout', '1');
+
+    const merged = groupDuplicateListings([promoted, listing('ImmoScout', '2'), organic]);
+
+    expect(merged.map((l) => [l.id, l.promoted ?? false])).toEqual([
+      ['1', false],
+      ['2', false],
+    ]);
+  });
+
+  it('prefers the organic copy when a flat is promoted on one portal only', () => {
+    const promoted = listing('ImmoScout', '1', {}, { promoted: true });
+    const organic = listing('Immowelt', 'a');
+
+    const [merged] = groupDuplicateListings([promoted, organic]);
+
+    expect(merged).toMatchObject({ source: 'Immowelt', alsoListedOn: [{ source: 'ImmoScout', link: promoted.link }] });
+    expect(merged.promoted).toBeUndefined();
+  });
+});
+
+describe('normalizeListingUrl', () => {
+  it('ignores www, query strings and the Immonet host', () => {
+    expect(normalizeListingUrl('https://www.immonet.de/expose/abc?ref=x')).toBe('immowelt.de/expose/abc');
+    expect(normalizeListingUrl('not a url')).toBe('not a url');
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { EnrichedListing, Listing, ListingMetrics } from '../../../src/domain/entities/Listing.js';
+import { EMPTY_SEARCH_FILTER, SearchFilter } from '../../../src/domain/entities/SearchFilter.js';
+import {
+  isEmptySearchFilter,
+  isWithinMaxAge,
+  isWithinMaxDistance,
+  matchesSearchFilter,
+} from '../../../src/domain/services/ListingFilter.js';
+
+function listing(metrics: Partial<ListingMetrics> = {}, extra: Partial<Listing> = {}): Listing {
+  return {
+    id: '1',
+    title: 'Helle 2-Zimmer-Wohnung mit Balkon',
+    price: null,
+    size: null,
+    address: 'Gotzinger Str. 12, 81371 München',
+    link: '',
+    hash: 'h',
+    source: 'test',
+    metrics: { coldRent: 1000, warmRent: null, livingSpaceSqm: 60, rooms: 2, pricePerSqm: null, ...metrics },
+    ...extra,
+  };
+}
+
+const filter = (criteria: Partial<SearchFilter>): SearchFilter => ({ ...EMPTY_SEARCH_FILTER, ...criteria });
+
+describe('matchesSearchFilter', () => {
+  it.each<[string, Partial<SearchFilter>, boolean]>([
+    ['no criteria', {}, true],
+    ['rent within bounds', { minPrice: 800, maxPrice: 1000 }, true],
+    ['rent above max', { maxPrice: 999 }, false],
+    ['rent below min', { minPrice: 1001 }, false],
+    ['size at min', { minSize: 60 }, true],
+    ['size below min', { minSize: 61 }, false],
+    ['rooms within bounds', { minRooms: 2, maxRooms: 3 }, true],
+    ['too few rooms', { minRooms: 3 }, false],
+    ['too many rooms', { maxRooms: 1 }, false],
+    ['required keyword in the title', { requiredKeywords: ['BALKON'] }, true],
+    ['required keyword in the address', { requiredKeywords: ['münchen'] }, true],
+    ['required keyword missing', { requiredKeywords: ['Balkon', 'Garten'] }, false],
+    ['excluded keyword', { excludedKeywords: ['wbs', 'balkon'] }, false],
+    ['excluded keyword missing', { excludedKeywords: ['WBS'] }, true],
+  ])('%s', (_, criteria, expected) => {
+    expect(matchesSearchFilter(listing(), filter(criteria))).toBe(expected);
+  });
+
+  it('uses the warm rent when there is no cold rent', () => {
+    const warmOnly = listing({ coldRent: null, warmRent: 700 });
+    expect(matchesSearchFilter(warmOnly, filter({ maxPrice: 700 }))).toBe(true);
+    expect(matchesSearchFilter(warmOnly, filter({ maxPrice: 699 }))).toBe(false);
+  });
+
+  it('does not reject values the listing does not mention', () => {
+    const unknown = listing({ coldRent: null, livingSpaceSqm: null, rooms: null });
+    expect(matchesSearchFilter(unknown, filter({ maxPrice: 500, minSize: 80, minRooms: 4 }))).toBe(true);
+    expect(matchesSearchFilter({ ...unknown, metrics: undefined }, filter({ maxPrice: 500 }))).toBe(true);
+  });
+
+  it('searches the description from the detail page', () => {
+    const enriched: EnrichedListing = { ...listing(), details: { description: 'Einbauküche, WBS erforderlich' } };
+    expect(matchesSearchFilter(enriched, filter({ requiredKeywords: ['einbauküche'] }))).toBe(true);
+    expect(matchesSearchFilter(enriched, filter({ excludedKeywords: ['WBS'] }))).toBe(false);
+  });
+
+  it('can leave required keywords for after enrichment', () => {
+    const criteria = filter({ requiredKeywords: ['Garten'], excludedKeywords: ['Tausch'] });
+    expect(matchesSearchFilter(listing(), criteria, { requiredKeywords: false })).toBe(true);
+    expect(matchesSearchFilter(listing({}, { title: 'Tausch' }), criteria, { requiredKeywords: false })).toBe(false);
+    expect(matchesSearchFilter(listing({ rooms: 5 }), filter({ maxRooms: 3 }), { requiredKeywords: false })).toBe(false);
+  });
+});
+
+describe('isWithinMaxAge', () => {
+  const now = new Date('2026-10-18T12:00:00Z');
+  const postedHoursAgo = (hours: number) => listing({}, { postedAt: new Date(now.getTime() - hours * 60 * 60 * 1000) });
+
+  it('compares the posting date with the max age', () => {
+    expect(isWithinMaxAge(postedHoursAgo(24), 24, now)).toBe(true);
+    expect(isWithinMaxAge(postedHoursAgo(25), 24, now)).toBe(false);
+    expect(isWithinMaxAge(postedHoursAgo(1000), null, now)).toBe(true);
+  });
+
+  it('passes listings without a posting date', () => {
+    expect(isWithinMaxAge(listing({}, { postedAt: null }), 1, now)).toBe(true);
+    expect(isWithinMaxAge(listing(), 1, now)).toBe(true);
+  });
+});
+
+describe('isWithinMaxDistance', () => {
+  it.each<[number | null | undefined, number | null, boolean]>([
+    [4.9, 5, true],
+    [5, 5, true],
+    [5.1, 5, false],
+    [50, null, true],
+    [null, 5, true],
+    [undefined, 5, true],
+  ])('%s km with max %s km', (distanceKm, max, expected) => {
+    expect(isWithinMaxDistance(listing({}, { distanceKm }), max)).toBe(expected);
+  });
+});
+
+describe('isEmptySearchFilter', () => {
+  it('is empty only without any criterion', () => {
+    expect(isEmptySearchFilter(EMPTY_SEARCH_FILTER)).toBe(true);
+    expect(isEmptySearchFilter(filter({ excludedKeywords: ['WBS'] }))).toBe(false);
+    expect(isEmptySearchFilter(filter({ referencePoint: { lat: 48.1, lon: 11.5, label: 'Büro' } }))).toBe(false);
+  });
+});
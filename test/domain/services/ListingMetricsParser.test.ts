@@ -0,0 +1,192 @@
+import { describe, expect, it } from 'vitest';
+import { EnrichedListing, Listing, ListingDetails, ListingMetrics } from '../../../src/domain/entities/Listing.js';
+import { PriceKind } from '../../../src/domain/entities/ProviderConfig.js';
+import {
+  parseListingMetrics,
+  parseLivingSpace,
+  parseRent,
+  parseRooms,
+} from '../../../src/domain/services/ListingMetricsParser.js';
+
+interface Case {
+  name: string;
+  title?: string;
+  price: string | null;
+  size: string | null;
+  details?: ListingDetails;
+  priceKind?: PriceKind;
+  expected: Partial<ListingMetrics>;
+}
+
+function listing({ title = 'Wohnung', price, size, details }: Case): Listing {
+  const base: Listing = { id: '1', title, price, size, address: null, link: '', hash: 'h', source: 'test' };
+  return details ? ({ ...base, details } as EnrichedListing) : base;
+}
+
+// Card and detail page texts as the portals show them
+const PROVIDER_CASES: Record<string, Case[]> = {
+  ImmoScout: [
+    {
+      name: 'unlabelled attributes',
+      price: '1.650 €',
+      size: '78,5 m²',
+      details: { rooms: '3 Zi.', coldRent: '1.650 €' },
+      expected: { coldRent: 1650, warmRent: null, livingSpaceSqm: 78.5, rooms: 3, pricePerSqm: 21.02 },
+    },
+    {
+      name: 'half rooms',
+      price: '2.140 €',
+      size: '96 m²',
+      details: { rooms: '3,5 Zi.' },
+      expected: { coldRent: 2140, livingSpaceSqm: 96, rooms: 3.5, pricePerSqm: 22.29 },
+    },
+    {
+      name: 'price on request',
+      price: 'Preis auf Anfrage',
+      size: '120 m²',
+      expected: { coldRent: null, warmRent: null, livingSpaceSqm: 120, pricePerSqm: null },
+    },
+  ],
+  Immowelt: [
+    {
+      name: 'rooms and size in one keyfacts text',
+      price: '1.180 €',
+      size: '2 Zimmer · 61 m² · 3. Geschoss',
+      expected: { coldRent: 1180, livingSpaceSqm: 61, rooms: 2, pricePerSqm: 19.34 },
+    },
+    {
+      name: 'decimal size and half rooms',
+      price: '1.430 €',
+      size: '3,5 Zimmer · 84,5 m² · EG',
+      expected: { coldRent: 1430, livingSpaceSqm: 84.5, rooms: 3.5, pricePerSqm: 16.92 },
+    },
+    {
+      name: 'warm rent from the detail page',
+      price: '990 €',
+      size: '2 Zimmer · 52 m²',
+      details: { coldRent: '990 €', warmRent: '1.215,50 €', rooms: '2' },
+      expected: { coldRent: 990, warmRent: 1215.5, rooms: 2, pricePerSqm: 19.04 },
+    },
+  ],
+  Immonet: [
+    {
+      name: 'same cards as Immowelt',
+      price: '1.050 €',
+      size: '2 Zimmer · 58 m² · 2. Geschoss',
+      expected: { coldRent: 1050, livingSpaceSqm: 58, rooms: 2, pricePerSqm: 18.1 },
+    },
+    {
+      name: 'rent split from the detail page',
+      price: '1.690 €',
+      size: '3,5 Zimmer · 96 m²',
+      details: { coldRent: '1.690 €', warmRent: '1.980 €', rooms: '3,5' },
+      expected: { coldRent: 1690, warmRent: 1980, livingSpaceSqm: 96, rooms: 3.5 },
+    },
+  ],
+  Kleinanzeigen: [
+    {
+      name: 'negotiable price',
+      price: '1.050 € VB',
+      size: '58 m²  2 Zi.',
+      expected: { coldRent: 1050, livingSpaceSqm: 58, rooms: 2, pricePerSqm: 18.1 },
+    },
+    {
+      name: 'only "VB"',
+      price: 'VB',
+      size: '68 m²  3 Zi.',
+      expected: { coldRent: null, warmRent: null, livingSpaceSqm: 68, rooms: 3, pricePerSqm: null },
+    },
+    {
+      name: 'warm rent from the detail page',
+      price: '790 €',
+      size: '31 m²  1 Zi.',
+      details: { warmRent: '890 €', rooms: '1' },
+      expected: { coldRent: 790, warmRent: 890, livingSpaceSqm: 31, rooms: 1, pricePerSqm: 25.48 },
+    },
+    {
+      name: 'size only in the title',
+      title: '3-Zimmer-Wohnung, 74,5 qm, Balkon',
+      price: '1.340 €',
+      size: null,
+      expected: { coldRent: 1340, livingSpaceSqm: 74.5, rooms: 3, pricePerSqm: 17.99 },
+    },
+  ],
+  'WG-Gesucht': [
+    {
+      name: 'card price is the total rent',
+      price: '690 €',
+      size: '16 m²',
+      priceKind: 'warm',
+      expected: { coldRent: null, warmRent: 690, livingSpaceSqm: 16, rooms: null, pricePerSqm: 43.13 },
+    },
+    {
+      name: 'cold rent from the detail page wins for €/m²',
+      price: '820 €',
+      size: '21 m²',
+      priceKind: 'warm',
+      details: { coldRent: '640€', warmRent: '820€' },
+      expected: { coldRent: 640, warmRent: 820, livingSpaceSqm: 21, pricePerSqm: 30.48 },
+    },
+    {
+      name: 'flat in a shared listing',
+      title: '2-Zimmer-Wohnung in Giesing',
+      price: '1.240 €',
+      size: '55 m²',
+      priceKind: 'warm',
+      expected: { coldRent: null, warmRent: 1240, rooms: 2, pricePerSqm: 22.55 },
+    },
+  ],
+};
+
+describe('parseListingMetrics', () => {
+  for (const [provider, cases] of Object.entries(PROVIDER_CASES)) {
+    describe(provider, () => {
+      it.each(cases.map((c) => [c.name, c] as const))('%s', (_name, testCase) => {
+        expect(parseListingMetrics(listing(testCase), testCase.priceKind)).toMatchObject(testCase.expected);
+      });
+    });
+  }
+});
+
+describe('parseRent', () => {
+  it.each([
+    ['1.250 €', 1250],
+    ['1 250,50 €', 1250.5],
+    ['950 EUR', 950],
+    ['1.050 € VB', 1050],
+    ['1250', 1250],
+    ['VB', null],
+    ['Zu verschenken', null],
+    // A postcode or a phone number is not a rent
+    ['80331 München', null],
+    ['5 €', null],
+  ])('%s -> %s', (text, expected) => {
+    expect(parseRent(text)).toBe(expected);
+  });
+});
+
+describe('parseLivingSpace', () => {
+  it.each([
+    ['68,5 m²', 68.5],
+    ['68.5 m2', 68.5],
+    ['ca. 120 qm', 120],
+    ['54 Quadratmeter', 54],
+    ['3 Zimmer', null],
+    ['1.500 m² Grundstück', null],
+  ])('%s -> %s', (text, expected) => {
+    expect(parseLivingSpace(text)).toBe(expected);
+  });
+});
+
+describe('parseRooms', () => {
+  it.each([
+    ['3 Zi.', 3],
+    ['2,5 Zimmer', 2.5],
+    ['3-Zimmer-Wohnung', 3],
+    ['4 Räume', 4],
+    ['2', 2],
+    ['61 m²', null],
+  ])('%s -> %s', (text, expected) => {
+    expect(parseRooms(text)).toBe(expected);
+  });
+});
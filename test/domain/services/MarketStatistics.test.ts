@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { Listing, ListingMetrics } from '../../../src/domain/entities/Listing.js';
+import { MarketMedian } from '../../../src/domain/entities/MarketStats.js';
+import { compareToMarket, toMarketObservation } from '../../../src/domain/services/MarketStatistics.js';
+
+function listing(metrics: Partial<ListingMetrics>): Listing {
+  return {
+    id: '1',
+    title: 'Wohnung',
+    price: null,
+    size: null,
+    address: 'Sendlinger Str. 1, 80331 München',
+    link: '',
+    hash: 'h',
+    source: 'test',
+    metrics: { coldRent: null, warmRent: null, livingSpaceSqm: 50, rooms: 2, pricePerSqm: null, ...metrics },
+  };
+}
+
+const medians: MarketMedian[] = [{ scope: 'postcode', key: '80331', rooms: 2, medianPricePerSqm: 20, sampleSize: 12 }];
+
+describe('toMarketObservation', () => {
+  it('records the cold rent per m²', () => {
+    expect(toMarketObservation('ImmoScout', listing({ coldRent: 1000, pricePerSqm: 20 }))).toEqual({
+      provider: 'ImmoScout',
+      listingId: '1',
+      postcode: '80331',
+      city: 'München',
+      rooms: 2,
+      pricePerSqm: 20,
+    });
+  });
+
+  it('skips warm-only listings', () => {
+    expect(toMarketObservation('WG-Gesucht', listing({ warmRent: 700, pricePerSqm: 14 }))).toBeNull();
+  });
+
+  it('uses the cold rent when both are known', () => {
+    const observation = toMarketObservation('Immonet', listing({ coldRent: 900, warmRent: 1100, pricePerSqm: 18 }));
+    expect(observation?.pricePerSqm).toBe(18);
+  });
+});
+
+describe('compareToMarket', () => {
+  it('compares cold rents with the median', () => {
+    const comparison = compareToMarket(listing({ coldRent: 800, pricePerSqm: 16 }), medians);
+    expect(comparison).toMatchObject({ label: '2-room flats in 80331', deviation: -0.2 });
+  });
+
+  it('does not compare warm-only listings with cold-rent medians', () => {
+    expect(compareToMarket(listing({ warmRent: 800, pricePerSqm: 16 }), medians)).toBeNull();
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { Listing } from '../../../src/domain/entities/Listing.js';
+import { scoreScamRisk } from '../../../src/domain/services/ScamRiskScorer.js';
+
+function listing(description: string): Listing {
+  return {
+    id: '1',
+    title: 'Schöne 2-Zimmer-Wohnung',
+    price: '650 €',
+    size: '55 m²',
+    address: '10245 Berlin',
+    link: '',
+    hash: 'h',
+    source: 'test',
+    description,
+  };
+}
+
+const score = (description: string) => scoreScamRisk(listing(description), { sharedImageCount: 0 });
+
+describe('scoreScamRisk', () => {
+  it.each([
+    'Ich arbeite für Ärzte ohne Grenzen in Afrika.',
+    'Ich bin Arzt bei ärzte ohne grenzen.',
+    'I work for Doctors Without Borders.',
+    'Wir sind als Missionar unterwegs.',
+  ])('flags the scam story in "%s"', (description) => {
+    expect(score(description).reasons).toContain('Typical scam story');
+  });
+
+  it.each(['Die Hausärzte ohne Grenzen sind nebenan.', 'Die Missionarsstraße ist ruhig.'])(
+    'needs whole words in "%s"',
+    (description) => {
+      expect(score(description).reasons).not.toContain('Typical scam story');
+    }
+  );
+
+  it('adds up the rules into a level', () => {
+    const risk = score('I am currently abroad, the keys will be sent by post. Payment via Western Union.');
+    expect(risk.reasons).toEqual([
+      'Landlord claims to be abroad',
+      'Keys sent by post',
+      'Asks for an untraceable money transfer',
+    ]);
+    expect(risk).toMatchObject({ score: 120, level: 'high' });
+  });
+
+  it('keeps ordinary listings low', () => {
+    expect(score('Helle Wohnung mit Balkon, Besichtigung am Samstag.')).toEqual({ score: 0, level: 'low', reasons: [] });
+  });
+});
@@ -0,0 +1,57 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+
+export interface GeocodeRequest {
+  path: string;
+  query: URLSearchParams;
+  userAgent: string | null;
+  receivedAt: number;
+}
+
+// Answers the Nominatim /search API from a fixed address book; anything else is a 404.
+// Queries listed in `failing` get a 503 like an overloaded instance.
+export class NominatimStandIn {
+  readonly requests: GeocodeRequest[] = [];
+  private server: Server | null = null;
+
+  constructor(
+    private readonly places: Record<string, { lat: string; lon: string }>,
+    private readonly failing: string[] = []
+  ) {}
+
+  // Resolves to the base URL, mounted under `prefix` like a self-hosted instance behind a reverse proxy
+  async start(prefix = ''): Promise<string> {
+    this.server = createServer((req, res) => {
+      const url = new URL(req.url ?? '/', 'http://stand-in');
+      this.requests.push({
+        path: url.pathname,
+        query: url.searchParams,
+        userAgent: req.headers['user-agent'] ?? null,
+        receivedAt: Date.now(),
+      });
+
+      if (url.pathname !== `${prefix}/search`) {
+        res.writeHead(404).end();
+        return;
+      }
+      const q = url.searchParams.get('q') ?? '';
+      if (this.failing.includes(q)) {
+        res.writeHead(503).end();
+        return;
+      }
+
+      const place = this.places[q];
+      const results = place ? [{ place_id: 1, ...place, display_name: q }] : [];
+      res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(results));
+    });
+
+    await new Promise<void>((resolve) => this.server!.listen(0, '127.0.0.1', resolve));
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}${prefix}`;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve) => (this.server ? this.server.close(() => resolve()) : resolve()));
+    this.server = null;
+  }
+}
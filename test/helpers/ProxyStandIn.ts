@@ -0,0 +1,57 @@
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+
+export interface ProxiedRequest {
+  url: string;
+  authorization: string | null;
+}
+
+export interface StandInResponse {
+  status: number;
+  body: string;
+}
+
+// Forward proxy for tests: answers every proxied plain-HTTP request itself instead of
+// connecting anywhere, and records what it was asked for
+export class ProxyStandIn {
+  readonly requests: ProxiedRequest[] = [];
+  private server: Server | null = null;
+
+  constructor(
+    private readonly respond: (url: string) => StandInResponse,
+    private readonly credentials?: { username: string; password: string }
+  ) {}
+
+  // Resolves to the proxy URL, with credentials when the stand-in requires them
+  async start(): Promise<string> {
+    this.server = createServer((req, res) => {
+      if (!this.isAuthorized(req)) {
+        res.writeHead(407, { 'Proxy-Authenticate': 'Basic realm="stand-in"' }).end();
+        return;
+      }
+
+      const url = req.url ?? '';
+      this.requests.push({ url, authorization: req.headers['proxy-authorization'] ?? null });
+      const { status, body } = this.respond(url);
+      res.writeHead(status, { 'Content-Type': 'text/html; charset=utf-8' }).end(body);
+    });
+
+    await new Promise<void>((resolve) => this.server!.listen(0, '127.0.0.1', resolve));
+    const { port } = this.server.address() as AddressInfo;
+    const auth = this.credentials
+      ? `${encodeURIComponent(this.credentials.username)}:${encodeURIComponent(this.credentials.password)}@`
+      : '';
+    return `http://${auth}127.0.0.1:${port}`;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve) => (this.server ? this.server.close(() => resolve()) : resolve()));
+    this.server = null;
+  }
+
+  private isAuthorized(req: IncomingMessage): boolean {
+    if (!this.credentials) return true;
+    const expected = Buffer.from(`${this.credentials.username}:${this.credentials.password}`).toString('base64');
+    return req.headers['proxy-authorization'] === `Basic ${expected}`;
+  }
+}
@@ -0,0 +1,126 @@
+import { AddressInfo, createServer, Server, Socket } from 'net';
+
+export interface ReceivedMail {
+  from: string;
+  to: string[];
+  // The raw message as sent after DATA, dot-stuffing removed
+  data: string;
+  // "user:password" from AUTH PLAIN, null without authentication
+  auth: string | null;
+}
+
+export interface SmtpSinkOptions {
+  // Advertise AUTH PLAIN and refuse mail from unauthenticated sessions
+  credentials?: { user: string; password: string };
+  // Recipients answered with 550, like an unknown mailbox
+  rejectRecipients?: string[];
+}
+
+// Just enough SMTP (RFC 5321) for nodemailer: no TLS, no pipelining, everything kept in memory
+export class SmtpSink {
+  readonly messages: ReceivedMail[] = [];
+  private server: Server | null = null;
+  private readonly sockets = new Set<Socket>();
+
+  constructor(private readonly options: SmtpSinkOptions = {}) {}
+
+  async start(): Promise<number> {
+    this.server = createServer((socket) => this.handle(socket));
+    await new Promise<void>((resolve) => this.server!.listen(0, '127.0.0.1', resolve));
+    return (this.server.address() as AddressInfo).port;
+  }
+
+  async stop(): Promise<void> {
+    this.sockets.forEach((socket) => socket.destroy());
+    await new Promise<void>((resolve) => (this.server ? this.server.close(() => resolve()) : resolve()));
+    this.server = null;
+  }
+
+  private handle(socket: Socket): void {
+    this.sockets.add(socket);
+    socket.on('close', () => this.sockets.delete(socket));
+    socket.setEncoding('utf8');
+
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+    let mail: ReceivedMail | null = null;
+    let auth: string | null = null;
+    let data: string[] | null = null;
+    let buffered = '';
+
+    const command = (line: string) => {
+      const [verb] = line.split(' ', 1);
+      switch (verb.toUpperCase()) {
+        case 'EHLO':
+          reply('250-sink.test');
+          if (this.options.credentials) reply('250-AUTH PLAIN');
+          reply('250 8BITMIME');
+          return;
+        case 'HELO':
+          return reply('250 sink.test');
+        case 'AUTH': {
+          const [, mechanism, initial] = line.split(' ');
+          const [, user, password] = Buffer.from(initial ?? '', 'base64').toString('utf8').split('\0');
+          const { credentials } = this.options;
+          if (mechanism !== 'PLAIN' || user !== credentials?.user || password !== credentials?.password) {
+            return reply('535 Authentication failed');
+          }
+          auth = `${user}:${password}`;
+          return reply('235 Authenticated');
+        }
+        case 'MAIL':
+          if (this.options.credentials && !auth) return reply('530 Authentication required');
+          mail = { from: address(line), to: [], data: '', auth };
+          return reply('250 OK');
+        case 'RCPT': {
+          if (!mail) return reply('503 MAIL first');
+          const to = address(line);
+          if (this.options.rejectRecipients?.includes(to)) return reply('550 No such mailbox');
+          mail.to.push(to);
+          return reply('250 OK');
+        }
+        case 'DATA':
+          if (!mail || mail.to.length === 0) return reply('503 RCPT first');
+          data = [];
+          return reply('354 End data with <CR><LF>.<CR><LF>');
+        case 'RSET':
+          mail = null;
+          return reply('250 OK');
+        case 'NOOP':
+          return reply('250 OK');
+        case 'QUIT':
+          reply('221 Bye');
+          socket.end();
+          return;
+        default:
+          return reply('502 Command not implemented');
+      }
+    };
+
+    socket.on('data', (chunk: string) => {
+      buffered += chunk;
+      let end: number;
+      while ((end = buffered.indexOf('\r\n')) >= 0) {
+        const line = buffered.slice(0, end);
+        buffered = buffered.slice(end + 2);
+
+        if (!data) {
+          command(line);
+        } else if (line === '.') {
+          this.messages.push({ ...mail!, data: data.join('\r\n') });
+          mail = null;
+          data = null;
+          reply('250 OK: queued');
+        } else {
+          data.push(line.startsWith('..') ? line.slice(1) : line);
+        }
+      }
+    });
+
+    reply('220 sink.test ESMTP');
+  }
+}
+
+// "MAIL FROM:<a@b.de> SIZE=123" -> "a@b.de"
+function address(line: string): string {
+  return line.match(/<([^>]*)>/)?.[1] ?? '';
+}
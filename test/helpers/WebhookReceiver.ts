@@ -0,0 +1,46 @@
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
+
+export interface ReceivedRequest {
+  method: string;
+  path: string;
+  headers: IncomingHttpHeaders;
+  // Raw, exactly as signed by the sender
+  body: string;
+}
+
+// HTTP endpoint for webhook tests: records every request and answers with the given statuses
+// in order, then 200 for everything after them
+export class WebhookReceiver {
+  readonly requests: ReceivedRequest[] = [];
+  private server: Server | null = null;
+
+  constructor(private readonly statuses: number[] = []) {}
+
+  // Resolves to the base URL
+  async start(): Promise<string> {
+    this.server = createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk: Buffer) => chunks.push(chunk));
+      req.on('end', () => {
+        this.requests.push({
+          method: req.method ?? '',
+          path: req.url ?? '',
+          headers: req.headers,
+          body: Buffer.concat(chunks).toString('utf8'),
+        });
+        res.writeHead(this.statuses[this.requests.length - 1] ?? 200).end();
+      });
+    });
+
+    await new Promise<void>((resolve) => this.server!.listen(0, '127.0.0.1', resolve));
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  async stop(): Promise<void> {
+    this.server?.closeAllConnections();
+    await new Promise<void>((resolve) => (this.server ? this.server.close(() => resolve()) : resolve()));
+    this.server = null;
+  }
+}
@@ -0,0 +1,13 @@
+import { readFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+
+export const FIXTURES_DIR = join(dirname(fileURLToPath(import.meta.url)), '..', 'fixtures');
+
+export function readFixture(path: string): string {
+  return readFileSync(join(FIXTURES_DIR, path), 'utf-8');
+}
+
+export function readJsonFixture<T>(path: string): T {
+  return JSON.parse(readFixture(path)) as T;
+}
@@ -0,0 +1,25 @@
+import { vi } from 'vitest';
+import { ImmoScoutApiClient } from '../../src/infrastructure/immoscout/ImmoScoutApiClient.js';
+import { ImmoScoutSearchPage, ImmoScoutSearchResponse } from '../../src/infrastructure/immoscout/ImmoScoutTypes.js';
+import { readJsonFixture } from './fixtures.js';
+
+export const IMMOSCOUT_SEARCH_URL = 'https://www.immobilienscout24.de/Suche/de/bayern/muenchen/wohnung-mieten';
+
+export function loadImmoScoutPage(pageNumber: number): ImmoScoutSearchPage {
+  const body = readJsonFixture<ImmoScoutSearchResponse>(`immoscout/search-page-${pageNumber}.json`);
+  return {
+    exposes: (body.resultListItems ?? []).filter((e) => e.type === 'EXPOSE_RESULT' && e.item).map((e) => e.item!),
+    pageNumber: body.pageNumber!,
+    numberOfPages: body.numberOfPages!,
+    totalResults: body.totalResults!,
+  };
+}
+
+// Serves the fixture pages instead of calling the API
+export function fixtureImmoScoutClient() {
+  const client = new ImmoScoutApiClient();
+  const search = vi
+    .spyOn(client, 'search')
+    .mockImplementation(async (_url, pageNumber = 1) => loadImmoScoutPage(pageNumber));
+  return { client, search };
+}
@@ -0,0 +1,103 @@
+import { join } from 'path';
+import puppeteer from 'puppeteer';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { BrowserService } from '../../../src/infrastructure/browser/BrowserService.js';
+import { ProxyPool } from '../../../src/infrastructure/browser/ProxyPool.js';
+import { DeclarativeProvider } from '../../../src/infrastructure/providers/DeclarativeProvider.js';
+import { ProviderRegistry } from '../../../src/infrastructure/providers/ProviderRegistry.js';
+import { SnapshotStore } from '../../../src/infrastructure/snapshots/SnapshotStore.js';
+import { FIXTURES_DIR } from '../../helpers/fixtures.js';
+import { ProxyStandIn } from '../../helpers/ProxyStandIn.js';
+
+vi.mock('../../../src/infrastructure/monitoring/MonitoringService.js', () => ({
+  MonitoringService: {
+    getInstance: () => ({
+      logScrapingError: async () => {},
+      logCircuitOpened: async () => {},
+      logCircuitClosed: async () => {},
+    }),
+  },
+}));
+vi.mock('../../../src/infrastructure/artifacts/ArtifactStore.js', () => ({
+  ArtifactStore: { getInstance: () => ({ save: () => null }) },
+}));
+
+// Chromium needs system libraries that slim CI images and containers often lack
+const browserAvailable = await puppeteer
+  .launch({ headless: true, args: ['--no-sandbox', '--disable-dev-shm-usage'] })
+  .then(
+    async (browser) => {
+      await browser.close();
+      return true;
+    },
+    () => false
+  );
+
+const registry = new ProviderRegistry(join(FIXTURES_DIR, '..', '..', 'providers'));
+registry.load();
+const immowelt = registry.get('immowelt')!;
+const resultPage = new SnapshotStore(join(FIXTURES_DIR, 'snapshots')).list('immowelt')[0].html;
+
+// .test hosts never resolve, so the page can only arrive through the stand-in
+const SEARCH_URL = 'http://www.immowelt.test/liste/berlin/wohnungen/mieten';
+
+describe.skipIf(!browserAvailable)('BrowserService through a proxy stand-in', () => {
+  const cleanup: Array<() => Promise<void>> = [];
+
+  afterEach(async () => {
+    for (const step of cleanup.splice(0).reverse()) {
+      await step();
+    }
+  });
+
+  async function startProxy(status: number, credentials?: { username: string; password: string }) {
+    const body = status === 200 ? resultPage : 'Zugriff verweigert';
+    const proxy = new ProxyStandIn(() => ({ status, body }), credentials);
+    const url = await proxy.start();
+    cleanup.push(() => proxy.stop());
+    return { proxy, url };
+  }
+
+  function startBrowser(proxyUrls: string[]): BrowserService {
+    const browser = new BrowserService({
+      proxyPool: new ProxyPool(ProxyPool.parse(proxyUrls.join(','))),
+      maxPages: 1,
+      blockResources: false,
+    });
+    cleanup.push(() => browser.close());
+    return browser;
+  }
+
+  it('loads result pages through an authenticated proxy', async () => {
+    const { proxy, url } = await startProxy(200, { username: 'flat', password: 'hunt' });
+    const browser = startBrowser([url]);
+
+    const page = await browser.scrape(SEARCH_URL, immowelt.crawlContainer!, immowelt.crawlFields!, {
+      providerId: 'immowelt',
+    });
+
+    expect(page.listings).toHaveLength(3);
+    expect(proxy.requests).toContainEqual({
+      url: SEARCH_URL,
+      authorization: `Basic ${Buffer.from('flat:hunt').toString('base64')}`,
+    });
+    expect(browser.getProxyHealth()).toEqual([expect.objectContaining({ uses: 1, consecutiveFailures: 0 })]);
+  });
+
+  it('switches to the next proxy when the portal blocks the current one', async () => {
+    const blocked = await startProxy(403);
+    const working = await startProxy(200);
+    const browser = startBrowser([blocked.url, working.url]);
+    const provider = new DeclarativeProvider(SEARCH_URL, immowelt, browser);
+
+    expect(await provider.scrape(20)).toEqual([]);
+    expect(provider.getLastError()?.possibleCause).toMatch(/403 Forbidden/);
+
+    const listings = await provider.scrape(20);
+
+    expect(listings).toHaveLength(3);
+    expect(blocked.proxy.requests).toHaveLength(1);
+    expect(working.proxy.requests).toHaveLength(1);
+    expect(browser.getProxyHealth()?.find((h) => working.url.endsWith(h.id))).toMatchObject({ uses: 1 });
+  });
+});
@@ -0,0 +1,75 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ProviderDefinition } from '../../../src/domain/entities/ProviderConfig.js';
+import { HttpFetchService } from '../../../src/infrastructure/browser/HttpFetchService.js';
+import { DeclarativeProvider } from '../../../src/infrastructure/providers/DeclarativeProvider.js';
+import { buildHash } from '../../../src/infrastructure/utils/hash.js';
+
+const { saveArtifact } = vi.hoisted(() => ({ saveArtifact: vi.fn(() => 'artifact-1') }));
+
+vi.mock('../../../src/infrastructure/artifacts/ArtifactStore.js', () => ({
+  ArtifactStore: { getInstance: () => ({ save: saveArtifact }) },
+}));
+vi.mock('../../../src/infrastructure/snapshots/SnapshotStore.js', () => ({
+  SnapshotStore: { getInstance: () => ({ save: () => null }) },
+}));
+
+const card = (id: number) =>
+  `<div class="card"><a href="/expose/${id}">Wohnung ${id}</a><span class="price">${900 + id} €</span></div>`;
+
+// Page 1 has two cards, every later page is empty like a search past its last result
+const PAGES: Record<string, string> = {
+  '1': `<html><body>${card(2)}${card(1)}</body></html>`,
+};
+
+const definition: ProviderDefinition = {
+  id: 'local',
+  name: 'Local',
+  displayName: 'Local portal',
+  engine: 'http',
+  allowedDomains: ['127.0.0.1'],
+  crawlContainer: '.card',
+  crawlFields: { id: 'a@href', title: 'a', price: '.price', link: 'a@href' },
+  pagination: { pageParam: 'page', maxPages: 3 },
+};
+
+describe('HttpFetchService', () => {
+  let server: Server;
+  let searchUrl: string;
+
+  beforeEach(async () => {
+    server = createServer((req, res) => {
+      const page = new URL(req.url!, 'http://localhost').searchParams.get('page') ?? '1';
+      res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+      res.end(PAGES[page] ?? '<html><body><p>Keine weiteren Ergebnisse</p></body></html>');
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    searchUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/suche`;
+    saveArtifact.mockClear();
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('saves a failure artifact when the first page has no cards', async () => {
+    const http = new HttpFetchService();
+    const result = await http.scrape(`${searchUrl}?page=2`, '.card', { title: 'a' }, { providerId: 'local' });
+
+    expect(result).toMatchObject({ listings: [], artifactId: 'artifact-1' });
+    expect(saveArtifact).toHaveBeenCalledWith(
+      expect.objectContaining({ providerId: 'local', reason: 'no_listings' }),
+      result.html
+    );
+  });
+
+  it('does not save an artifact for an empty follow-up page', async () => {
+    const provider = new DeclarativeProvider(searchUrl, definition, new HttpFetchService());
+
+    const listings = await provider.scrape(20, [new Set([buildHash('not-on-any-page')])]);
+
+    expect(listings.map((l) => l.title)).toEqual(['Wohnung 2', 'Wohnung 1']);
+    expect(saveArtifact).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,67 @@
+import { parseHTML } from 'linkedom';
+import { runInNewContext } from 'vm';
+import { tsImport } from 'tsx/esm/api';
+import { describe, expect, it } from 'vitest';
+import { DetailPageConfig } from '../../../src/domain/entities/ProviderConfig.js';
+import * as extractors from '../../../src/infrastructure/browser/extractors.js';
+
+const { document } = parseHTML(`
+  <html><body>
+    <h1 class="title">  Helle   2-Zimmer-Wohnung </h1>
+    <img class="hero" src="https://example.org/1.jpg">
+    <ul class="facts">
+      <li>Zimmer: 2</li>
+      <li>Kaltmiete <span class="value">  980 € </span></li>
+      <li>Etage
+        3. OG</li>
+    </ul>
+    <div class="card"><a href="/expose/1">Wohnung 1</a><span class="price">980 €</span></div>
+    <div class="card"><a href="/expose/2">Wohnung 2</a></div>
+    <a class="next" href="?page=2">Weiter</a>
+  </body></html>
+`);
+
+const DETAILS: DetailPageConfig = {
+  fields: { title: 'h2.missing | h1.title', image: 'img.hero@src' },
+  labeledList: { itemSelector: 'ul.facts li', labels: { rooms: 'Zimmer', coldRent: 'Kaltmiete', floor: 'Etage' } },
+};
+
+const EXPECTED_DETAILS = {
+  title: 'Helle 2-Zimmer-Wohnung',
+  image: 'https://example.org/1.jpg',
+  rooms: '2',
+  coldRent: '980 €',
+  floor: '3. OG',
+};
+
+// page.evaluate sends the function's source to the page and runs it there, without module scope
+function evaluateInPage(fn: (...args: never[]) => unknown, ...args: unknown[]): unknown {
+  return runInNewContext(`(${fn.toString()})(...args)`, { args, document });
+}
+
+describe('extractors', () => {
+  it('reads details by selector and from labelled rows', () => {
+    expect(extractors.extractDetails(DETAILS, document)).toEqual(EXPECTED_DETAILS);
+    expect(
+      extractors.extractDetails({ labeledList: { ...DETAILS.labeledList!, valueSelector: '.value' } }, document)
+    ).toEqual({ rooms: '2', coldRent: '980 €', floor: '3. OG' });
+  });
+
+  it('reads cards and the next page link', () => {
+    const fields = { link: 'a@href', title: 'a', price: '.price' };
+    expect(extractors.extractListings('.card', fields, document)).toEqual([
+      { link: '/expose/1', title: 'Wohnung 1', price: '980 €' },
+      { link: '/expose/2', title: 'Wohnung 2', price: null },
+    ]);
+    expect(extractors.extractNextPageHref('a.next', document)).toBe('?page=2');
+  });
+
+  // npm run dev and the doctor load the sources through tsx, which keeps function names with __name()
+  it('runs in the page when compiled by tsx', async () => {
+    const compiled: typeof extractors = await tsImport('../../../src/infrastructure/browser/extractors.ts', import.meta.url);
+
+    expect(evaluateInPage(compiled.extractDetails, DETAILS, document)).toEqual(EXPECTED_DETAILS);
+    expect(evaluateInPage(compiled.extractListings, '.card', { title: 'a' }, document)).toHaveLength(2);
+    expect(evaluateInPage(compiled.extractNextPageHref, 'a.next', document)).toBe('?page=2');
+  });
+});
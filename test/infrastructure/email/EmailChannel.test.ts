@@ -0,0 +1,130 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { Listing } from '../../../src/domain/entities/Listing.js';
+import { NotificationRecipient } from '../../../src/domain/entities/Notification.js';
+import { EmailChannel, EmailChannelConfig } from '../../../src/infrastructure/email/EmailChannel.js';
+import { SmtpSink } from '../../helpers/SmtpSink.js';
+
+const recipient: NotificationRecipient = {
+  userId: 'u1',
+  name: 'Anna',
+  address: 'anna@example.org',
+  settings: {},
+  timezone: 'Europe/Berlin',
+};
+
+const listing: Listing = {
+  id: '158199021',
+  title: 'Helle 2-Zimmer-Wohnung mit Balkon',
+  price: '1.180 €',
+  size: '58 m²',
+  address: 'Gotzinger Str. 12, 81371 München',
+  link: 'https://www.immobilienscout24.de/expose/158199021',
+  image: 'https://pictures.immobilienscout24.de/listings/158199021.jpg',
+  hash: 'h',
+  source: 'ImmoScout',
+};
+
+// Just enough MIME to read back what nodemailer sent: unfolded headers, encoded words,
+// quoted-printable and base64 bodies
+function decodeWords(value: string): string {
+  return value.replace(/=\?utf-8\?([bq])\?([^?]*)\?=\s*/gi, (_, encoding: string, text: string) =>
+    encoding.toLowerCase() === 'b'
+      ? Buffer.from(text, 'base64').toString('utf8')
+      : decodeQuotedPrintable(text.replace(/_/g, ' '))
+  );
+}
+
+function decodeQuotedPrintable(text: string): string {
+  const bytes = text
+    .replace(/=\r\n/g, '')
+    .replace(/=([0-9A-F]{2})/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+  return Buffer.from(bytes, 'latin1').toString('utf8');
+}
+
+function header(raw: string, name: string): string | null {
+  const headers = raw.split('\r\n\r\n')[0].replace(/\r\n[ \t]+/g, ' ');
+  const line = headers.split('\r\n').find((l) => l.toLowerCase().startsWith(`${name.toLowerCase()}:`));
+  return line ? decodeWords(line.slice(name.length + 1).trim()) : null;
+}
+
+function body(raw: string, contentType: string): string {
+  const start = raw.indexOf(`Content-Type: ${contentType}`);
+  expect(start).toBeGreaterThanOrEqual(0);
+  const part = raw.slice(start);
+  const [headers, ...rest] = part.split('\r\n\r\n');
+  const content = rest.join('\r\n\r\n').split('\r\n--')[0];
+  if (/Content-Transfer-Encoding: quoted-printable/i.test(headers)) return decodeQuotedPrintable(content);
+  if (/Content-Transfer-Encoding: base64/i.test(headers)) return Buffer.from(content, 'base64').toString('utf8');
+  return content;
+}
+
+describe('EmailChannel', () => {
+  let sink: SmtpSink;
+
+  afterEach(async () => {
+    await sink.stop();
+  });
+
+  async function channel(config: Partial<EmailChannelConfig> = {}): Promise<EmailChannel> {
+    const port = await sink.start();
+    return new EmailChannel({ host: '127.0.0.1', port, secure: false, from: 'Flats <flats@example.org>', ...config });
+  }
+
+  it('sends one HTML digest with images and links', async () => {
+    sink = new SmtpSink();
+    const email = await channel();
+
+    await email.send(recipient, {
+      newListings: [listing],
+      priceDrops: [
+        {
+          listing: { ...listing, id: '158170312', link: 'https://www.immobilienscout24.de/expose/158170312' },
+          previousPrice: '1.250 €',
+          previousRent: 1250,
+          currentRent: 1150,
+        },
+      ],
+    });
+
+    expect(sink.messages).toHaveLength(1);
+    const [mail] = sink.messages;
+    expect(mail).toMatchObject({ from: 'flats@example.org', to: ['anna@example.org'], auth: null });
+    expect(header(mail.data, 'Subject')).toBe('🏠 1 new listing, 1 price drop');
+    expect(header(mail.data, 'To')).toBe('anna@example.org');
+    expect(header(mail.data, 'Content-Type')).toMatch(/^multipart\/alternative/);
+
+    const html = body(mail.data, 'text/html');
+    expect(html).toContain('Hi Anna');
+    expect(html).toContain('src="https://pictures.immobilienscout24.de/listings/158199021.jpg"');
+    expect(html).toContain('href="https://www.immobilienscout24.de/expose/158199021"');
+    expect(html).toContain('Price reduced from 1.250 € to 1.150 €');
+    expect(body(mail.data, 'text/plain')).toContain('https://www.immobilienscout24.de/expose/158170312');
+  });
+
+  it('authenticates when credentials are configured', async () => {
+    sink = new SmtpSink({ credentials: { user: 'flats', password: 's3cret' } });
+    const email = await channel({ user: 'flats', password: 's3cret' });
+
+    await email.send(recipient, { newListings: [listing], priceDrops: [] });
+
+    expect(sink.messages.map((m) => m.auth)).toEqual(['flats:s3cret']);
+  });
+
+  it('fails when the server refuses the recipient', async () => {
+    sink = new SmtpSink({ rejectRecipients: ['anna@example.org'] });
+    const email = await channel();
+
+    await expect(email.send(recipient, { newListings: [listing], priceDrops: [] })).rejects.toThrow(/550/);
+    expect(sink.messages).toHaveLength(0);
+  });
+
+  it.each([
+    ['anna@example.org', 'anna@example.org'],
+    ['  anna@example.org ', 'anna@example.org'],
+    ['anna@example', null],
+    ['anna example.org', null],
+  ])('parses the address %j', async (input, expected) => {
+    sink = new SmtpSink();
+    expect((await channel()).parseAddress(input)).toBe(expected);
+  });
+});
@@ -0,0 +1,49 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { GeoPoint } from '../../../src/domain/entities/GeoPoint.js';
+import { DatabaseConnection } from '../../../src/infrastructure/database/Database.js';
+import { CachingGeocoder } from '../../../src/infrastructure/geocoding/CachingGeocoder.js';
+import { NominatimGeocoder } from '../../../src/infrastructure/geocoding/NominatimGeocoder.js';
+import { NominatimStandIn } from '../../helpers/NominatimStandIn.js';
+
+// The geocode_cache table, keyed like the real one
+function cacheTable() {
+  const rows = new Map<string, GeoPoint | null>();
+  const db = {
+    getCachedGeocode: async (geocoder: string, query: string) => rows.get(`${geocoder} ${query}`),
+    setCachedGeocode: async (geocoder: string, query: string, point: GeoPoint | null) => {
+      rows.set(`${geocoder} ${query}`, point);
+    },
+  };
+  return { rows, db: db as unknown as DatabaseConnection };
+}
+
+describe('CachingGeocoder', () => {
+  const standIn = new NominatimStandIn({ '10245 Berlin': { lat: '52.5003', lon: '13.4578' } }, ['Überlastet 1']);
+
+  afterEach(async () => {
+    await standIn.stop();
+    standIn.requests.length = 0;
+  });
+
+  it('looks up each normalized address once, "not found" included', async () => {
+    const { rows, db } = cacheTable();
+    const geocoder = new CachingGeocoder(new NominatimGeocoder(await standIn.start()), db);
+
+    await expect(geocoder.geocode('10245 Berlin')).resolves.toEqual({ lat: 52.5003, lon: 13.4578 });
+    await expect(geocoder.geocode('  10245   BERLIN ')).resolves.toEqual({ lat: 52.5003, lon: 13.4578 });
+    await expect(geocoder.geocode('Nirgendwo 7')).resolves.toBeNull();
+    await expect(geocoder.geocode('nirgendwo 7')).resolves.toBeNull();
+
+    expect(standIn.requests.map((r) => r.query.get('q'))).toEqual(['10245 Berlin', 'Nirgendwo 7']);
+    expect([...rows.keys()]).toEqual(['nominatim 10245 berlin', 'nominatim nirgendwo 7']);
+  });
+
+  it('does not cache errors', async () => {
+    const { rows, db } = cacheTable();
+    const geocoder = new CachingGeocoder(new NominatimGeocoder(await standIn.start()), db);
+
+    await expect(geocoder.geocode('Überlastet 1')).rejects.toThrow('HTTP 503');
+
+    expect(rows.size).toBe(0);
+  });
+});
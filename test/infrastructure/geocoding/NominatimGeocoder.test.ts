@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { NominatimGeocoder } from '../../../src/infrastructure/geocoding/NominatimGeocoder.js';
+import { NominatimStandIn } from '../../helpers/NominatimStandIn.js';
+
+const PLACES = {
+  'Sendlinger Str. 1, 80331 München': { lat: '48.1351', lon: '11.5683' },
+  '10245 Berlin': { lat: '52.5003', lon: '13.4578' },
+};
+
+describe('NominatimGeocoder', () => {
+  let standIn: NominatimStandIn;
+
+  beforeEach(() => {
+    standIn = new NominatimStandIn(PLACES, ['Überlastet 1']);
+  });
+
+  afterEach(async () => {
+    await standIn.stop();
+  });
+
+  it('asks /search for one German result and parses the coordinates', async () => {
+    const geocoder = new NominatimGeocoder(await standIn.start(), 'apartment-scraper-test');
+
+    const point = await geocoder.geocode('Sendlinger Str. 1, 80331 München');
+
+    expect(point).toEqual({ lat: 48.1351, lon: 11.5683 });
+    const [request] = standIn.requests;
+    expect(request.path).toBe('/search');
+    expect(Object.fromEntries(request.query)).toEqual({
+      q: 'Sendlinger Str. 1, 80331 München',
+      format: 'jsonv2',
+      limit: '1',
+      countrycodes: 'de',
+    });
+    expect(request.userAgent).toBe('apartment-scraper-test');
+  });
+
+  it('keeps the path of a self-hosted instance', async () => {
+    const baseUrl = await standIn.start('/nominatim');
+
+    await expect(new NominatimGeocoder(baseUrl).geocode('10245 Berlin')).resolves.toEqual({ lat: 52.5003, lon: 13.4578 });
+    await expect(new NominatimGeocoder(`${baseUrl}/`).geocode('10245 Berlin')).resolves.not.toBeNull();
+    expect(standIn.requests.map((r) => r.path)).toEqual(['/nominatim/search', '/nominatim/search']);
+  });
+
+  it('returns null when nothing is found', async () => {
+    const geocoder = new NominatimGeocoder(await standIn.start());
+
+    await expect(geocoder.geocode('Nirgendwo 7')).resolves.toBeNull();
+  });
+
+  it('throws on error responses and keeps serving later queries', async () => {
+    const geocoder = new NominatimGeocoder(await standIn.start());
+
+    const failed = geocoder.geocode('Überlastet 1');
+    const next = geocoder.geocode('10245 Berlin');
+
+    await expect(failed).rejects.toThrow('Geocoding failed with HTTP 503');
+    await expect(next).resolves.toEqual({ lat: 52.5003, lon: 13.4578 });
+  });
+
+  it('sends at most one request per second', async () => {
+    const geocoder = new NominatimGeocoder(await standIn.start());
+
+    await Promise.all([geocoder.geocode('10245 Berlin'), geocoder.geocode('Sendlinger Str. 1, 80331 München')]);
+
+    const [first, second] = standIn.requests;
+    expect(second.receivedAt - first.receivedAt).toBeGreaterThanOrEqual(1000);
+  });
+});
@@ -0,0 +1,55 @@
+import { join } from 'path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { distanceKm } from '../../../src/domain/services/GeoDistance.js';
+import { PostcodeCentroidGeocoder } from '../../../src/infrastructure/geocoding/PostcodeCentroidGeocoder.js';
+import { FIXTURES_DIR } from '../../helpers/fixtures.js';
+
+const BUNDLED_FILE = join(FIXTURES_DIR, '..', '..', 'geo', 'DE.txt');
+
+describe('PostcodeCentroidGeocoder', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('places an address at the mean of its postcode rows', async () => {
+    const geocoder = new PostcodeCentroidGeocoder(join(FIXTURES_DIR, 'geo', 'DE.txt'));
+
+    const point = await geocoder.geocode('Warschauer Str. 1, 10245 Berlin');
+    expect(point?.lat).toBeCloseTo(52.5053, 6);
+    expect(point?.lon).toBeCloseTo(13.4628, 6);
+    expect(await geocoder.geocode('14467')).toEqual({ lat: 52.4009, lon: 13.0591 });
+  });
+
+  it('falls back to the place name without a known postcode', async () => {
+    const geocoder = new PostcodeCentroidGeocoder(join(FIXTURES_DIR, 'geo', 'DE.txt'));
+
+    const berlin = await geocoder.geocode('berlin');
+    expect(berlin?.lat).toBeCloseTo((52.5003 + 52.5323) / 2, 6);
+    expect(await geocoder.geocode('Zeppelinstr. 3, 14471 Potsdam')).toEqual({ lat: 52.4009, lon: 13.0591 });
+    expect(await geocoder.geocode('99999 Nirgendwo')).toBeNull();
+    expect(await geocoder.geocode('Hamburg')).toBeNull();
+  });
+
+  it('warns once and locates nothing when the file is missing', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const geocoder = new PostcodeCentroidGeocoder(join(FIXTURES_DIR, 'geo', 'missing.txt'));
+
+    expect(await geocoder.geocode('10245 Berlin')).toBeNull();
+    expect(await geocoder.geocode('Berlin')).toBeNull();
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][0]).toContain('missing.txt not found');
+  });
+
+  // geo/DE.txt is the default GEO_POSTCODES_FILE - town centres, not postcode areas
+  it.each([
+    ['Gotzinger Str. 12, 81371 München', { lat: 48.137, lon: 11.575 }],
+    ['Warschauer Str. 1, 10245 Berlin', { lat: 52.52, lon: 13.405 }],
+    ['50667 Köln', { lat: 50.938, lon: 6.96 }],
+    ['Frankfurt am Main', { lat: 50.11, lon: 8.68 }],
+  ])('locates %j with the bundled file', async (address, expected) => {
+    const point = await new PostcodeCentroidGeocoder(BUNDLED_FILE).geocode(address);
+
+    expect(point).not.toBeNull();
+    expect(distanceKm(point!, expected)).toBeLessThan(5);
+  });
+});
@@ -0,0 +1,56 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ImmoScoutApiClient } from '../../../src/infrastructure/immoscout/ImmoScoutApiClient.js';
+import { readFixture } from '../../helpers/fixtures.js';
+
+const SEARCH_URL = 'https://www.immobilienscout24.de/Suche/de/bayern/muenchen/wohnung-mieten?price=-2500.0';
+
+function stubFetch(response: Response) {
+  const fetchMock = vi.fn(async (_url: string | URL | Request, _init?: RequestInit) => response);
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+describe('ImmoScoutApiClient', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('posts the converted search to the mobile API', async () => {
+    const fetchMock = stubFetch(new Response(readFixture('immoscout/search-page-2.json')));
+
+    await new ImmoScoutApiClient().search(SEARCH_URL, 2);
+
+    const [url, init] = fetchMock.mock.calls[0];
+    const requested = new URL(String(url));
+    expect(requested.origin + requested.pathname).toBe('https://api.mobile.immobilienscout24.de/search/list');
+    expect(Object.fromEntries(requested.searchParams)).toMatchObject({
+      searchType: 'region',
+      realestatetype: 'apartmentrent',
+      geocodes: '/de/bayern/muenchen',
+      price: '-2500.0',
+      pagenumber: '2',
+    });
+    expect(init?.method).toBe('POST');
+  });
+
+  it('keeps only expose results and reads the paging info', async () => {
+    stubFetch(new Response(readFixture('immoscout/search-page-1.json')));
+
+    const page = await new ImmoScoutApiClient().search(SEARCH_URL);
+
+    expect(page.exposes.map((e) => e.id)).toEqual(['158201734', '158199021', '158187455']);
+    expect(page).toMatchObject({ pageNumber: 1, numberOfPages: 3, totalResults: 43 });
+  });
+
+  it('throws with the HTTP status when the API refuses', async () => {
+    stubFetch(new Response('{}', { status: 429, statusText: 'Too Many Requests' }));
+
+    await expect(new ImmoScoutApiClient().search(SEARCH_URL)).rejects.toThrow(
+      'ImmoScout API returned HTTP 429 Too Many Requests'
+    );
+  });
+
+  it('links exposes to the web page', () => {
+    expect(ImmoScoutApiClient.exposeUrl('158201734')).toBe('https://www.immobilienscout24.de/expose/158201734');
+  });
+});
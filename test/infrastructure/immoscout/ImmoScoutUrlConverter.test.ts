@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { ImmoScoutUrlConverter } from '../../../src/infrastructure/immoscout/ImmoScoutUrlConverter.js';
+
+function convert(url: string): Record<string, string> {
+  return Object.fromEntries(ImmoScoutUrlConverter.toApiParams(url));
+}
+
+describe('ImmoScoutUrlConverter', () => {
+  it('turns a region search path into geocodes', () => {
+    expect(convert('https://www.immobilienscout24.de/Suche/de/bayern/muenchen/wohnung-mieten')).toEqual({
+      searchType: 'region',
+      realestatetype: 'apartmentrent',
+      geocodes: '/de/bayern/muenchen',
+      sorting: '-firstactivation',
+    });
+  });
+
+  it('passes known filters through and drops web-only parameters', () => {
+    const params = convert(
+      'https://www.immobilienscout24.de/Suche/de/berlin/berlin/wohnung-mieten' +
+        '?price=-1500.0&livingspace=50.0-&numberofrooms=2.0-&enteredFrom=result_list&pricetype=rentpermonth'
+    );
+
+    expect(params).toMatchObject({
+      geocodes: '/de/berlin/berlin',
+      price: '-1500.0',
+      livingspace: '50.0-',
+      numberofrooms: '2.0-',
+      pricetype: 'rentpermonth',
+    });
+    expect(params).not.toHaveProperty('enteredFrom');
+  });
+
+  it('prefers numeric geocodes from the query over the path', () => {
+    const params = convert(
+      'https://www.immobilienscout24.de/Suche/de/hamburg/hamburg/wohnung-mieten?geocodes=1276006001040,1276006001041'
+    );
+    expect(params.geocodes).toBe('1276006001040,1276006001041');
+  });
+
+  it('builds radius searches without geocodes', () => {
+    const params = convert(
+      'https://www.immobilienscout24.de/Suche/radius/wohnung-mieten?geocoordinates=52.52;13.405;5.0'
+    );
+    expect(params).toMatchObject({ searchType: 'radius', geocoordinates: '52.52;13.405;5.0' });
+    expect(params).not.toHaveProperty('geocodes');
+  });
+
+  it.each([
+    ['haus-mieten', 'houserent'],
+    ['wohnung-kaufen', 'apartmentbuy'],
+    ['wg-zimmer', 'flatshareroom'],
+    ['wohnen-auf-zeit', 'shorttermaccommodation'],
+  ])('maps /%s to %s', (segment, type) => {
+    expect(convert(`https://www.immobilienscout24.de/Suche/de/koeln/koeln/${segment}`).realestatetype).toBe(type);
+  });
+
+  it('replaces numeric web sort codes with newest first but keeps API sort values', () => {
+    expect(convert('https://www.immobilienscout24.de/Suche/de/koeln/koeln/wohnung-mieten?sorting=2').sorting).toBe(
+      '-firstactivation'
+    );
+    expect(
+      convert('https://www.immobilienscout24.de/Suche/de/koeln/koeln/wohnung-mieten?sorting=price').sorting
+    ).toBe('price');
+  });
+
+  it('rejects URLs that are not searches', () => {
+    expect(() => ImmoScoutUrlConverter.toApiParams('https://www.immobilienscout24.de/expose/158201734')).toThrow(
+      /Unsupported ImmoScout search URL/
+    );
+    expect(() =>
+      ImmoScoutUrlConverter.toApiParams('https://www.immobilienscout24.de/Suche/de/koeln/koeln/garage-mieten')
+    ).toThrow(/Unsupported ImmoScout real estate type: garage-mieten/);
+  });
+});
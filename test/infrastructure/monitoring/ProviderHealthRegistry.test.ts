@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ProviderHealthRegistry } from '../../../src/infrastructure/monitoring/ProviderHealthRegistry.js';
+
+vi.mock('../../../src/infrastructure/monitoring/MonitoringService.js', () => ({
+  MonitoringService: {
+    getInstance: () => ({ logCircuitOpened: async () => {}, logCircuitClosed: async () => {} }),
+  },
+}));
+
+const COOLDOWN_MS = 60_000;
+
+describe('ProviderHealthRegistry', () => {
+  const registry = ProviderHealthRegistry.getInstance();
+  let key: string;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    registry.configure({ failureThreshold: 2, cooldownMs: COOLDOWN_MS });
+    key = `Immowelt ${Math.random()}`;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function openCircuit(): void {
+    registry.recordFailure(key, 'Immowelt', 'forbidden');
+    registry.recordFailure(key, 'Immowelt', 'rate_limited');
+  }
+
+  it('opens after consecutive blocking errors only', () => {
+    registry.recordFailure(key, 'Immowelt', 'forbidden');
+    registry.recordFailure(key, 'Immowelt', 'timeout');
+    registry.recordFailure(key, 'Immowelt', 'forbidden');
+    expect(registry.getState(key)).toBe('closed');
+
+    registry.recordFailure(key, 'Immowelt', 'captcha');
+    expect(registry.getState(key)).toBe('open');
+    expect(registry.canAttempt(key)).toBe(false);
+  });
+
+  it('lets a single probe through after the cool-down', () => {
+    openCircuit();
+    vi.advanceTimersByTime(COOLDOWN_MS);
+
+    expect(registry.canAttempt(key)).toBe(true);
+    expect(registry.getState(key)).toBe('half_open');
+    // Other users and searches wait for the probe
+    expect(registry.canAttempt(key)).toBe(false);
+    expect(registry.canAttempt(key)).toBe(false);
+
+    registry.recordSuccess(key, 'Immowelt');
+    expect(registry.getState(key)).toBe('closed');
+    expect(registry.canAttempt(key)).toBe(true);
+  });
+
+  it('reopens for another cool-down when the probe fails', () => {
+    openCircuit();
+    vi.advanceTimersByTime(COOLDOWN_MS);
+    expect(registry.canAttempt(key)).toBe(true);
+
+    registry.recordFailure(key, 'Immowelt', 'forbidden');
+
+    expect(registry.getState(key)).toBe('open');
+    expect(registry.canAttempt(key)).toBe(false);
+    vi.advanceTimersByTime(COOLDOWN_MS);
+    expect(registry.canAttempt(key)).toBe(true);
+    expect(registry.canAttempt(key)).toBe(false);
+  });
+});
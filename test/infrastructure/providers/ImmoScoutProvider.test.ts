@@ -0,0 +1,130 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { EnrichedListing } from '../../../src/domain/entities/Listing.js';
+import { ImmoScoutProvider } from '../../../src/infrastructure/providers/ImmoScoutProvider.js';
+import { buildHash } from '../../../src/infrastructure/utils/hash.js';
+import { IMMOSCOUT_SEARCH_URL as SEARCH_URL, fixtureImmoScoutClient as fixtureClient } from '../../helpers/immoscout.js';
+
+describe('ImmoScoutProvider', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('maps exposes to listings', async () => {
+    const { client } = fixtureClient();
+    const provider = new ImmoScoutProvider(SEARCH_URL, client);
+
+    const [first, second, third] = (await provider.scrape(20)) as EnrichedListing[];
+
+    expect(first).toMatchObject({
+      id: '158201734',
+      title: 'Helle 3-Zimmer-Wohnung mit Balkon in Schwabing',
+      price: '1.650 €',
+      size: '78,5 m²',
+      address: 'Belgradstraße 41, 80796 München, Schwabing-West',
+      link: 'https://www.immobilienscout24.de/expose/158201734',
+      image: 'https://pictures.immobilienscout24.de/listings/0a1b2c3d-full.jpg',
+      hash: buildHash('158201734'),
+      source: 'ImmoScout',
+      promoted: true,
+      details: { rooms: '3 Zi.', coldRent: '1.650 €', publishedAt: '2025-03-14T09:12:44.000+01:00' },
+      metrics: { coldRent: 1650, warmRent: null, livingSpaceSqm: 78.5, rooms: 3, pricePerSqm: 21.02 },
+    });
+    expect(first.postedAt).toEqual(new Date('2025-03-14T08:12:44.000Z'));
+
+    // Labelled attributes, "NEU" marker in the title, district in brackets
+    expect(second).toMatchObject({
+      title: 'Ruhige 2-Zimmer-Wohnung nahe Olympiapark',
+      price: '1.120 €',
+      size: '54 m²',
+      address: 'Moosacher Straße 12, 80809 München, Milbertshofen',
+      image: 'https://pictures.immobilienscout24.de/listings/4e5f6a7b-preview.jpg',
+      promoted: false,
+      details: { rooms: '2' },
+      metrics: { coldRent: 1120, livingSpaceSqm: 54, rooms: 2 },
+    });
+
+    // A labelled response without a rooms attribute must not fall back to the size
+    expect(third).toMatchObject({ image: null, details: { rooms: null } });
+    expect(third.metrics?.rooms).toBe(1);
+  });
+
+  it('stays on the first page by default', async () => {
+    const { client, search } = fixtureClient();
+    const provider = new ImmoScoutProvider(SEARCH_URL, client);
+
+    const listings = await provider.scrape(20, [new Set([buildHash('not-on-any-page')])]);
+
+    expect(search).toHaveBeenCalledTimes(1);
+    expect(listings).toHaveLength(3);
+  });
+
+  it('follows pages until it reaches a known listing', async () => {
+    const { client, search } = fixtureClient();
+    const provider = new ImmoScoutProvider(SEARCH_URL, client, 3);
+
+    const listings = await provider.scrape(20, [new Set([buildHash('158170312')])]);
+
+    expect(search.mock.calls.map(([, page]) => page ?? 1)).toEqual([1, 2]);
+    // The expose repeated at the top of page 2 is only returned once
+    expect(listings.map((l) => l.id)).toEqual(['158201734', '158199021', '158187455', '158170312', '158166098']);
+  });
+
+  it('does not page when the first page already holds a known listing', async () => {
+    const { client, search } = fixtureClient();
+    const provider = new ImmoScoutProvider(SEARCH_URL, client, 3);
+
+    await provider.scrape(20, [new Set([buildHash('158187455')])]);
+
+    expect(search).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not page without checkpoints', async () => {
+    const { client, search } = fixtureClient();
+    const provider = new ImmoScoutProvider(SEARCH_URL, client, 3);
+
+    await provider.scrape(20);
+
+    expect(search).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps paging until every subscriber reached a checkpoint', async () => {
+    const { client, search } = fixtureClient();
+    const provider = new ImmoScoutProvider(SEARCH_URL, client, 3);
+
+    const listings = await provider.scrape(20, [
+      new Set([buildHash('158187455')]),
+      new Set([buildHash('158151877')]),
+      new Set(),
+    ]);
+
+    expect(search).toHaveBeenCalledTimes(3);
+    expect(listings.map((l) => l.id).at(-1)).toBe('158151877');
+  });
+
+  it('keeps the pages it has when a later page fails', async () => {
+    const { client, search } = fixtureClient();
+    const provider = new ImmoScoutProvider(SEARCH_URL, client, 3);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const fixturePage = search.getMockImplementation()!;
+    search.mockImplementation(async (url, page = 1) => {
+      if (page === 2) throw new Error('HTTP 429');
+      return fixturePage(url, page);
+    });
+
+    const listings = await provider.scrape(20, [new Set([buildHash('158151877')])]);
+
+    expect(search).toHaveBeenCalledTimes(2);
+    expect(listings.map((l) => l.id)).toEqual(['158201734', '158199021', '158187455']);
+    expect(provider.getConsecutiveErrors()).toBe(0);
+  });
+
+  it('stops at the last page the API reports', async () => {
+    const { client, search } = fixtureClient();
+    const provider = new ImmoScoutProvider(SEARCH_URL, client, 10);
+
+    const listings = await provider.scrape(20, [new Set([buildHash('not-on-any-page')])]);
+
+    expect(search).toHaveBeenCalledTimes(3);
+    expect(listings.map((l) => l.id).at(-1)).toBe('158151877');
+  });
+});
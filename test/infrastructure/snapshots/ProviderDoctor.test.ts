@@ -0,0 +1,76 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ProviderHealthRegistry } from '../../../src/infrastructure/monitoring/ProviderHealthRegistry.js';
+import { ProviderRegistry } from '../../../src/infrastructure/providers/ProviderRegistry.js';
+import { ProviderDoctor } from '../../../src/infrastructure/snapshots/ProviderDoctor.js';
+import { SnapshotStore } from '../../../src/infrastructure/snapshots/SnapshotStore.js';
+import { FIXTURES_DIR } from '../../helpers/fixtures.js';
+
+const PROVIDERS_DIR = join(FIXTURES_DIR, '..', '..', 'providers');
+
+describe('ProviderDoctor', () => {
+  let registry: ProviderRegistry;
+  let localDir: string;
+
+  beforeEach(() => {
+    registry = new ProviderRegistry(PROVIDERS_DIR);
+    registry.load();
+    localDir = mkdtempSync(join(tmpdir(), 'snapshots-'));
+  });
+
+  afterEach(() => {
+    rmSync(localDir, { recursive: true, force: true });
+  });
+
+  // The committed snapshots are the selector regression suite for every browser provider
+  it('finds listings in the fixture snapshot of every browser provider', async () => {
+    const doctor = new ProviderDoctor(
+      registry,
+      new SnapshotStore(join(FIXTURES_DIR, 'snapshots')),
+      new SnapshotStore(localDir)
+    );
+
+    const reports = await doctor.examine();
+
+    const browserProviders = registry.getAll().filter((d) => (d.type ?? 'browser') === 'browser');
+    expect(reports.map((r) => r.providerId).sort()).toEqual(browserProviders.map((d) => d.id).sort());
+    for (const report of reports) {
+      expect(report.fixtures, report.providerId).not.toHaveLength(0);
+      for (const fixture of report.fixtures) {
+        expect(fixture.listings, `${report.providerId} listings`).toBeGreaterThan(0);
+        expect(fixture.parsed.rent, `${report.providerId} rent`).toBeGreaterThan(0);
+        expect(fixture.parsed.livingSpace, `${report.providerId} living space`).toBeGreaterThan(0);
+        for (const field of fixture.fields.filter((f) => f.field !== 'promoted')) {
+          expect(field.filled, `${report.providerId} ${field.field}`).toBeGreaterThan(0);
+        }
+      }
+      expect(report.healthy, report.providerId).toBe(true);
+    }
+  });
+
+  it('reports a provider without fixture snapshots as unhealthy', async () => {
+    const doctor = new ProviderDoctor(registry, new SnapshotStore(localDir), new SnapshotStore(localDir));
+
+    const [report] = await doctor.examine('immowelt');
+
+    expect(report).toMatchObject({ providerId: 'immowelt', fixtures: [], healthy: false });
+    expect(ProviderDoctor.format([report])).toContain('No fixture snapshot');
+  });
+
+  it('replays a page without cards without touching the circuit breaker', async () => {
+    const fixtures = new SnapshotStore(localDir);
+    fixtures.save(
+      { providerId: 'kleinanzeigen', url: 'https://www.kleinanzeigen.de/s-wohnung-mieten/c203', reason: 'manual' },
+      '<html><body><h1>Bitte bestätigen Sie, dass Sie kein Roboter sind</h1></body></html>'
+    );
+    const doctor = new ProviderDoctor(registry, fixtures, new SnapshotStore(join(localDir, 'local')));
+
+    const [report] = await doctor.examine('kleinanzeigen');
+
+    expect(report.healthy).toBe(false);
+    expect(report.fixtures[0]).toMatchObject({ cards: 0, listings: 0 });
+    expect(ProviderHealthRegistry.getInstance().getAll()).toEqual([]);
+  });
+});
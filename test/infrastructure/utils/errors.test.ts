@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { HttpStatusError, ScrapeError, classifyScrapeError } from '../../../src/infrastructure/utils/errors.js';
+
+describe('classifyScrapeError', () => {
+  it.each([
+    [403, 'forbidden'],
+    [429, 'rate_limited'],
+    [500, 'network'],
+    [503, 'network'],
+  ] as const)('classifies HTTP %i by its status', (status, kind) => {
+    const error = new HttpStatusError(status, `HTTP ${status} for https://www.immowelt.de/liste/berlin/wohnungen/mieten`);
+    expect(classifyScrapeError(error)).toBe(kind);
+  });
+
+  it('finds the status behind a ScrapeError that kept an artifact', () => {
+    const cause = new HttpStatusError(429, 'HTTP 429 Too Many Requests for https://www.kleinanzeigen.de/s-wohnung-mieten/c203');
+    expect(classifyScrapeError(new ScrapeError(cause.message, 'artifact-1', { cause }))).toBe('rate_limited');
+  });
+
+  // Listing ids, postcodes and price filters in the URL must not look like status codes
+  it.each([
+    [500, 'HTTP 500 Internal Server Error for https://www.kleinanzeigen.de/s-wohnung-mieten/40329/c203l1403', 'network'],
+    [404, 'HTTP 404 Not Found for https://www.wg-gesucht.de/wohnungen-in-Berlin.8.2.1.0.html?rMax=1429', 'unknown'],
+  ] as const)('ignores digits in the URL of an HTTP %i', (status, message, kind) => {
+    expect(classifyScrapeError(new HttpStatusError(status, message))).toBe(kind);
+    expect(classifyScrapeError(new Error(message))).toBe(kind);
+  });
+
+  it('ignores digits in the URL of a timeout', () => {
+    const error = new Error('Navigation timeout of 30000 ms exceeded for https://www.immowelt.de/expose/2b7k403?plz=40329');
+    expect(classifyScrapeError(error)).toBe('timeout');
+  });
+
+  it('still reads status codes from messages of errors without a status', () => {
+    expect(classifyScrapeError(new Error('ImmoScout API returned HTTP 403 Forbidden'))).toBe('forbidden');
+    expect(classifyScrapeError(new Error('HTTP 429 Too Many Requests'))).toBe('rate_limited');
+    expect(classifyScrapeError(new Error('net::ERR_CONNECTION_RESET at https://www.immowelt.de/'))).toBe('network');
+    expect(classifyScrapeError(new Error('CAPTCHA detected - no listings found'))).toBe('captcha');
+  });
+});
@@ -0,0 +1,66 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { WebhookClient, WebhookError } from '../../../src/infrastructure/webhook/WebhookClient.js';
+import { WebhookReceiver } from '../../helpers/WebhookReceiver.js';
+
+const client = new WebhookClient({ retries: 2, baseDelayMs: 1, timeoutMs: 2000 });
+
+describe('WebhookClient', () => {
+  let receiver: WebhookReceiver;
+
+  afterEach(async () => {
+    await receiver.stop();
+  });
+
+  it('posts the body with the given headers', async () => {
+    receiver = new WebhookReceiver();
+    const url = await receiver.start();
+
+    await client.post(`${url}/hooks/flats?token=abc`, '{"ok":true}', { 'Content-Type': 'application/json' });
+
+    expect(receiver.requests).toHaveLength(1);
+    expect(receiver.requests[0]).toMatchObject({ method: 'POST', path: '/hooks/flats?token=abc', body: '{"ok":true}' });
+    expect(receiver.requests[0].headers).toMatchObject({
+      'content-type': 'application/json',
+      'user-agent': 'apartment-scraper',
+    });
+  });
+
+  it.each([408, 429, 500, 503])('retries after HTTP %i', async (status) => {
+    receiver = new WebhookReceiver([status, status]);
+    const url = await receiver.start();
+
+    await client.post(url, '{}', {});
+
+    expect(receiver.requests).toHaveLength(3);
+  });
+
+  it.each([400, 401, 404, 410, 422])('gives up right away after HTTP %i', async (status) => {
+    receiver = new WebhookReceiver([status]);
+    const url = await receiver.start();
+
+    const error = await client.post(url, '{}', {}).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(WebhookError);
+    expect(error).toMatchObject({ status, message: `HTTP ${status}` });
+    expect(receiver.requests).toHaveLength(1);
+  });
+
+  it('stops after the configured retries', async () => {
+    receiver = new WebhookReceiver([502, 502, 502, 200]);
+    const url = await receiver.start();
+
+    await expect(client.post(url, '{}', {})).rejects.toMatchObject({ status: 502 });
+    expect(receiver.requests).toHaveLength(3);
+  });
+
+  it('retries when nothing answers', async () => {
+    receiver = new WebhookReceiver();
+    const url = await receiver.start();
+    await receiver.stop();
+
+    const error = await client.post(url, '{}', {}).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(WebhookError);
+    expect(error).toMatchObject({ status: null });
+  });
+});